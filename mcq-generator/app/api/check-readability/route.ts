@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { extractTextFromImage } from '@/lib/openai';
+import { createImageDelivery, getImageDeliveryConfigError, ImageDelivery } from '@/lib/image-delivery';
+import { getLLMConfigError, getLLMProvider } from '@/lib/llm-provider';
+import { LLMValidationError } from '@/lib/llm-validation';
+import { isPdfFile, MATERIAL_LIMITS } from '@/lib/material-files';
+import { toReadabilityCheck } from '@/lib/readability';
+
+export const runtime = 'nodejs';
+
+/**
+ * Readability pre-check for one page image, run by the uploader before any quiz is generated:
+ * the model reads the page (preprocessed exactly as generation would) and reports how much of it
+ * was legible and which areas were unclear, with a warning when the page is likely to give poor questions
+ */
+export async function POST(request: NextRequest) {
+  let delivery: ImageDelivery | null = null;
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get('image');
+
+    if (!(file instanceof File) || isPdfFile(file) || !file.type.startsWith('image/')) {
+      return NextResponse.json(
+        { error: 'Send one page image in the image field', success: false },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MATERIAL_LIMITS.maxFileSizeMB * 1024 * 1024) {
+      return NextResponse.json(
+        { error: `${file.name} is larger than ${MATERIAL_LIMITS.maxFileSizeMB}MB`, success: false },
+        { status: 400 }
+      );
+    }
+
+    const configError = getImageDeliveryConfigError() ?? getLLMConfigError();
+    if (configError) {
+      console.error(`❌ Readability check not configured: ${configError}`);
+      return NextResponse.json(
+        { error: configError, success: false },
+        { status: 500 }
+      );
+    }
+
+    console.log(`🔍 Readability check: ${file.name} (${(file.size / 1024 / 1024).toFixed(2)}MB)`);
+    delivery = createImageDelivery();
+    const image = await delivery.deliver(Buffer.from(await file.arrayBuffer()), file);
+    const extraction = await extractTextFromImage(getLLMProvider(), image);
+    await delivery.cleanup();
+
+    const readability = toReadabilityCheck(extraction);
+    console.log(`📈 ${file.name}: ${readability.readabilityScore}, ${readability.extractionPercentage}% extracted, ${readability.confidence} confidence${readability.warning ? ' ⚠️' : ''}`);
+
+    return NextResponse.json({ success: true, readability });
+  } catch (error) {
+    console.error('❌ Readability check failed:', error);
+    await delivery?.cleanup();
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to check readability',
+        validationErrors: error instanceof LLMValidationError ? error.errors : undefined,
+        success: false
+      },
+      { status: 500 }
+    );
+  }
+}
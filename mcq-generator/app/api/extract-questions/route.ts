@@ -1,7 +1,14 @@
 // ENHANCED VERSION with improved extraction quality
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
 import { extractText } from 'unpdf';
+import { getLLMProvider } from '@/lib/llm-provider';
+import {
+  completeWithValidation,
+  findQuestionsArray,
+  LLMValidationError,
+  validateExtractedQuestions
+} from '@/lib/llm-validation';
+import { ExtractedQuestion } from '@/lib/types';
 
 const ALLOWED_ORIGINS = [
   'https://quizgenerator.pastpaperpal.co.uk',
@@ -29,16 +36,6 @@ export async function OPTIONS(req: NextRequest) {
   });
 }
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-interface ExtractedQuestion {
-  question_id: string;
-  text: string;
-  mark_scheme: string;
-}
-
 // Extract text from PDF
 async function extractPDFText(buffer: Buffer): Promise<string> {
   try {
@@ -162,33 +159,24 @@ ${markSchemeText.slice(0, 60000)}
 Extract ALL questions with their complete mark schemes. Return JSON object with "questions" array.`;
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt }
-      ],
-      response_format: { type: 'json_object' },
-      temperature: 0,
-      max_tokens: 16000 // Increased for longer papers
-    });
-
-    const content = completion.choices[0].message.content!;
-
-    // Parse and extract questions array
-    let parsed = JSON.parse(content);
+    // Parse, validate and (if needed) re-prompt with the specific problems
+    const parsed = await completeWithValidation<unknown>(
+      getLLMProvider(),
+      {
+        task: 'extract-questions',
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt }
+        ],
+        jsonMode: true,
+        temperature: 0,
+        maxTokens: 16000 // Increased for longer papers
+      },
+      validateExtractedQuestions
+    );
 
     // Handle different response structures
-    let questionsArray: any[] = [];
-    if (Array.isArray(parsed)) {
-      questionsArray = parsed;
-    } else if (parsed.questions && Array.isArray(parsed.questions)) {
-      questionsArray = parsed.questions;
-    } else {
-      // Try to find first array in object
-      const values = Object.values(parsed);
-      questionsArray = values.find(v => Array.isArray(v)) as any[] || [];
-    }
+    const questionsArray = (findQuestionsArray(parsed) || []) as ExtractedQuestion[];
 
     if (!Array.isArray(questionsArray) || questionsArray.length === 0) {
       throw new Error('No questions array found in AI response');
@@ -248,6 +236,8 @@ Extract ALL questions with their complete mark schemes. Return JSON object with
 
   } catch (error: any) {
     console.error('AI extraction error:', error);
+    // Keep the structured list of violations for the response
+    if (error instanceof LLMValidationError) throw error;
     throw new Error(`AI extraction failed: ${error.message}`);
   }
 }
@@ -348,6 +338,7 @@ export async function POST(req: NextRequest) {
     return NextResponse.json(
       { 
         error: error.message || 'Failed to extract questions',
+        validationErrors: error instanceof LLMValidationError ? error.errors : undefined,
         details: process.env.NODE_ENV === 'development' ? error.stack : undefined
       },
       {
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStorage, resolveStorageConfig, verifySignedFileUrl } from '@/lib/storage';
+
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: Promise<{ key: string[] }>;
+}
+
+/**
+ * Serve an upload from the local or memory storage backend to whoever holds its signed URL
+ * (the model fetching a page image): /api/files/temp/<name>?expires=<unix>&signature=<hmac>
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const key = (await params).key.join('/');
+  const { searchParams } = request.nextUrl;
+
+  try {
+    const rejection = verifySignedFileUrl(
+      resolveStorageConfig(),
+      key,
+      searchParams.get('expires'),
+      searchParams.get('signature')
+    );
+    if (rejection) {
+      return NextResponse.json(
+        { error: rejection, success: false },
+        { status: 403 }
+      );
+    }
+
+    const file = await getStorage().read(key);
+    if (!file) {
+      return NextResponse.json(
+        { error: `File ${key} not found`, success: false },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(file.body), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Length': String(file.body.length),
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('❌ Failed to serve file:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to serve file',
+        success: false
+      },
+      { status: 500 }
+    );
+  }
+}
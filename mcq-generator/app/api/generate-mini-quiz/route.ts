@@ -1,11 +1,39 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generateMiniQuiz } from '@/lib/openai';
-import { uploadToR2, deleteFromR2, getSignedR2Url } from '@/lib/r2-client';
+import { auditAoLevels, generateMiniQuiz, verifyQuestionGrounding } from '@/lib/openai';
+import { createImageDelivery, getImageDeliveryConfigError, ImageDelivery } from '@/lib/image-delivery';
+import { getLLMConfigError, getLLMProvider } from '@/lib/llm-provider';
+import { LLMValidationError } from '@/lib/llm-validation';
+import { parseOptionCountField, parseQuestionTypeFields } from '@/lib/question-types';
+import { saveGeneratedQuiz } from '@/lib/quiz-library';
+import { isGroundingCheckEnabled } from '@/lib/source-grounding';
+import { resolveAoAuditMode } from '@/lib/ao-audit';
+import { createSeededRandom, resolveSeed } from '@/lib/seeded-random';
+import { validateMaterialFiles } from '@/lib/material-files';
+import { prepareTopicMaterial, readMaterialUpload } from '@/lib/topic-material';
+import { createEventStream, ProgressEmitter, wantsEventStream } from '@/lib/event-stream';
+import { DEFAULT_QUESTIONS_PER_TOPIC } from '@/lib/retrieval-config';
+import { SavedQuiz } from '@/lib/types';
 
 export const runtime = 'nodejs';
 
 export async function POST(request: NextRequest) {
-  let uploadedKey: string | null = null;
+  let delivery: ImageDelivery | null = null;
+
+  // Log the failure, delete any uploaded images and describe the error for the client
+  const handleFailure = async (error: unknown) => {
+    console.error("❌ Mini quiz workflow failed:", error);
+
+    // Emergency cleanup - Delete uploaded files on error
+    if (delivery?.mode === 'storage') {
+      console.log("🚨 Emergency cleanup: Deleting uploaded files...");
+      await delivery.cleanup();
+    }
+
+    return {
+      error: error instanceof Error ? error.message : 'Failed to generate mini quiz',
+      validationErrors: error instanceof LLMValidationError ? error.errors : undefined,
+    };
+  };
   
   try {
     console.log("\n" + "=".repeat(80));
@@ -13,107 +41,173 @@ export async function POST(request: NextRequest) {
     console.log("=".repeat(80));
 
     const formData = await request.formData();
-    const file = formData.get('image') as File;
+    const upload = readMaterialUpload(formData, 'image', 'pageRange');
     const educationLevel = formData.get('educationLevel') as "GCSE" | "A-LEVEL" || "GCSE";
+    const libraryId = formData.get('libraryId') as string | null;
+    const seed = resolveSeed(formData.get('seed'));
+    const { questionType, mix, errors: questionTypeErrors } = parseQuestionTypeFields(
+      formData.get('questionType'),
+      formData.get('questionTypeMix'),
+      'SHORT_ANSWER'
+    );
+    const { optionCount, errors: optionCountErrors } = parseOptionCountField(formData.get('optionCount'));
     
     // Validate inputs
-    if (!file) {
+    const materialErrors = validateMaterialFiles(upload.files, 'Revision material');
+    if (materialErrors.length > 0) {
       return NextResponse.json(
-        { error: 'Exactly 1 image is required for mini quiz' },
+        { error: materialErrors.join('; ') },
         { status: 400 }
       );
     }
 
-    if (!file.type.startsWith('image/')) {
+    if (questionTypeErrors.length > 0) {
       return NextResponse.json(
-        { error: 'File must be an image' },
+        { error: questionTypeErrors.join('; ') },
         { status: 400 }
       );
     }
 
-    if (file.size > 10 * 1024 * 1024) { // 10MB limit
+    if (optionCountErrors.length > 0) {
       return NextResponse.json(
-        { error: 'Image is too large (>10MB)' },
+        { error: optionCountErrors.join('; ') },
         { status: 400 }
       );
     }
 
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      console.error("❌ API key not configured!");
+    const deliveryConfigError = getImageDeliveryConfigError();
+    if (deliveryConfigError) {
+      console.error(`❌ Image delivery not configured: ${deliveryConfigError}`);
+      return NextResponse.json(
+        { error: deliveryConfigError },
+        { status: 500 }
+      );
+    }
+
+    const llmConfigError = getLLMConfigError();
+    if (llmConfigError) {
+      console.error(`❌ LLM provider not configured: ${llmConfigError}`);
       return NextResponse.json(
-        { error: 'OpenAI API key not configured' },
+        { error: llmConfigError },
         { status: 500 }
       );
     }
 
-    console.log("✅ API key found");
+    const provider = getLLMProvider();
+    const groundingCheck = isGroundingCheckEnabled();
+    const aoAuditMode = resolveAoAuditMode();
+    const imageDelivery = createImageDelivery();
+    delivery = imageDelivery;
+    console.log(`✅ LLM provider ready: ${provider.name}`);
     console.log(`📚 Education level: ${educationLevel}`);
-    console.log(`📁 Processing image: ${file.name} (${(file.size / 1024 / 1024).toFixed(2)}MB)`);
+    console.log(`🧮 Question type: ${questionType}`);
+    console.log(`🔤 Options per question: ${optionCount}`);
+    console.log(`🌱 Shuffle seed: ${seed}`);
+    console.log(`📁 Processing ${upload.files.length} file(s): ${upload.files.map(file => `${file.name} (${(file.size / 1024 / 1024).toFixed(2)}MB)`).join(', ')}`);
 
-    // Step 1: Upload image to R2 (as-is, no compression)
-    console.log("🚀 Step 1: Uploading image to R2...");
-    
-    const buffer = Buffer.from(await file.arrayBuffer());
-    uploadedKey = await uploadToR2(buffer, file.name, file.type);
-    
-    console.log(`✅ Uploaded image: ${uploadedKey}`);
-    
-    // Generate signed URL for OpenAI access
-    const signedUrl = await getSignedR2Url(uploadedKey);
-    console.log(`🔗 Generated signed URL for image`);
+    // Steps 1-6 run the same whether the client streams progress or waits for the JSON
+    const generate = async (emit: ProgressEmitter) => {
+      // Step 1: Preprocess images and upload them to storage (or inline them); a PDF's pages are read on the server
+      console.log("🚀 Step 1: Preparing revision material...");
+      emit({ type: 'stage', stage: 'upload', message: 'Uploading the revision material' });
 
-    // Step 2: Generate mini quiz using R2 URL
-    console.log("🤖 Step 2: Generating mini quiz with AI...");
-    console.log(`🔗 Using signed URL: ${signedUrl.substring(0, 100)}...`);
+      let deliveredCount = 0;
+      const { material, hash } = await prepareTopicMaterial(upload, 'Revision material', async (buffer, file) => {
+        const url = await imageDelivery.deliver(buffer, file);
+        emit({ type: 'image-uploaded', index: deliveredCount++ });
+        return url;
+      });
+      const imageHashes = [hash];
+      console.log(`🔗 Prepared ${material.images.length} image(s)${material.text ? ' and PDF text' : ''}`);
+
+      // Step 2: Generate mini quiz using the delivered image URLs
+      console.log("🤖 Step 2: Generating mini quiz with AI...");
+      emit({ type: 'stage', stage: 'generate', message: 'Writing the mini quiz' });
     
-    const questions = await generateMiniQuiz(
-      apiKey,
-      signedUrl,
-      educationLevel
-    );
+      let questions = await generateMiniQuiz(
+        provider,
+        material,
+        educationLevel,
+        questionType,
+        mix,
+        createSeededRandom(seed),
+        optionCount
+      );
+
+      console.log("✅ Successfully generated mini quiz");
+      console.log(`📊 Total: ${questions.length} questions`);
 
-    console.log("✅ Successfully generated mini quiz");
-    console.log(`📊 Total: ${questions.length} questions`);
+      // Step 3: Check each question against the material (needs the images, so before cleanup)
+      if (groundingCheck) {
+        console.log("🔎 Step 3: Checking the questions against the source...");
+        emit({ type: 'stage', stage: 'verify', message: 'Checking the questions against the revision material' });
+        questions = await verifyQuestionGrounding(provider, material, questions);
+      }
 
-    // Step 3: Clean up - Delete image from R2 immediately
-    console.log("🧹 Step 3: Cleaning up temporary image...");
+      // Step 4: Clean up - Delete images from storage immediately (nothing to do when inlined)
+      console.log("🧹 Step 4: Cleaning up temporary images...");
+      emit({ type: 'stage', stage: 'cleanup', message: 'Deleting temporary images' });
     
-    try {
-      await deleteFromR2(uploadedKey);
-      console.log(`🗑️ Deleted image: ${uploadedKey}`);
-    } catch (error) {
-      console.error(`❌ Failed to delete ${uploadedKey}:`, error);
-    }
+      await imageDelivery.cleanup();
     
-    console.log("✅ Cleanup completed");
-    console.log("=".repeat(80) + "\n");
+      console.log("✅ Cleanup completed");
 
-    return NextResponse.json({ 
-      success: true,
-      questions,
-      message: `Successfully generated ${questions.length} questions and cleaned up temporary file`
-    });
+      // Step 5: Audit each question's AO level against its slot (question text only, so after cleanup)
+      if (aoAuditMode !== 'off') {
+        console.log("🎓 Step 5: Auditing AO levels...");
+        emit({ type: 'stage', stage: 'audit', message: "Checking each question's AO level" });
+        questions = await auditAoLevels(provider, questions, educationLevel, aoAuditMode);
+      }
 
-  } catch (error) {
-    console.error("❌ Mini quiz workflow failed:", error);
-    
-    // Emergency cleanup - Delete uploaded file on error
-    if (uploadedKey) {
-      console.log("🚨 Emergency cleanup: Deleting uploaded file...");
+      // Step 6: Save to the quiz library (a storage failure never loses the generated quiz)
+      emit({ type: 'stage', stage: 'save', message: 'Saving to the quiz library' });
+      let savedQuiz: SavedQuiz | null = null;
       try {
-        await deleteFromR2(uploadedKey);
-        console.log(`🧹 Emergency cleanup completed: ${uploadedKey}`);
-      } catch (cleanupError) {
-        console.error("❌ Emergency cleanup failed:", cleanupError);
+        savedQuiz = await saveGeneratedQuiz({
+          config: {
+            questionCount: DEFAULT_QUESTIONS_PER_TOPIC,
+            questionType,
+            questionTypeMix: mix,
+            optionCount,
+            educationLevel,
+            quizType: 'mini',
+          },
+          imageHashes,
+          questions,
+          seed
+        }, libraryId);
+        console.log(`💾 Saved to quiz library: ${savedQuiz.id} (version ${savedQuiz.versions.length})`);
+      } catch (error) {
+        console.error("❌ Failed to save quiz to library:", error);
       }
+
+      console.log("=".repeat(80) + "\n");
+
+      return {
+        success: true,
+        questions,
+        quizId: savedQuiz?.id,
+        quizVersion: savedQuiz?.versions.length,
+        seed,
+        message: `Successfully generated ${questions.length} questions and cleaned up temporary file`
+      };
+    };
+
+    if (wantsEventStream(request)) {
+      return createEventStream(async (send) => {
+        try {
+          send({ type: 'complete', result: await generate(send) });
+        } catch (error) {
+          send({ type: 'error', ...(await handleFailure(error)) });
+        }
+      });
     }
-    
+
+    return NextResponse.json(await generate(() => {}));
+
+  } catch (error) {
     return NextResponse.json(
-      { 
-        error: error instanceof Error ? error.message : 'Failed to generate mini quiz',
-        success: false 
-      },
+      { ...(await handleFailure(error)), success: false },
       { status: 500 }
     );
   }
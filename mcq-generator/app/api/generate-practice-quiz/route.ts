@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { generatePracticeQuiz, verifyQuestionGrounding } from '@/lib/openai';
+import { createImageDelivery, getImageDeliveryConfigError, ImageDelivery } from '@/lib/image-delivery';
+import { getLLMConfigError, getLLMProvider } from '@/lib/llm-provider';
+import { LLMValidationError } from '@/lib/llm-validation';
+import { isPracticeQuizType, PRACTICE_QUIZ_SPECS } from '@/lib/practice-quiz';
+import { saveGeneratedQuiz } from '@/lib/quiz-library';
+import { isGroundingCheckEnabled } from '@/lib/source-grounding';
+import { validateMaterialFiles } from '@/lib/material-files';
+import { prepareTopicMaterial, readMaterialUpload } from '@/lib/topic-material';
+import { createEventStream, ProgressEmitter, wantsEventStream } from '@/lib/event-stream';
+import { DEFAULT_QUESTIONS_PER_TOPIC } from '@/lib/retrieval-config';
+import { QuizConfig, SavedQuiz } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  let delivery: ImageDelivery | null = null;
+
+  // Log the failure, delete any uploaded images and describe the error for the client
+  const handleFailure = async (error: unknown) => {
+    console.error("❌ Practice quiz workflow failed:", error);
+
+    // Emergency cleanup - Delete uploaded files on error
+    if (delivery?.mode === 'storage') {
+      console.log("🚨 Emergency cleanup: Deleting uploaded files...");
+      await delivery.cleanup();
+    }
+
+    return {
+      error: error instanceof Error ? error.message : 'Failed to generate practice quiz',
+      validationErrors: error instanceof LLMValidationError ? error.errors : undefined,
+    };
+  };
+  
+  try {
+    console.log("\n" + "=".repeat(80));
+    console.log("🎯 PRACTICE QUIZ WORKFLOW: /api/generate-practice-quiz");
+    console.log("=".repeat(80));
+
+    const formData = await request.formData();
+    const upload = readMaterialUpload(formData, 'image', 'pageRange');
+    const educationLevel = formData.get('educationLevel') as "GCSE" | "A-LEVEL" || "GCSE";
+    const quizType = formData.get('quizType') as QuizConfig["quizType"];
+    const libraryId = formData.get('libraryId') as string | null;
+    
+    // Validate inputs
+    if (!quizType || !isPracticeQuizType(quizType)) {
+      return NextResponse.json(
+        { error: `quizType must be one of: ${Object.keys(PRACTICE_QUIZ_SPECS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const materialErrors = validateMaterialFiles(upload.files, 'Revision material');
+    if (materialErrors.length > 0) {
+      return NextResponse.json(
+        { error: materialErrors.join('; ') },
+        { status: 400 }
+      );
+    }
+
+    const deliveryConfigError = getImageDeliveryConfigError();
+    if (deliveryConfigError) {
+      console.error(`❌ Image delivery not configured: ${deliveryConfigError}`);
+      return NextResponse.json(
+        { error: deliveryConfigError },
+        { status: 500 }
+      );
+    }
+
+    const llmConfigError = getLLMConfigError();
+    if (llmConfigError) {
+      console.error(`❌ LLM provider not configured: ${llmConfigError}`);
+      return NextResponse.json(
+        { error: llmConfigError },
+        { status: 500 }
+      );
+    }
+
+    const provider = getLLMProvider();
+    const groundingCheck = isGroundingCheckEnabled();
+    const imageDelivery = createImageDelivery();
+    delivery = imageDelivery;
+    console.log(`✅ LLM provider ready: ${provider.name}`);
+    console.log(`📚 Education level: ${educationLevel}`);
+    console.log(`📝 Quiz type: ${quizType}`);
+    console.log(`📁 Processing ${upload.files.length} file(s): ${upload.files.map(file => `${file.name} (${(file.size / 1024 / 1024).toFixed(2)}MB)`).join(', ')}`);
+
+    // Steps 1-5 run the same whether the client streams progress or waits for the JSON
+    const generate = async (emit: ProgressEmitter) => {
+      // Step 1: Preprocess images and upload them to storage (or inline them); a PDF's pages are read on the server
+      console.log("🚀 Step 1: Preparing revision material...");
+      emit({ type: 'stage', stage: 'upload', message: 'Uploading the revision material' });
+
+      let deliveredCount = 0;
+      const { material, hash } = await prepareTopicMaterial(upload, 'Revision material', async (buffer, file) => {
+        const url = await imageDelivery.deliver(buffer, file);
+        emit({ type: 'image-uploaded', index: deliveredCount++ });
+        return url;
+      });
+      const imageHashes = [hash];
+      console.log(`🔗 Prepared ${material.images.length} image(s)${material.text ? ' and PDF text' : ''}`);
+
+      // Step 2: Generate practice quiz using the delivered image URLs
+      console.log("🤖 Step 2: Generating practice quiz with AI...");
+      emit({ type: 'stage', stage: 'generate', message: `Writing the ${PRACTICE_QUIZ_SPECS[quizType].title}` });
+    
+      let questions = await generatePracticeQuiz(
+        provider,
+        material,
+        educationLevel,
+        quizType
+      );
+
+      console.log("✅ Successfully generated practice quiz");
+      console.log(`📊 Total: ${questions.length} questions`);
+
+      // Step 3: Check each question against the material (needs the images, so before cleanup)
+      if (groundingCheck) {
+        console.log("🔎 Step 3: Checking the questions against the source...");
+        emit({ type: 'stage', stage: 'verify', message: 'Checking the questions against the revision material' });
+        questions = await verifyQuestionGrounding(provider, material, questions);
+      }
+
+      // Step 4: Clean up - Delete images from storage immediately (nothing to do when inlined)
+      console.log("🧹 Step 4: Cleaning up temporary images...");
+      emit({ type: 'stage', stage: 'cleanup', message: 'Deleting temporary images' });
+    
+      await imageDelivery.cleanup();
+    
+      console.log("✅ Cleanup completed");
+
+      // Step 5: Save to the quiz library (a storage failure never loses the generated quiz)
+      emit({ type: 'stage', stage: 'save', message: 'Saving to the quiz library' });
+      let savedQuiz: SavedQuiz | null = null;
+      try {
+        savedQuiz = await saveGeneratedQuiz({
+          config: {
+            questionCount: DEFAULT_QUESTIONS_PER_TOPIC,
+            questionType: PRACTICE_QUIZ_SPECS[quizType].questionType,
+            educationLevel,
+            quizType,
+          },
+          imageHashes,
+          questions
+        }, libraryId);
+        console.log(`💾 Saved to quiz library: ${savedQuiz.id} (version ${savedQuiz.versions.length})`);
+      } catch (error) {
+        console.error("❌ Failed to save quiz to library:", error);
+      }
+
+      console.log("=".repeat(80) + "\n");
+
+      return {
+        success: true,
+        questions,
+        quizId: savedQuiz?.id,
+        quizVersion: savedQuiz?.versions.length,
+        message: `Successfully generated ${questions.length} questions and cleaned up temporary file`
+      };
+    };
+
+    if (wantsEventStream(request)) {
+      return createEventStream(async (send) => {
+        try {
+          send({ type: 'complete', result: await generate(send) });
+        } catch (error) {
+          send({ type: 'error', ...(await handleFailure(error)) });
+        }
+      });
+    }
+
+    return NextResponse.json(await generate(() => {}));
+
+  } catch (error) {
+    return NextResponse.json(
+      { ...(await handleFailure(error)), success: false },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
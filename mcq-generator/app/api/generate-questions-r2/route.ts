@@ -1,11 +1,47 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generateAndShuffleRetrievalQuiz } from '@/lib/openai';
-import { uploadToR2, deleteFromR2, getSignedR2Url } from '@/lib/r2-client';
+import { auditAoLevels, generateAndShuffleRetrievalQuiz, verifyQuestionGrounding } from '@/lib/openai';
+import { createImageDelivery, getImageDeliveryConfigError, ImageDelivery } from '@/lib/image-delivery';
+import { getLLMConfigError, getLLMProvider } from '@/lib/llm-provider';
+import { LLMValidationError } from '@/lib/llm-validation';
+import {
+  buildDefaultRetrievalTopics,
+  DEFAULT_QUESTIONS_PER_TOPIC,
+  RETRIEVAL_LIMITS,
+  validateRetrievalShape
+} from '@/lib/retrieval-config';
+import { parseOptionCountField, parseQuestionTypeFields } from '@/lib/question-types';
+import { saveGeneratedQuiz } from '@/lib/quiz-library';
+import { isGroundingCheckEnabled } from '@/lib/source-grounding';
+import { resolveAoAuditMode } from '@/lib/ao-audit';
+import { createSeededRandom, resolveSeed } from '@/lib/seeded-random';
+import { isQuestionOrderMode, orderQuestions, QUESTION_ORDER_MODES } from '@/lib/question-order';
+import { buildAnswerKey, enforceAnswerSequence } from '@/lib/answer-randomization';
+import { resolveDistractorAnalysisMode } from '@/lib/distractor-analysis';
+import { validateMaterialFiles } from '@/lib/material-files';
+import { prepareTopicMaterial, readRetrievalUploads } from '@/lib/topic-material';
+import { createEventStream, ProgressEmitter, wantsEventStream } from '@/lib/event-stream';
+import { RetrievalTopicConfig, SavedQuiz } from '@/lib/types';
 
 export const runtime = 'nodejs';
 
 export async function POST(request: NextRequest) {
-  const uploadedKeys: string[] = [];
+  let delivery: ImageDelivery | null = null;
+
+  // Log the failure, delete any uploaded images and describe the error for the client
+  const handleFailure = async (error: unknown) => {
+    console.error("❌ R2 workflow failed:", error);
+
+    // Emergency cleanup - Delete any uploaded files on error
+    if (delivery?.mode === 'storage') {
+      console.log("🚨 Emergency cleanup: Deleting uploaded files...");
+      await delivery.cleanup();
+    }
+
+    return {
+      error: error instanceof Error ? error.message : 'Failed to generate quiz',
+      validationErrors: error instanceof LLMValidationError ? error.errors : undefined,
+    };
+  };
   
   try {
     console.log("\n" + "=".repeat(80));
@@ -13,117 +49,269 @@ export async function POST(request: NextRequest) {
     console.log("=".repeat(80));
 
     const formData = await request.formData();
-    const files = formData.getAll('images') as File[];
+    const uploads = readRetrievalUploads(formData);
     const educationLevel = formData.get('educationLevel') as "GCSE" | "A-LEVEL" || "GCSE";
+    const questionsPerTopic = Number(formData.get('questionCount') || DEFAULT_QUESTIONS_PER_TOPIC);
+    const topicsField = formData.get('topics') as string | null;
+    const libraryId = formData.get('libraryId') as string | null;
+    const seed = resolveSeed(formData.get('seed'));
+    const questionOrder = (formData.get('questionOrder') as string | null) || 'keep';
+    const { questionType, mix, errors: questionTypeErrors } = parseQuestionTypeFields(
+      formData.get('questionType'),
+      formData.get('questionTypeMix'),
+      'MULTIPLE_CHOICE'
+    );
+    const { optionCount, errors: optionCountErrors } = parseOptionCountField(formData.get('optionCount'));
     
     // Validate inputs
-    if (!files || files.length !== 3) {
+    if (uploads.length < RETRIEVAL_LIMITS.minTopics || uploads.length > RETRIEVAL_LIMITS.maxTopics) {
+      return NextResponse.json(
+        { error: `Retrieval quiz requires ${RETRIEVAL_LIMITS.minTopics}–${RETRIEVAL_LIMITS.maxTopics} topics, each with its own images or PDF` },
+        { status: 400 }
+      );
+    }
+
+    let topics: RetrievalTopicConfig[];
+    try {
+      topics = topicsField
+        ? JSON.parse(topicsField)
+        : buildDefaultRetrievalTopics(uploads.length, questionsPerTopic);
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid topics configuration' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(topics) || topics.length !== uploads.length) {
+      return NextResponse.json(
+        { error: `Topic configuration must list exactly ${uploads.length} topics (one per uploaded topic)` },
+        { status: 400 }
+      );
+    }
+
+    const shape = { questionsPerTopic, topics, optionCount };
+    const shapeValidation = validateRetrievalShape(shape);
+    if (!shapeValidation.isValid) {
+      return NextResponse.json(
+        { error: shapeValidation.errors.join('; ') },
+        { status: 400 }
+      );
+    }
+
+    const materialErrors = uploads.flatMap((upload, index) => validateMaterialFiles(upload.files, topics[index].name));
+    if (materialErrors.length > 0) {
+      return NextResponse.json(
+        { error: materialErrors.join('; ') },
+        { status: 400 }
+      );
+    }
+
+    if (questionTypeErrors.length > 0) {
+      return NextResponse.json(
+        { error: questionTypeErrors.join('; ') },
+        { status: 400 }
+      );
+    }
+
+    if (optionCountErrors.length > 0) {
+      return NextResponse.json(
+        { error: optionCountErrors.join('; ') },
+        { status: 400 }
+      );
+    }
+
+    if (!isQuestionOrderMode(questionOrder)) {
       return NextResponse.json(
-        { error: 'Exactly 3 images are required for retrieval quiz' },
+        { error: `questionOrder must be one of: ${QUESTION_ORDER_MODES.join(', ')}` },
         { status: 400 }
       );
     }
 
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      console.error("❌ API key not configured!");
+    const deliveryConfigError = getImageDeliveryConfigError();
+    if (deliveryConfigError) {
+      console.error(`❌ Image delivery not configured: ${deliveryConfigError}`);
       return NextResponse.json(
-        { error: 'OpenAI API key not configured' },
+        { error: deliveryConfigError },
         { status: 500 }
       );
     }
 
-    console.log("✅ API key found");
+    const llmConfigError = getLLMConfigError();
+    if (llmConfigError) {
+      console.error(`❌ LLM provider not configured: ${llmConfigError}`);
+      return NextResponse.json(
+        { error: llmConfigError },
+        { status: 500 }
+      );
+    }
+
+    const provider = getLLMProvider();
+    const groundingCheck = isGroundingCheckEnabled();
+    const aoAuditMode = resolveAoAuditMode();
+    const distractorMode = resolveDistractorAnalysisMode();
+    const imageDelivery = createImageDelivery();
+    delivery = imageDelivery;
+    console.log(`✅ LLM provider ready: ${provider.name}`);
     console.log(`📚 Education level: ${educationLevel}`);
-    console.log(`📁 Processing ${files.length} images...`);
+    console.log(`🧩 Shape: ${topics.length} topics × ${questionsPerTopic} questions`);
+    console.log(`🧮 Question type: ${questionType}`);
+    console.log(`🔤 Options per question: ${optionCount}`);
+    console.log(`🧐 Distractor analysis: ${distractorMode}`);
+    console.log(`🌱 Shuffle seed: ${seed}`);
+    console.log(`🔀 Question order: ${questionOrder}`);
+    console.log(`📁 Processing ${uploads.map(upload => upload.files.length).join(' + ')} files...`);
+
+    // Steps 1-7 run the same whether the client streams progress or waits for the JSON
+    const generate = async (emit: ProgressEmitter) => {
+      // Step 1: Preprocess images and upload them to storage (or inline them); PDF pages are read on the server
+      console.log("🚀 Step 1: Preparing each topic's material...");
+      emit({ type: 'stage', stage: 'upload', message: `Uploading material for ${uploads.length} topics` });
+
+      let deliveredCount = 0;
+      const prepared = await Promise.all(uploads.map((upload, topicIndex) =>
+        prepareTopicMaterial(upload, topics[topicIndex].name, async (buffer, file) => {
+          const url = await imageDelivery.deliver(buffer, file);
+          console.log(`✅ Delivered ${topics[topicIndex].name} image: ${file.name}`);
+          emit({ type: 'image-uploaded', index: deliveredCount++ });
+          return url;
+        })
+      ));
 
-    // Step 1: Upload images to R2 (as-is, no compression)
-    console.log("🚀 Step 1: Uploading images to R2...");
+      const materials = prepared.map(topic => topic.material);
+      const imageHashes = prepared.map(topic => topic.hash);
+      console.log(`🎉 Prepared material for ${materials.length} topics (${deliveredCount} images ${imageDelivery.mode === 'inline' ? 'inlined' : 'uploaded to storage'})`);
+
+      // Step 2: Generate quiz using the delivered image URLs
+      console.log("🤖 Step 2: Generating quiz with AI...");
+      emit({ type: 'stage', stage: 'generate', message: `Writing questions for ${topics.length} topics` });
+      materials.forEach((material, index) => {
+        console.log(`   ${topics[index].name}: ${material.images.length} image(s)${material.text ? `, ${material.text.length} characters of PDF text` : ''}`);
+      });
     
-    const uploadPromises = files.map(async (file, index) => {
-      if (!file.type.startsWith('image/')) {
-        throw new Error(`File ${index + 1} is not an image`);
+      const result = await generateAndShuffleRetrievalQuiz(
+        provider,
+        materials,
+        educationLevel,
+        shape,
+        questionType,
+        mix,
+        // Topics are shown as they arrive, but Step 6 still sets their order and answer letters
+        (event) => emit(event.type === 'topic-done' ? { ...event, provisional: true } : event),
+        distractorMode,
+        seed
+      );
+
+      console.log("✅ Successfully generated and shuffled retrieval quiz");
+      console.log(`📊 Total: ${result.questions.length} questions`);
+      if (result.failedTopics.length > 0) {
+        console.warn(`⚠️ Failed topics: ${result.failedTopics.map(t => t.name).join(', ')} - returning the completed topics`);
       }
-      
-      if (file.size > 10 * 1024 * 1024) { // 10MB limit
-        throw new Error(`File ${index + 1} is too large (>10MB)`);
+      console.log(`🎲 Original answer key: ${result.originalAnswerKey.join('')}`);
+      console.log(`🎲 Shuffled answer key: ${result.shuffledAnswerKey.join('')}`);
+
+      // Step 3: Check each topic's questions against its own material (needs the images, so before cleanup)
+      let questions = result.questions;
+      if (groundingCheck && result.topics.length > 0) {
+        console.log("🔎 Step 3: Checking the questions against the source...");
+        emit({ type: 'stage', stage: 'verify', message: 'Checking the questions against the revision material' });
+        const grounded = await Promise.all(result.topics.map(topic =>
+          verifyQuestionGrounding(provider, materials[topic.index], topic.questions)
+        ));
+        questions = grounded.flat();
       }
-      
-      const buffer = Buffer.from(await file.arrayBuffer());
-      const key = await uploadToR2(buffer, file.name, file.type);
-      uploadedKeys.push(key);
-      
-      console.log(`✅ Uploaded image ${index + 1}: ${key} (${(file.size / 1024 / 1024).toFixed(2)}MB)`);
-      
-      // Generate signed URL for OpenAI access
-      const signedUrl = await getSignedR2Url(key);
-      console.log(`🔗 Generated signed URL for image ${index + 1}`);
-      
-      return signedUrl;
-    });
-    
-    const imageUrls = await Promise.all(uploadPromises);
-    console.log(`🎉 Successfully uploaded ${imageUrls.length} images to R2`);
-
-    // Step 2: Generate quiz using R2 URLs
-    console.log("🤖 Step 2: Generating quiz with AI...");
-    console.log("🔗 Using signed URLs:");
-    imageUrls.forEach((url, index) => {
-      console.log(`   Image ${index + 1}: ${url.substring(0, 100)}...`);
-    });
+
+      // Step 4: Clean up - Delete images from storage immediately (nothing to do when inlined)
+      console.log("🧹 Step 4: Cleaning up temporary images...");
+      emit({ type: 'stage', stage: 'cleanup', message: 'Deleting temporary images' });
     
-    const result = await generateAndShuffleRetrievalQuiz(
-      apiKey,
-      imageUrls as [string, string, string],
-      educationLevel
-    );
+      await imageDelivery.cleanup();
+      console.log("✅ Cleanup completed");
 
-    console.log("✅ Successfully generated and shuffled retrieval quiz");
-    console.log(`📊 Total: ${result.questions.length} questions`);
-    console.log(`🎲 Original answer key: ${result.originalAnswerKey.join('')}`);
-    console.log(`🎲 Shuffled answer key: ${result.shuffledAnswerKey.join('')}`);
+      // Step 5: Audit each question's AO level against its slot (question text only, so after cleanup)
+      if (aoAuditMode !== 'off') {
+        console.log("🎓 Step 5: Auditing AO levels...");
+        emit({ type: 'stage', stage: 'audit', message: "Checking each question's AO level" });
+        questions = await auditAoLevels(provider, questions, educationLevel, aoAuditMode);
+      }
 
-    // Step 3: Clean up - Delete images from R2 immediately
-    console.log("🧹 Step 3: Cleaning up temporary images...");
-    
-    const deletePromises = uploadedKeys.map(async (key, index) => {
+      // Step 6: Put the questions in the requested order, then place the correct answers on one
+      // balanced sequence across the whole quiz (topics were shuffled on their own as they arrived)
+      if (questionOrder !== 'keep') {
+        console.log(`🔀 Step 6: Ordering questions (${questionOrder})...`);
+        emit({ type: 'stage', stage: 'shuffle', message: questionOrder === 'interleave' ? 'Interleaving the topics' : 'Shuffling the question order' });
+        questions = orderQuestions(questions, questionOrder, createSeededRandom(`${seed}:order`));
+      }
+
+      console.log("🎲 Step 6: Placing the correct answers on a balanced sequence...");
+      emit({ type: 'stage', stage: 'shuffle', message: 'Balancing the answer key' });
+      const answerSequence = enforceAnswerSequence(questions, createSeededRandom(`${seed}:answers`));
+      questions = answerSequence.questions;
+      const shuffledAnswerKey = buildAnswerKey(questions);
+      console.log(`🎲 Final answer key: ${shuffledAnswerKey.join('')}`);
+      if (!answerSequence.isValid) {
+        console.warn(`⚠️ Answer sequence: ${answerSequence.errors.join('; ')}`);
+      }
+
+      // Step 7: Save to the quiz library (a storage failure never loses the generated quiz)
+      emit({ type: 'stage', stage: 'save', message: 'Saving to the quiz library' });
+      let savedQuiz: SavedQuiz | null = null;
       try {
-        await deleteFromR2(key);
-        console.log(`🗑️ Deleted image ${index + 1}: ${key}`);
+        savedQuiz = await saveGeneratedQuiz({
+          config: {
+            questionCount: questionsPerTopic,
+            retrievalTopics: topics,
+            questionType,
+            questionTypeMix: mix,
+            optionCount,
+            educationLevel,
+            quizType: 'retrieval',
+            questionOrder,
+          },
+          imageHashes,
+          questions,
+          originalAnswerKey: result.originalAnswerKey,
+          shuffledAnswerKey,
+          seed
+        }, libraryId);
+        console.log(`💾 Saved to quiz library: ${savedQuiz.id} (version ${savedQuiz.versions.length})`);
       } catch (error) {
-        console.error(`❌ Failed to delete ${key}:`, error);
+        console.error("❌ Failed to save quiz to library:", error);
       }
-    });
-    
-    await Promise.allSettled(deletePromises);
-    console.log("✅ Cleanup completed");
 
-    console.log("=".repeat(80) + "\n");
+      console.log("=".repeat(80) + "\n");
 
-    return NextResponse.json({ 
-      success: true,
-      questions: result.questions,
-      originalAnswerKey: result.originalAnswerKey,
-      shuffledAnswerKey: result.shuffledAnswerKey,
-      message: `Successfully generated ${result.questions.length} questions and cleaned up temporary files`
-    });
+      return {
+        success: true,
+        questions,
+        quizId: savedQuiz?.id,
+        quizVersion: savedQuiz?.versions.length,
+        originalAnswerKey: result.originalAnswerKey,
+        shuffledAnswerKey,
+        answerSequenceErrors: answerSequence.errors,
+        failedTopics: result.failedTopics,
+        seed,
+        message: result.failedTopics.length > 0
+          ? `Generated ${questions.length} questions; ${result.failedTopics.length} topic(s) failed and can be retried`
+          : `Successfully generated ${questions.length} questions and cleaned up temporary files`
+      };
+    };
 
-  } catch (error) {
-    console.error("❌ R2 workflow failed:", error);
-    
-    // Emergency cleanup - Delete any uploaded files on error
-    if (uploadedKeys.length > 0) {
-      console.log("🚨 Emergency cleanup: Deleting uploaded files...");
-      await Promise.allSettled(
-        uploadedKeys.map(key => deleteFromR2(key).catch(console.error))
-      );
+    if (wantsEventStream(request)) {
+      return createEventStream(async (send) => {
+        try {
+          send({ type: 'complete', result: await generate(send) });
+        } catch (error) {
+          send({ type: 'error', ...(await handleFailure(error)) });
+        }
+      });
     }
-    
+
+    return NextResponse.json(await generate(() => {}));
+
+  } catch (error) {
     return NextResponse.json(
-      { 
-        error: error instanceof Error ? error.message : 'Failed to generate quiz',
-        success: false 
-      },
+      { ...(await handleFailure(error)), success: false },
       { status: 500 }
     );
   }
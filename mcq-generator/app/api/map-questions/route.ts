@@ -1,6 +1,6 @@
 // ENHANCED VERSION - Based on Python mapping logic
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
+import { getLLMProvider } from '@/lib/llm-provider';
 
 
 const ALLOWED_ORIGINS = [
@@ -29,10 +29,6 @@ export async function OPTIONS(req: NextRequest) {
   });
 }
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
 // Types
 interface Question {
   question_id: string;
@@ -304,14 +300,19 @@ Return JSON with: question_id, primary_topic, topic_name, secondary_topic, reaso
   });
 
   // 6. GET STRUCTURED RESPONSE
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4o',
+  const content = await getLLMProvider().complete({
+    task: 'map-question',
     messages,
-    response_format: { type: 'json_object' },
-    temperature: 0
+    jsonMode: true,
+    temperature: 0,
+    variables: {
+      questionId,
+      topicCode: topics[0]?.Code ?? '',
+      topicName: topics[0]?.Name ?? ''
+    }
   });
 
-  const result = JSON.parse(completion.choices[0].message.content!) as QuestionMapping;
+  const result = JSON.parse(content) as QuestionMapping;
 
   // 7. VALIDATE AND NORMALIZE (Pydantic @model_validator equivalent)
   return validateQuestionMapping(result, questionId, topics);
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { preprocessImage, resolveImagePreprocessingConfig } from '@/lib/image-preprocessing';
+import { isPdfFile, MATERIAL_LIMITS } from '@/lib/material-files';
+
+export const runtime = 'nodejs';
+
+/**
+ * Preprocess one page image exactly as generation will and return it for the uploader's
+ * before/after preview. Responds with enabled: false when IMAGE_PREPROCESSING is off.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('image');
+
+    if (!(file instanceof File) || isPdfFile(file) || !file.type.startsWith('image/')) {
+      return NextResponse.json(
+        { error: 'Send one page image in the image field', success: false },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MATERIAL_LIMITS.maxFileSizeMB * 1024 * 1024) {
+      return NextResponse.json(
+        { error: `${file.name} is larger than ${MATERIAL_LIMITS.maxFileSizeMB}MB`, success: false },
+        { status: 400 }
+      );
+    }
+
+    const config = resolveImagePreprocessingConfig();
+    if (!config.enabled) {
+      return NextResponse.json({ success: true, enabled: false });
+    }
+
+    const image = await preprocessImage(Buffer.from(await file.arrayBuffer()), config);
+
+    return NextResponse.json({
+      success: true,
+      enabled: true,
+      image: `data:${image.contentType};base64,${image.buffer.toString('base64')}`,
+      report: image.report,
+    });
+  } catch (error) {
+    console.error('❌ Image preprocessing failed:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to preprocess image',
+        success: false
+      },
+      { status: 500 }
+    );
+  }
+}
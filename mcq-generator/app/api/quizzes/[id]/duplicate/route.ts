@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { duplicateQuiz } from '@/lib/quiz-library';
+
+export const runtime = 'nodejs';
+
+/**
+ * Copy a saved quiz's latest version into a new library entry
+ */
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  try {
+    const quiz = await duplicateQuiz(id);
+    if (!quiz) {
+      return NextResponse.json(
+        { error: `Quiz ${id} not found`, success: false },
+        { status: 404 }
+      );
+    }
+
+    console.log(`📄 Duplicated quiz ${id} as ${quiz.id}`);
+    return NextResponse.json({ success: true, quiz });
+  } catch (error) {
+    console.error("❌ Failed to duplicate quiz:", error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to duplicate quiz',
+        success: false
+      },
+      { status: 500 }
+    );
+  }
+}
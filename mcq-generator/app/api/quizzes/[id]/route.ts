@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteQuiz, getQuiz, renameQuiz } from '@/lib/quiz-library';
+
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function notFound(id: string) {
+  return NextResponse.json(
+    { error: `Quiz ${id} not found`, success: false },
+    { status: 404 }
+  );
+}
+
+function serverError(error: unknown, fallback: string) {
+  console.error(`❌ ${fallback}:`, error);
+  return NextResponse.json(
+    {
+      error: error instanceof Error ? error.message : fallback,
+      success: false
+    },
+    { status: 500 }
+  );
+}
+
+/**
+ * Load a saved quiz with every version, to reopen or re-export it
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const quiz = await getQuiz(id);
+    if (!quiz) return notFound(id);
+    return NextResponse.json({ success: true, quiz });
+  } catch (error) {
+    return serverError(error, 'Failed to load quiz');
+  }
+}
+
+/**
+ * Rename a saved quiz: body { title }
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const body = await request.json().catch(() => null);
+    const title = typeof body?.title === 'string' ? body.title.trim() : '';
+    if (!title) {
+      return NextResponse.json(
+        { error: 'Title must be a non-empty string', success: false },
+        { status: 400 }
+      );
+    }
+
+    const quiz = await renameQuiz(id, title.slice(0, 200));
+    if (!quiz) return notFound(id);
+    return NextResponse.json({ success: true, quiz });
+  } catch (error) {
+    return serverError(error, 'Failed to rename quiz');
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const deleted = await deleteQuiz(id);
+    if (!deleted) return notFound(id);
+    console.log(`🗑️ Deleted quiz from library: ${id}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return serverError(error, 'Failed to delete quiz');
+  }
+}
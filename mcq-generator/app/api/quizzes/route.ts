@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { listQuizzes } from '@/lib/quiz-library';
+
+export const runtime = 'nodejs';
+
+/**
+ * List saved quizzes (newest first) for the library page
+ */
+export async function GET() {
+  try {
+    const quizzes = await listQuizzes();
+    return NextResponse.json({ success: true, quizzes });
+  } catch (error) {
+    console.error("❌ Failed to list quiz library:", error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to load quiz library',
+        success: false
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,294 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  auditAoLevels,
+  regenerateRetrievalQuestion,
+  regenerateRetrievalTopic,
+  retryRetrievalTopic,
+  verifyQuestionGrounding
+} from '@/lib/openai';
+import { createImageDelivery, getImageDeliveryConfigError, ImageDelivery } from '@/lib/image-delivery';
+import { getLLMConfigError, getLLMProvider } from '@/lib/llm-provider';
+import { LLMValidationError } from '@/lib/llm-validation';
+import { buildAnswerKey, validateQuizAnswerSequence } from '@/lib/answer-randomization';
+import { parseOptionCountField, parseQuestionTypeFields } from '@/lib/question-types';
+import { getQuiz, saveGeneratedQuiz } from '@/lib/quiz-library';
+import { isGroundingCheckEnabled } from '@/lib/source-grounding';
+import { resolveAoAuditMode } from '@/lib/ao-audit';
+import { createSeededRandom, resolveSeed } from '@/lib/seeded-random';
+import { validateMaterialFiles } from '@/lib/material-files';
+import { prepareTopicMaterial, readMaterialUpload } from '@/lib/topic-material';
+import { DEFAULT_QUESTIONS_PER_TOPIC } from '@/lib/retrieval-config';
+import { isQuestionOrderMode, QUESTION_ORDER_MODES } from '@/lib/question-order';
+import { GeneratedQuestion, RetrievalTopicConfig, SavedQuiz } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+/**
+ * Regenerate one question (scope=question, index) or one topic (scope=topic, topic) of a
+ * retrieval quiz from that topic's images or PDF, or generate a topic that failed first time round
+ * (scope=failed-topic, topicIndex, insertAt), and return the merged quiz
+ */
+export async function POST(request: NextRequest) {
+  let delivery: ImageDelivery | null = null;
+
+  try {
+    console.log("\n" + "=".repeat(80));
+    console.log("🎯 RETRIEVAL REGENERATION: /api/regenerate-retrieval");
+    console.log("=".repeat(80));
+
+    const formData = await request.formData();
+    const upload = readMaterialUpload(formData, 'image', 'pageRange');
+    const scope = formData.get('scope') as string | null;
+    const educationLevel = formData.get('educationLevel') as "GCSE" | "A-LEVEL" || "GCSE";
+    const libraryId = formData.get('libraryId') as string | null;
+    const seed = resolveSeed(formData.get('seed'));
+    const index = Number(formData.get('index'));
+    const topicName = formData.get('topic') as string | null;
+    const topicIndex = Number(formData.get('topicIndex'));
+    const insertAt = Number(formData.get('insertAt'));
+    const questionsPerTopic = Number(formData.get('questionCount') || DEFAULT_QUESTIONS_PER_TOPIC);
+    const questionOrder = (formData.get('questionOrder') as string | null) || 'keep';
+    const { questionType, mix, errors: questionTypeErrors } = parseQuestionTypeFields(
+      formData.get('questionType'),
+      formData.get('questionTypeMix'),
+      'MULTIPLE_CHOICE'
+    );
+    const { optionCount, errors: optionCountErrors } = parseOptionCountField(formData.get('optionCount'));
+
+    let questions: GeneratedQuestion[];
+    let topicConfig: RetrievalTopicConfig | undefined;
+    try {
+      questions = JSON.parse(formData.get('questions') as string);
+      const topicConfigField = formData.get('topicConfig') as string | null;
+      topicConfig = topicConfigField ? JSON.parse(topicConfigField) : undefined;
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid questions or topic configuration' },
+        { status: 400 }
+      );
+    }
+
+    // Validate inputs
+    if (scope !== 'question' && scope !== 'topic' && scope !== 'failed-topic') {
+      return NextResponse.json(
+        { error: "scope must be 'question', 'topic' or 'failed-topic'" },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(questions) || questions.length === 0) {
+      return NextResponse.json(
+        { error: 'The current quiz questions are required' },
+        { status: 400 }
+      );
+    }
+
+    if (scope === 'question' && (!Number.isInteger(index) || index < 0 || index >= questions.length)) {
+      return NextResponse.json(
+        { error: `index must be a question position from 0 to ${questions.length - 1}` },
+        { status: 400 }
+      );
+    }
+
+    if (scope === 'topic' && !questions.some(q => q.topic === topicName)) {
+      return NextResponse.json(
+        { error: `Topic '${topicName}' is not in this quiz` },
+        { status: 400 }
+      );
+    }
+
+    if (scope === 'failed-topic' && (!topicConfig || !Number.isInteger(insertAt) || insertAt < 0 || insertAt > questions.length)) {
+      return NextResponse.json(
+        { error: `Retrying a failed topic needs its topicConfig and an insertAt position from 0 to ${questions.length}` },
+        { status: 400 }
+      );
+    }
+
+    if (!isQuestionOrderMode(questionOrder)) {
+      return NextResponse.json(
+        { error: `questionOrder must be one of: ${QUESTION_ORDER_MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (questionTypeErrors.length > 0) {
+      return NextResponse.json(
+        { error: questionTypeErrors.join('; ') },
+        { status: 400 }
+      );
+    }
+
+    if (optionCountErrors.length > 0) {
+      return NextResponse.json(
+        { error: optionCountErrors.join('; ') },
+        { status: 400 }
+      );
+    }
+
+    const materialErrors = validateMaterialFiles(upload.files, "The topic's material");
+    if (materialErrors.length > 0) {
+      return NextResponse.json(
+        { error: materialErrors.join('; ') },
+        { status: 400 }
+      );
+    }
+
+    const deliveryConfigError = getImageDeliveryConfigError();
+    if (deliveryConfigError) {
+      console.error(`❌ Image delivery not configured: ${deliveryConfigError}`);
+      return NextResponse.json(
+        { error: deliveryConfigError },
+        { status: 500 }
+      );
+    }
+
+    const llmConfigError = getLLMConfigError();
+    if (llmConfigError) {
+      console.error(`❌ LLM provider not configured: ${llmConfigError}`);
+      return NextResponse.json(
+        { error: llmConfigError },
+        { status: 500 }
+      );
+    }
+
+    const provider = getLLMProvider();
+    const groundingCheck = isGroundingCheckEnabled();
+    const aoAuditMode = resolveAoAuditMode();
+    const imageDelivery = createImageDelivery();
+    delivery = imageDelivery;
+    console.log(`✅ LLM provider ready: ${provider.name}`);
+    const target = scope === 'question'
+      ? `question ${index + 1}`
+      : scope === 'topic' ? `topic '${topicName}'` : `failed topic '${topicConfig?.name}'`;
+    console.log(`🎯 Scope: ${target}`);
+    console.log(`🌱 Shuffle seed: ${seed}`);
+
+    // Step 1: Preprocess the topic's images and upload or inline them (or read its PDF pages)
+    console.log("🚀 Step 1: Preparing the topic's material...");
+
+    const { material, hash } = await prepareTopicMaterial(upload, "The topic's material", (buffer, file) =>
+      imageDelivery.deliver(buffer, file)
+    );
+
+    // Step 2: Regenerate and merge back into the quiz
+    console.log("🤖 Step 2: Regenerating with AI...");
+
+    const random = createSeededRandom(seed);
+    let merged: GeneratedQuestion[];
+    let answerSequenceErrors: string[];
+    if (scope === 'question') {
+      const replacement = await regenerateRetrievalQuestion(provider, material, questions, index, educationLevel, random);
+      merged = questions.map((q, i) => (i === index ? replacement : q));
+      answerSequenceErrors = validateQuizAnswerSequence(merged).errors;
+    } else if (scope === 'failed-topic') {
+      ({ questions: merged, answerSequenceErrors } = await retryRetrievalTopic(
+        provider,
+        material,
+        questions,
+        insertAt,
+        educationLevel,
+        topicConfig as RetrievalTopicConfig,
+        questionsPerTopic,
+        questionType,
+        mix,
+        random,
+        optionCount,
+        questionOrder,
+        Number.isInteger(topicIndex) && topicIndex >= 0 ? topicIndex : undefined
+      ));
+    } else {
+      ({ questions: merged, answerSequenceErrors } = await regenerateRetrievalTopic(
+        provider,
+        material,
+        questions,
+        topicName as string,
+        educationLevel,
+        topicConfig,
+        random
+      ));
+    }
+
+    console.log(`🎲 Answer key: ${buildAnswerKey(merged).join('')}`);
+    if (answerSequenceErrors.length > 0) {
+      console.warn(`⚠️ Answer sequence: ${answerSequenceErrors.join('; ')}`);
+    }
+
+    // The untouched questions are the objects the client sent; only the new ones need checking
+    let regenerated = merged.filter(q => !questions.includes(q));
+    const replaceRegenerated = (checked: GeneratedQuestion[]) => {
+      merged = merged.map(q => {
+        const position = regenerated.indexOf(q);
+        return position === -1 ? q : checked[position];
+      });
+      regenerated = checked;
+    };
+
+    // Step 3: Check the new questions against the topic's material (the rest keep their verdicts)
+    if (groundingCheck) {
+      console.log("🔎 Step 3: Checking the new questions against the source...");
+      replaceRegenerated(await verifyQuestionGrounding(provider, material, regenerated));
+    }
+
+    // Step 4: Clean up - Delete images from storage immediately (nothing to do when inlined)
+    console.log("🧹 Step 4: Cleaning up temporary images...");
+
+    await imageDelivery.cleanup();
+
+    // Step 5: Audit the new questions' AO levels against their slots
+    if (aoAuditMode !== 'off') {
+      console.log("🎓 Step 5: Auditing AO levels...");
+      replaceRegenerated(await auditAoLevels(provider, regenerated, educationLevel, aoAuditMode));
+    }
+
+    // Step 6: Save as a new version of the library quiz it came from
+    let savedQuiz: SavedQuiz | null = null;
+    try {
+      const existing = libraryId ? await getQuiz(libraryId) : null;
+      if (existing) {
+        const imageHashes = [...existing.imageHashes];
+        // The client sends the topic's upload position; it is also the material hash's position
+        if (Number.isInteger(topicIndex) && topicIndex >= 0) imageHashes[topicIndex] = hash;
+
+        savedQuiz = await saveGeneratedQuiz({
+          config: existing.config,
+          imageHashes,
+          questions: merged,
+          shuffledAnswerKey: buildAnswerKey(merged),
+          seed
+        }, existing.id);
+        console.log(`💾 Saved to quiz library: ${savedQuiz.id} (version ${savedQuiz.versions.length})`);
+      }
+    } catch (error) {
+      console.error("❌ Failed to save quiz to library:", error);
+    }
+
+    console.log("=".repeat(80) + "\n");
+
+    return NextResponse.json({
+      success: true,
+      questions: merged,
+      answerSequenceErrors,
+      quizId: savedQuiz?.id,
+      quizVersion: savedQuiz?.versions.length,
+      seed,
+      message: `Regenerated ${target}`
+    });
+
+  } catch (error) {
+    console.error("❌ Regeneration failed:", error);
+
+    if (delivery?.mode === 'storage') {
+      console.log("🚨 Emergency cleanup: Deleting uploaded files...");
+      await delivery.cleanup();
+    }
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to regenerate',
+        validationErrors: error instanceof LLMValidationError ? error.errors : undefined,
+        success: false
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStorage, getStorageConfigError } from '@/lib/storage';
+import { MIN_TEMP_UPLOAD_TTL_SECONDS, sweepTemporaryUploads } from '@/lib/upload-sweeper';
+
+export const runtime = 'nodejs';
+
+/**
+ * Delete orphaned temp/ uploads older than the TTL and report them - meant for a cron job.
+ * Query: ?dryRun=1 to only report, ?ttlSeconds=<n> to override TEMP_UPLOAD_TTL_SECONDS.
+ * When SWEEP_UPLOADS_TOKEN is set, send it as `Authorization: Bearer <token>`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const token = process.env.SWEEP_UPLOADS_TOKEN;
+    if (token && request.headers.get('authorization') !== `Bearer ${token}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized', success: false },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = request.nextUrl;
+    const dryRun = ['1', 'true'].includes(searchParams.get('dryRun') ?? '');
+    const ttlField = searchParams.get('ttlSeconds');
+    const ttlSeconds = ttlField ? Number(ttlField) : undefined;
+
+    if (ttlSeconds !== undefined && !(ttlSeconds >= MIN_TEMP_UPLOAD_TTL_SECONDS)) {
+      return NextResponse.json(
+        { error: `ttlSeconds must be a number of at least ${MIN_TEMP_UPLOAD_TTL_SECONDS}`, success: false },
+        { status: 400 }
+      );
+    }
+
+    const storageConfigError = getStorageConfigError();
+    if (storageConfigError) {
+      return NextResponse.json(
+        { error: storageConfigError, success: false },
+        { status: 500 }
+      );
+    }
+
+    console.log(`🧹 Sweeping temporary uploads${dryRun ? ' (dry run)' : ''}...`);
+    const report = await sweepTemporaryUploads(getStorage(), { ttlSeconds, dryRun });
+    console.log(`🗑️ ${dryRun ? 'Would remove' : 'Removed'} ${report.removed.length} of ${report.scanned} temporary uploads (${report.failed.length} failed)`);
+
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error('❌ Upload sweep failed:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to sweep uploads',
+        success: false
+      },
+      { status: 500 }
+    );
+  }
+}
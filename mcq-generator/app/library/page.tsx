@@ -0,0 +1,246 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Copy, Download, FileText, FolderOpen, Pencil, Trash2 } from 'lucide-react';
+import { SavedQuiz, SavedQuizSummary } from '@/lib/types';
+import { generatePDF, generateAnswerKey, generateMarkSchemePDF } from '@/lib/pdf-utils';
+import { getQuizTypeTitle, isPracticeQuizType } from '@/lib/practice-quiz';
+
+export default function LibraryPage() {
+  const [quizzes, setQuizzes] = useState<SavedQuizSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [selectedVersions, setSelectedVersions] = useState<Record<string, number>>({});
+
+  const loadQuizzes = async () => {
+    try {
+      const response = await fetch('/api/quizzes');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load quiz library');
+      setQuizzes(data.quizzes);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadQuizzes();
+  }, []);
+
+  const fetchQuiz = async (id: string): Promise<SavedQuiz> => {
+    const response = await fetch(`/api/quizzes/${id}`);
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || 'Failed to load quiz');
+    return data.quiz;
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const handleExport = (summary: SavedQuizSummary, kind: 'quiz' | 'answers') => runAction(async () => {
+    const quiz = await fetchQuiz(summary.id);
+    const versionNumber = selectedVersions[summary.id] ?? quiz.versions.length;
+    const version = quiz.versions.find(v => v.version === versionNumber) ?? quiz.versions[quiz.versions.length - 1];
+    if (!version) throw new Error('This quiz has no saved versions');
+
+    const { quizType, educationLevel } = quiz.config;
+    if (kind === 'quiz') {
+      generatePDF(version.questions, `${educationLevel} ${quizType} Quiz`, quizType).save('quiz.pdf');
+    } else if (isPracticeQuizType(quizType)) {
+      generateMarkSchemePDF(version.questions, `${quiz.title} Mark Scheme`).save('mark-scheme.pdf');
+    } else {
+      generateAnswerKey(version.questions).save('answer-key.pdf');
+    }
+  });
+
+  const handleRename = (id: string) => runAction(async () => {
+    const response = await fetch(`/api/quizzes/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title: renameValue }),
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || 'Failed to rename quiz');
+    setRenamingId(null);
+    await loadQuizzes();
+  });
+
+  const handleDuplicate = (id: string) => runAction(async () => {
+    const response = await fetch(`/api/quizzes/${id}/duplicate`, { method: 'POST' });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || 'Failed to duplicate quiz');
+    await loadQuizzes();
+  });
+
+  const handleDelete = (summary: SavedQuizSummary) => runAction(async () => {
+    if (!window.confirm(`Delete "${summary.title}"? This cannot be undone.`)) return;
+    const response = await fetch(`/api/quizzes/${summary.id}`, { method: 'DELETE' });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || 'Failed to delete quiz');
+    await loadQuizzes();
+  });
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <header className="sticky top-0 z-50 bg-white shadow-md">
+        <div className="max-w-7xl mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-gradient-to-br from-blue-600 to-blue-700 rounded-lg flex items-center justify-center">
+                <span className="text-xl">📚</span>
+              </div>
+              <div>
+                <h1 className="text-xl font-bold text-gray-900">Quiz Library</h1>
+                <p className="text-xs text-slate-600">Every generated quiz, saved automatically</p>
+              </div>
+            </div>
+            <Link
+              href="/"
+              className="flex items-center gap-2 bg-gradient-to-r from-emerald-500 to-emerald-600 text-white px-6 py-3 rounded-lg font-semibold hover:from-emerald-600 hover:to-emerald-700 transition-all shadow-lg hover:shadow-xl"
+            >
+              🚀 New Quiz
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 py-8">
+        {error && (
+          <div className="mb-6 bg-red-50 border-l-4 border-red-500 rounded-lg p-5 shadow-sm">
+            <div className="flex items-start gap-3">
+              <span className="text-2xl flex-shrink-0">⚠️</span>
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          </div>
+        )}
+
+        {loading && (
+          <p className="text-center text-gray-500 py-12">Loading library...</p>
+        )}
+
+        {!loading && quizzes.length === 0 && (
+          <div className="bg-white rounded-xl shadow-lg p-12 border border-gray-200 text-center">
+            <span className="text-4xl">🗂️</span>
+            <p className="mt-4 text-gray-700 font-medium">No saved quizzes yet</p>
+            <p className="mt-2 text-sm text-gray-500">Generated quizzes appear here automatically.</p>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {quizzes.map((quiz) => (
+            <div key={quiz.id} className="bg-white rounded-xl shadow-sm hover:shadow-md transition-shadow duration-200 border border-gray-200 p-5">
+              <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  {renamingId === quiz.id ? (
+                    <form
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        handleRename(quiz.id);
+                      }}
+                      className="flex gap-2"
+                    >
+                      <input
+                        autoFocus
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        className="flex-1 px-3 py-2 border-2 border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-gray-900"
+                      />
+                      <button type="submit" className="px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700">
+                        Save
+                      </button>
+                      <button type="button" onClick={() => setRenamingId(null)} className="px-4 py-2 text-sm text-gray-600 rounded-lg hover:bg-gray-100">
+                        Cancel
+                      </button>
+                    </form>
+                  ) : (
+                    <h2 className="text-lg font-semibold text-gray-900 truncate">{quiz.title}</h2>
+                  )}
+                  <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+                    <span className="px-3 py-1 bg-indigo-50 border border-indigo-200 text-indigo-700 font-medium rounded-full">
+                      {getQuizTypeTitle(quiz.quizType)}
+                    </span>
+                    <span className="px-3 py-1 bg-gray-100 text-gray-700 font-medium rounded-full">{quiz.educationLevel}</span>
+                    <span className="text-gray-500">{quiz.questionCount} questions</span>
+                    <span className="text-gray-500">• Updated {new Date(quiz.updatedAt).toLocaleString()}</span>
+                    {quiz.versionCount > 1 && (
+                      <select
+                        value={selectedVersions[quiz.id] ?? quiz.versionCount}
+                        onChange={(e) => setSelectedVersions({ ...selectedVersions, [quiz.id]: Number(e.target.value) })}
+                        className="px-2 py-1 bg-white border border-gray-200 rounded-md text-gray-700"
+                      >
+                        {Array.from({ length: quiz.versionCount }, (_, i) => quiz.versionCount - i).map((version) => (
+                          <option key={version} value={version}>Version {version}</option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  <Link
+                    href={`/?quiz=${quiz.id}&version=${selectedVersions[quiz.id] ?? quiz.versionCount}`}
+                    className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-semibold rounded-lg hover:bg-blue-700 transition-all duration-150"
+                  >
+                    <FolderOpen className="w-4 h-4" />
+                    Open
+                  </Link>
+                  <button
+                    onClick={() => handleExport(quiz, 'quiz')}
+                    className="flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white text-sm font-semibold rounded-lg hover:bg-emerald-700 transition-all duration-150"
+                  >
+                    <Download className="w-4 h-4" />
+                    Quiz PDF
+                  </button>
+                  {quiz.quizType !== 'mini' && (
+                    <button
+                      onClick={() => handleExport(quiz, 'answers')}
+                      className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white text-sm font-semibold rounded-lg hover:bg-purple-700 transition-all duration-150"
+                    >
+                      <FileText className="w-4 h-4" />
+                      {quiz.quizType === 'retrieval' ? 'Answer Key' : 'Mark Scheme'}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => {
+                      setRenamingId(quiz.id);
+                      setRenameValue(quiz.title);
+                    }}
+                    title="Rename"
+                    className="p-2 text-gray-600 rounded-lg hover:bg-gray-100"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDuplicate(quiz.id)}
+                    title="Duplicate"
+                    className="p-2 text-gray-600 rounded-lg hover:bg-gray-100"
+                  >
+                    <Copy className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(quiz)}
+                    title="Delete"
+                    className="p-2 text-red-600 rounded-lg hover:bg-red-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </main>
+  );
+}
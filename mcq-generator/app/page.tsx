@@ -1,99 +1,299 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import ImageUploader from '@/components/ImageUploader';
 import QuestionTypeSelector from '@/components/QuestionTypeSelector';
 import QuestionDisplay from '@/components/QuestionDisplay';
 import LoadingSpinner from '@/components/LoadingSpinner';
-import { GeneratedQuestion, QuizConfig } from '@/lib/types';
-import { generatePDF, generateAnswerKey } from '@/lib/pdf-utils';
-import { Download, FileText } from 'lucide-react';
+import GenerationProgress from '@/components/GenerationProgress';
+import { GeneratedQuestion, GenerationResult, QuizConfig, RetrievalTopicFailure, SavedQuiz } from '@/lib/types';
+import { generatePDF, generateAnswerKey, generateMarkSchemePDF, generateVersionedAnswerKey } from '@/lib/pdf-utils';
+import { buildPaperVersions, MAX_PAPER_VERSIONS } from '@/lib/paper-versions';
+import { generateSeed } from '@/lib/seeded-random';
+import { buildDefaultRetrievalTopics, DEFAULT_QUESTIONS_PER_TOPIC } from '@/lib/retrieval-config';
+import { isPracticeQuizType, PRACTICE_QUIZ_SPECS } from '@/lib/practice-quiz';
+import { DEFAULT_OPTION_COUNT, DEFAULT_QUESTION_TYPE_MIX } from '@/lib/question-types';
+import { readEventStream } from '@/lib/event-stream';
+import { applyProgressEvent, createGenerationProgress, GenerationProgressState } from '@/lib/generation-progress';
+import { isPdfFile, MaterialUpload } from '@/lib/material-files';
+import { Download, Files, FileText, RefreshCw } from 'lucide-react';
 
 export default function Home() {
-  const [uploadedFiles, setUploadedFiles] = useState<File[] | File | null>(null);
+  // One entry per topic slot (a single slot for mini and practice quizzes)
+  const [materialUploads, setMaterialUploads] = useState<MaterialUpload[]>([]);
   const [config, setConfig] = useState<QuizConfig>({
-    questionCount: 10,
+    questionCount: DEFAULT_QUESTIONS_PER_TOPIC,
     questionType: 'MULTIPLE_CHOICE',
     educationLevel: 'GCSE',
     quizType: 'retrieval',
+    retrievalTopics: buildDefaultRetrievalTopics(3),
   });
   const [questions, setQuestions] = useState<GeneratedQuestion[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  // Quiz reopened from the library - generating again saves a new version of it
+  const [libraryQuiz, setLibraryQuiz] = useState<{ id: string; title: string; quizType: QuizConfig["quizType"]; version: number } | null>(null);
+  const [savedQuizId, setSavedQuizId] = useState<string | null>(null);
+  // Retrieval quizzes: which question index or topic name is being regenerated
+  const [regenerating, setRegenerating] = useState<{ index?: number; topic?: string; failedIndex?: number } | null>(null);
+  const [answerSequenceErrors, setAnswerSequenceErrors] = useState<string[]>([]);
+  // Retrieval topics that failed every attempt - the rest of the quiz is still shown
+  const [failedTopics, setFailedTopics] = useState<RetrievalTopicFailure[]>([]);
+  const [progress, setProgress] = useState<GenerationProgressState | null>(null);
+  // Retrieval quizzes: how many A/B/C... papers to print, and whether they also reorder questions
+  const [paperVersionCount, setPaperVersionCount] = useState(2);
+  const [shuffleQuestionOrder, setShuffleQuestionOrder] = useState(false);
+  // Shuffle seed of the quiz on screen - paper versions and regenerations reuse it
+  const [seed, setSeed] = useState<string | null>(null);
+
+  // Reopen a saved quiz: /?quiz=<id>&version=<n>
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const quizId = params.get('quiz');
+    if (!quizId) return;
+
+    fetch(`/api/quizzes/${quizId}`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load quiz');
+        const quiz: SavedQuiz = data.quiz;
+        const versionNumber = Number(params.get('version')) || quiz.versions.length;
+        const version = quiz.versions.find(v => v.version === versionNumber) ?? quiz.versions[quiz.versions.length - 1];
+
+        setConfig(quiz.config);
+        setQuestions(version?.questions ?? []);
+        setSeed(version?.seed ?? null);
+        setLibraryQuiz({ id: quiz.id, title: quiz.title, quizType: quiz.config.quizType, version: version?.version ?? 0 });
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load quiz'));
+  }, []);
 
   const isMultipleImages = config.quizType === 'retrieval';
+  const retrievalTopics = config.retrievalTopics ?? buildDefaultRetrievalTopics(3, config.questionCount);
+  const topicCount = retrievalTopics.length;
+  const practiceSpec = isPracticeQuizType(config.quizType) ? PRACTICE_QUIZ_SPECS[config.quizType] : null;
+  const singleImageTitle = practiceSpec ? practiceSpec.title : 'Mini Quiz';
+  const topicUploads = materialUploads.slice(0, isMultipleImages ? topicCount : 1);
+  const hasAllMaterial = topicUploads.length === (isMultipleImages ? topicCount : 1)
+    && topicUploads.every(upload => upload.files.length > 0);
 
-  const handleGenerate = async () => {
-    if (!uploadedFiles) {
-      setError(isMultipleImages ? 'Please upload 3 images (one for each topic)' : 'Please upload 1 image');
-      return;
+  // Add one topic's files (repeated) and PDF page range to a request
+  const appendMaterial = (formData: FormData, upload: MaterialUpload, filesField: string, pageRangeField: string) => {
+    upload.files.forEach(file => formData.append(filesField, file));
+    formData.append(pageRangeField, upload.pageRange);
+  };
+
+  const appendLibraryId = (formData: FormData) => {
+    if (libraryQuiz && libraryQuiz.quizType === config.quizType) {
+      formData.append('libraryId', libraryQuiz.id);
     }
+  };
 
-    const filesArray = Array.isArray(uploadedFiles) ? uploadedFiles : [uploadedFiles];
-    
-    if (isMultipleImages && filesArray.length !== 3) {
-      setError('Retrieval Quiz requires exactly 3 images (Topic A, B, C)');
-      return;
+  const appendQuestionType = (formData: FormData) => {
+    formData.append('questionType', config.questionType);
+    formData.append('optionCount', String(config.optionCount ?? DEFAULT_OPTION_COUNT));
+    if (config.questionType === 'MIXED') {
+      formData.append('questionTypeMix', JSON.stringify(config.questionTypeMix ?? DEFAULT_QUESTION_TYPE_MIX));
     }
+  };
 
-    if (!isMultipleImages && filesArray.length !== 1) {
-      setError('Mini Quiz requires exactly 1 image');
+  const handleSaved = (data: { quizId?: string; quizVersion?: number }) => {
+    setSavedQuizId(data.quizId ?? null);
+    if (data.quizId && libraryQuiz?.id === data.quizId && data.quizVersion) {
+      setLibraryQuiz({ ...libraryQuiz, version: data.quizVersion });
+    }
+  };
+
+  // POST a generation request and stream its progress into the loading panel
+  const postGeneration = async (url: string, formData: FormData, fallbackError: string) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      body: formData,
+      headers: { Accept: 'text/event-stream' },
+    });
+
+    // Invalid requests are rejected with plain JSON before any streaming starts
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || fallbackError);
+    }
+
+    return readEventStream<GenerationResult>(response, (event) =>
+      setProgress(current => current && applyProgressEvent(current, event))
+    );
+  };
+
+  const handleGenerate = async () => {
+    if (!hasAllMaterial) {
+      setError(isMultipleImages
+        ? `Retrieval Quiz needs images or a PDF for each of its ${topicCount} topics (${retrievalTopics.map(t => t.name).join(', ')})`
+        : `${singleImageTitle} needs images or a PDF of your study material`);
       return;
     }
 
+    const imageCount = topicUploads.flatMap(upload => upload.files).filter(file => !isPdfFile(file)).length;
+
     setLoading(true);
     setError('');
     setQuestions([]);
+    setSeed(null);
+    setProgress(createGenerationProgress(imageCount, isMultipleImages ? retrievalTopics.map(t => t.name) : []));
+    setSavedQuizId(null);
+    setAnswerSequenceErrors([]);
+    setFailedTopics([]);
 
     try {
       if (config.quizType === 'retrieval') {
-        // Use R2 workflow for retrieval quizzes (3 images)
+        // Use R2 workflow for retrieval quizzes (images or a PDF per topic)
         const formData = new FormData();
-        filesArray.forEach((file) => {
-          formData.append('images', file);
+        topicUploads.forEach((upload, index) => {
+          appendMaterial(formData, upload, `topic-${index}`, `pageRange-${index}`);
         });
         formData.append('educationLevel', config.educationLevel);
+        formData.append('questionCount', String(config.questionCount));
+        formData.append('topics', JSON.stringify(retrievalTopics));
+        formData.append('questionOrder', config.questionOrder ?? 'keep');
+        appendQuestionType(formData);
+        appendLibraryId(formData);
 
-        const response = await fetch('/api/generate-questions-r2', {
-          method: 'POST',
-          body: formData,
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.error || 'Failed to generate questions');
-        }
-
-        const data = await response.json();
+        const data = await postGeneration('/api/generate-questions-r2', formData, 'Failed to generate questions');
         setQuestions(data.questions);
+        setSeed(data.seed ?? null);
+        setAnswerSequenceErrors(data.answerSequenceErrors ?? []);
+        setFailedTopics(data.failedTopics ?? []);
+        handleSaved(data);
       } else if (config.quizType === 'mini') {
-        // Use Mini Quiz workflow (1 image)
+        // Use Mini Quiz workflow (one topic's images or PDF)
         const formData = new FormData();
-        formData.append('image', filesArray[0]);
+        appendMaterial(formData, topicUploads[0], 'image', 'pageRange');
         formData.append('educationLevel', config.educationLevel);
+        appendQuestionType(formData);
+        appendLibraryId(formData);
 
-        const response = await fetch('/api/generate-mini-quiz', {
-          method: 'POST',
-          body: formData,
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.error || 'Failed to generate mini quiz');
-        }
+        const data = await postGeneration('/api/generate-mini-quiz', formData, 'Failed to generate mini quiz');
+        setQuestions(data.questions);
+        setSeed(data.seed ?? null);
+        handleSaved(data);
+      } else if (isPracticeQuizType(config.quizType)) {
+        // Assignment, Application Practice, Marks Per Point and Specific Technique (one topic's images or PDF)
+        const formData = new FormData();
+        appendMaterial(formData, topicUploads[0], 'image', 'pageRange');
+        formData.append('educationLevel', config.educationLevel);
+        formData.append('quizType', config.quizType);
+        appendLibraryId(formData);
 
-        const data = await response.json();
+        const data = await postGeneration('/api/generate-practice-quiz', formData, 'Failed to generate quiz');
         setQuestions(data.questions);
+        setSeed(data.seed ?? null);
+        handleSaved(data);
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
       setLoading(false);
+      setProgress(null);
+    }
+  };
+
+  // Upload slot of each topic shown, in order - topics that failed to generate are skipped
+  const completedTopicIndices = retrievalTopics
+    .map((_, index) => index)
+    .filter(index => !failedTopics.some(failure => failure.index === index));
+
+  // Questions record the upload they were written from; quizzes saved before that fall back to
+  // the order their topics first appear in
+  const imageIndexOfTopic = (topic?: string) =>
+    questions.find(q => q.topic === topic && q.topicIndex !== undefined)?.topicIndex
+      ?? completedTopicIndices[[...new Set(questions.map(q => q.topic))].indexOf(topic)]
+      ?? -1;
+
+  const withTopicIndices = (list: GeneratedQuestion[]) =>
+    list.map(q => (q.topicIndex !== undefined ? q : { ...q, topicIndex: imageIndexOfTopic(q.topic) }));
+
+  // Send one regeneration request with a topic's material and merge the returned quiz
+  const runRegeneration = async (
+    target: { index?: number; topic?: string; failedIndex?: number },
+    topicIndex: number,
+    fields: Record<string, string>
+  ) => {
+    const upload = topicUploads[topicIndex];
+
+    if (!hasAllMaterial || !upload) {
+      setError(`Upload the material for all ${topicCount} topics again (in the same order) to regenerate questions`);
+      return false;
+    }
+
+    setRegenerating(target);
+    setError('');
+
+    try {
+      const formData = new FormData();
+      appendMaterial(formData, upload, 'image', 'pageRange');
+      formData.append('topicIndex', String(topicIndex));
+      Object.entries(fields).forEach(([key, value]) => formData.append(key, value));
+      if (retrievalTopics[topicIndex]) formData.append('topicConfig', JSON.stringify(retrievalTopics[topicIndex]));
+      formData.append('questions', JSON.stringify(withTopicIndices(questions)));
+      formData.append('educationLevel', config.educationLevel);
+      if (seed) formData.append('seed', seed);
+      // Saved as a new version of the quiz it belongs to, whether just generated or reopened
+      const libraryId = savedQuizId ?? libraryQuiz?.id;
+      if (libraryId) formData.append('libraryId', libraryId);
+
+      const response = await fetch('/api/regenerate-retrieval', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to regenerate');
+      }
+
+      setQuestions(data.questions);
+      setSeed(data.seed ?? null);
+      setAnswerSequenceErrors(data.answerSequenceErrors ?? []);
+      handleSaved(data);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      return false;
+    } finally {
+      setRegenerating(null);
+    }
+  };
+
+  // Regenerate one retrieval question or topic from its topic's material and merge it back in
+  const handleRegenerate = (target: { index?: number; topic?: string }) => {
+    const topic = target.index !== undefined ? questions[target.index].topic : target.topic;
+    return runRegeneration(target, imageIndexOfTopic(topic), {
+      scope: target.index !== undefined ? 'question' : 'topic',
+      ...(target.index !== undefined && { index: String(target.index) }),
+      ...(topic && { topic }),
+    });
+  };
+
+  // Generate a topic that failed first time round, slotting it in after the topics before it
+  const handleRetryTopic = async (failure: RetrievalTopicFailure) => {
+    const insertAt = withTopicIndices(questions).filter(q => (q.topicIndex ?? -1) < failure.index).length;
+    const fields: Record<string, string> = {
+      scope: 'failed-topic',
+      insertAt: String(insertAt),
+      questionCount: String(config.questionCount),
+      questionType: config.questionType,
+      optionCount: String(config.optionCount ?? DEFAULT_OPTION_COUNT),
+      questionOrder: config.questionOrder ?? 'keep',
+    };
+    if (config.questionType === 'MIXED') {
+      fields.questionTypeMix = JSON.stringify(config.questionTypeMix ?? DEFAULT_QUESTION_TYPE_MIX);
+    }
+
+    if (await runRegeneration({ failedIndex: failure.index }, failure.index, fields)) {
+      setFailedTopics(failedTopics.filter(f => f.index !== failure.index));
     }
   };
 
   const handleDownloadPDF = () => {
-    const pdf = generatePDF(questions, `${config.educationLevel} ${config.quizType} Quiz`);
+    const pdf = generatePDF(questions, `${config.educationLevel} ${config.quizType} Quiz`, config.quizType);
     pdf.save('quiz.pdf');
   };
 
@@ -102,6 +302,26 @@ export default function Home() {
     pdf.save('answer-key.pdf');
   };
 
+  const handleDownloadVersions = () => {
+    // Quizzes without a recorded seed get one now, so downloading again gives the same papers
+    const versionSeed = seed ?? generateSeed();
+    setSeed(versionSeed);
+    const versions = buildPaperVersions(questions, paperVersionCount, {
+      shuffleQuestions: shuffleQuestionOrder,
+      seed: versionSeed,
+    });
+    versions.forEach(version => {
+      const pdf = generatePDF(version.questions, `${config.educationLevel} ${config.quizType} Quiz`, config.quizType, version.code);
+      pdf.save(`quiz-version-${version.code}.pdf`);
+    });
+    generateVersionedAnswerKey(versions).save('answer-key-all-versions.pdf');
+  };
+
+  const handleDownloadMarkScheme = () => {
+    const pdf = generateMarkSchemePDF(questions, `${practiceSpec?.title ?? 'Quiz'} Mark Scheme`);
+    pdf.save('mark-scheme.pdf');
+  };
+
   return (
     <main className="min-h-screen bg-gray-50">
       {/* Fixed Header */}
@@ -118,16 +338,25 @@ export default function Home() {
               </div>
             </div>
             
-            {/* Navigation to Topic Mapper */}
-            <a
-              href="/topic-mapper"
-              className="flex items-center gap-2 bg-gradient-to-r from-indigo-600 to-purple-600 text-white px-6 py-3 rounded-lg font-semibold hover:from-indigo-700 hover:to-purple-700 transition-all shadow-lg hover:shadow-xl transform hover:scale-105"
-            >
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
-              </svg>
-              AI Mapper
-            </a>
+            <div className="flex items-center gap-3">
+              <a
+                href="/library"
+                className="flex items-center gap-2 bg-white border-2 border-indigo-200 text-indigo-700 px-6 py-3 rounded-lg font-semibold hover:border-indigo-400 hover:bg-indigo-50 transition-all"
+              >
+                📚 Library
+              </a>
+
+              {/* Navigation to Topic Mapper */}
+              <a
+                href="/topic-mapper"
+                className="flex items-center gap-2 bg-gradient-to-r from-indigo-600 to-purple-600 text-white px-6 py-3 rounded-lg font-semibold hover:from-indigo-700 hover:to-purple-700 transition-all shadow-lg hover:shadow-xl transform hover:scale-105"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
+                </svg>
+                AI Mapper
+              </a>
+            </div>
           </div>
         </div>
       </header>
@@ -160,6 +389,25 @@ export default function Home() {
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 py-8">
+        {libraryQuiz && (
+          <div className="mb-6 bg-indigo-50 border border-indigo-200 rounded-xl p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <p className="text-sm text-indigo-900">
+              📂 Reopened <strong>{libraryQuiz.title}</strong> (version {libraryQuiz.version}).
+              Upload the source images and generate again to save a new version.
+            </p>
+            <button
+              onClick={() => {
+                setLibraryQuiz(null);
+                setQuestions([]);
+                setSeed(null);
+                window.history.replaceState(null, '', '/');
+              }}
+              className="text-sm font-semibold text-indigo-700 hover:text-indigo-900 whitespace-nowrap"
+            >
+              Start a new quiz instead
+            </button>
+          </div>
+        )}
 
         <div className="grid lg:grid-cols-[1fr_400px] gap-6">
           {/* Left Column - Image Upload (65%) */}
@@ -170,9 +418,10 @@ export default function Home() {
                 Upload Study Materials
               </h2>
               <ImageUploader 
-                onImageUpload={setUploadedFiles} 
+                onImageUpload={setMaterialUploads} 
                 multipleImages={isMultipleImages}
-                maxImages={isMultipleImages ? 3 : 1}
+                maxImages={isMultipleImages ? topicCount : 1}
+                topicLabels={retrievalTopics.map(topic => topic.name)}
               />
             </div>
             {isMultipleImages && (
@@ -182,9 +431,9 @@ export default function Home() {
                   <div>
                     <p className="font-bold mb-2">Retrieval Quiz Requirements:</p>
                     <div className="space-y-1 text-sm opacity-95">
-                      <p>• <strong>Topic A:</strong> Revised last week</p>
-                      <p>• <strong>Topic B:</strong> Revised 2-3 weeks ago</p>
-                      <p>• <strong>Topic C:</strong> Revised 4+ weeks ago</p>
+                      {retrievalTopics.map((topic) => (
+                        <p key={topic.name}>• <strong>{topic.name}:</strong> {topic.revisionLabel}</p>
+                      ))}
                     </div>
                   </div>
                 </div>
@@ -195,11 +444,22 @@ export default function Home() {
                 <div className="flex items-start gap-3">
                   <span className="text-2xl flex-shrink-0">📝</span>
                   <div>
-                    <p className="font-bold mb-2">Mini Quiz Requirements:</p>
+                    <p className="font-bold mb-2">{singleImageTitle} Requirements:</p>
                     <div className="space-y-1 text-sm opacity-95">
-                      <p>• Upload <strong>1 image</strong> of your study material</p>
-                      <p>• Complete questions to practice revised content</p>
-                      <p>• Self mark to assess how effective your revision was</p>
+                      <p>• Upload <strong>page images or a PDF</strong> of one topic&apos;s study material</p>
+                      {practiceSpec ? (
+                        <>
+                          {practiceSpec.sections.map((section) => (
+                            <p key={section.label}>• <strong>{section.label}:</strong> {section.count} questions ({section.minMarks}–{section.maxMarks} marks each)</p>
+                          ))}
+                          <p>• Download the mark scheme to self mark or peer mark</p>
+                        </>
+                      ) : (
+                        <>
+                          <p>• Complete questions to practice revised content</p>
+                          <p>• Self mark to assess how effective your revision was</p>
+                        </>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -219,7 +479,7 @@ export default function Home() {
             
             <button
               onClick={handleGenerate}
-              disabled={!uploadedFiles || loading}
+              disabled={!hasAllMaterial || loading}
               className="w-full px-6 py-4 bg-gradient-to-r from-emerald-500 to-emerald-600 text-white font-bold rounded-xl hover:from-emerald-600 hover:to-emerald-700 disabled:from-gray-300 disabled:to-gray-400 disabled:cursor-not-allowed transition-all duration-200 shadow-lg hover:shadow-xl hover:-translate-y-0.5 active:translate-y-0 text-lg"
             >
               {loading ? (
@@ -257,8 +517,11 @@ export default function Home() {
         {loading && (
           <div className="mt-8 bg-white rounded-xl shadow-xl p-12 border border-gray-200 text-center fade-in">
             <LoadingSpinner />
-            <p className="mt-4 text-gray-700 font-medium">Analyzing your content with AI...</p>
-            <p className="mt-2 text-sm text-gray-500">⏱️ This usually takes 10-15 seconds</p>
+            {progress ? (
+              <GenerationProgress progress={progress} />
+            ) : (
+              <p className="mt-4 text-gray-700 font-medium">Analyzing your content with AI...</p>
+            )}
           </div>
         )}
 
@@ -276,7 +539,12 @@ export default function Home() {
                     <h2 className="text-xl font-bold text-gray-900">
                       {questions.length} Questions Generated Successfully
                     </h2>
-                    <p className="text-sm text-gray-600">Your quiz is ready to download</p>
+                    <p className="text-sm text-gray-600">
+                      Your quiz is ready to download - edit, reorder or add questions below first
+                      {savedQuizId && (
+                        <> • <a href="/library" className="text-emerald-700 font-semibold hover:underline">Saved to library</a></>
+                      )}
+                    </p>
                   </div>
                 </div>
                 <div className="flex gap-3">
@@ -296,11 +564,109 @@ export default function Home() {
                       Download Answer Key
                     </button>
                   )}
+                  {practiceSpec && (
+                    <button
+                      onClick={handleDownloadMarkScheme}
+                      className="flex items-center gap-2 px-5 py-2.5 bg-purple-600 text-white font-semibold rounded-lg hover:bg-purple-700 transition-all duration-150 shadow-md hover:shadow-lg hover:-translate-y-0.5"
+                    >
+                      <FileText className="w-4 h-4" />
+                      Download Mark Scheme
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
             
-            <QuestionDisplay questions={questions} />
+            {config.quizType === 'retrieval' && (
+              <div className="flex flex-wrap items-center gap-3 mb-4">
+                <span className="text-sm font-medium text-gray-700">Paper versions:</span>
+                <select
+                  value={paperVersionCount}
+                  onChange={(e) => setPaperVersionCount(Number(e.target.value))}
+                  className="px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-sm text-gray-900"
+                >
+                  {Array.from({ length: MAX_PAPER_VERSIONS - 1 }, (_, i) => i + 2).map((count) => (
+                    <option key={count} value={count}>{count} (A-{String.fromCharCode(64 + count)})</option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={shuffleQuestionOrder}
+                    onChange={(e) => setShuffleQuestionOrder(e.target.checked)}
+                  />
+                  Shuffle question order within topics
+                </label>
+                <button
+                  onClick={handleDownloadVersions}
+                  className="flex items-center gap-2 px-3 py-1.5 bg-white border border-emerald-200 text-emerald-700 text-sm font-medium rounded-lg hover:bg-emerald-50 transition-all duration-150"
+                >
+                  <Files className="w-4 h-4" />
+                  Download Versions + Combined Key
+                </button>
+              </div>
+            )}
+
+            {config.quizType === 'retrieval' && (
+              <div className="flex flex-wrap items-center gap-2 mb-4">
+                <span className="text-sm font-medium text-gray-700">Regenerate a topic:</span>
+                {[...new Set(questions.map(q => q.topic))].map((topic) => (
+                  <button
+                    key={topic}
+                    onClick={() => handleRegenerate({ topic })}
+                    disabled={regenerating !== null}
+                    className="flex items-center gap-2 px-3 py-1.5 bg-white border border-indigo-200 text-indigo-700 text-sm font-medium rounded-lg hover:bg-indigo-50 disabled:opacity-50 transition-all duration-150"
+                  >
+                    <RefreshCw className={`w-4 h-4 ${regenerating?.topic === topic ? 'animate-spin' : ''}`} />
+                    {topic}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {failedTopics.length > 0 && (
+              <div className="mb-4 bg-red-50 border-l-4 border-red-500 rounded-lg p-4 text-sm text-red-700 space-y-3">
+                <p className="font-semibold">
+                  {failedTopics.length === 1 ? '1 topic' : `${failedTopics.length} topics`} could not be generated - the other topics are ready below.
+                </p>
+                {failedTopics.map((failure) => (
+                  <div key={failure.index} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                    <div>
+                      <p className="font-medium">{failure.name} (upload {failure.index + 1}, {failure.attempts} {failure.attempts === 1 ? 'attempt' : 'attempts'})</p>
+                      <p className="text-red-600">{failure.error}</p>
+                    </div>
+                    <button
+                      onClick={() => handleRetryTopic(failure)}
+                      disabled={regenerating !== null}
+                      className="flex items-center gap-2 px-3 py-1.5 bg-white border border-red-200 text-red-700 font-medium rounded-lg hover:bg-red-100 disabled:opacity-50 transition-all duration-150"
+                    >
+                      <RefreshCw className={`w-4 h-4 ${regenerating?.failedIndex === failure.index ? 'animate-spin' : ''}`} />
+                      Retry {failure.name}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {answerSequenceErrors.length > 0 && (
+              <div className="mb-4 bg-amber-50 border-l-4 border-amber-500 rounded-lg p-4 text-sm text-amber-800">
+                <p className="font-semibold">The combined answer sequence is uneven:</p>
+                <ul className="mt-1 list-disc list-inside">
+                  {answerSequenceErrors.map((message) => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <QuestionDisplay
+              questions={questions}
+              onChange={setQuestions}
+              onRegenerate={config.quizType === 'retrieval' ? (index) => handleRegenerate({ index }) : undefined}
+              regeneratingIndex={regenerating ? regenerating.index ?? null : null}
+              disabled={regenerating !== null}
+              optionCount={practiceSpec ? undefined : config.optionCount}
+            />
           </div>
         )}
       </div>
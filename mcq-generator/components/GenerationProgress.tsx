@@ -0,0 +1,63 @@
+'use client';
+
+import { CheckCircle2, Loader2, RefreshCw, XCircle } from 'lucide-react';
+import { GenerationProgressState, TopicProgress } from '@/lib/generation-progress';
+import QuestionDisplay from './QuestionDisplay';
+
+interface GenerationProgressProps {
+  progress: GenerationProgressState;
+}
+
+const TOPIC_STATUS_STYLES: Record<TopicProgress['status'], string> = {
+  waiting: 'bg-gray-50 border-gray-200 text-gray-600',
+  retrying: 'bg-amber-50 border-amber-200 text-amber-700',
+  done: 'bg-emerald-50 border-emerald-200 text-emerald-700',
+  failed: 'bg-red-50 border-red-200 text-red-700',
+};
+
+function TopicStatusIcon({ status }: { status: TopicProgress['status'] }) {
+  if (status === 'done') return <CheckCircle2 className="w-4 h-4" />;
+  if (status === 'failed') return <XCircle className="w-4 h-4" />;
+  if (status === 'retrying') return <RefreshCw className="w-4 h-4 animate-spin" />;
+  return <Loader2 className="w-4 h-4 animate-spin" />;
+}
+
+export default function GenerationProgress({ progress }: GenerationProgressProps) {
+  const finishedTopics = progress.topics.filter(topic => topic.questions);
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <p className="text-gray-700 font-medium">{progress.message}</p>
+        {progress.imageCount > 0 && (
+          <p className="mt-2 text-sm text-gray-500">
+            📤 {progress.imagesUploaded} of {progress.imageCount} {progress.imageCount === 1 ? 'image' : 'images'} uploaded
+          </p>
+        )}
+      </div>
+
+      {progress.topics.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-left">
+          {progress.topics.map((topic, index) => (
+            <div key={index} className={`rounded-lg border-2 px-4 py-3 ${TOPIC_STATUS_STYLES[topic.status]}`}>
+              <div className="flex items-center gap-2 font-semibold text-sm">
+                <TopicStatusIcon status={topic.status} />
+                {topic.name}
+              </div>
+              {topic.detail && <p className="mt-1 text-xs">{topic.detail}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {finishedTopics.map((topic) => (
+        <div key={topic.name} className="text-left">
+          <h3 className="text-sm font-semibold text-gray-700 mb-3">
+            {topic.name} - {topic.provisional ? 'preview (question order and answer letters are set when the quiz is finished)' : 'ready'}
+          </h3>
+          <QuestionDisplay questions={topic.questions ?? []} />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,366 +1,446 @@
 // ============================================================================
 // FILE: components/ImageUploader.tsx
-// UPDATED WITH IMAGE COMPRESSION
+// ONE UPLOAD SLOT PER TOPIC - SEVERAL PAGE IMAGES OR A PDF EACH
 // ============================================================================
 
 'use client';
 
 import { useState } from 'react';
-import { Upload, X, ChevronUp, ChevronDown } from 'lucide-react';
+import { Upload, X, ChevronUp, ChevronDown, ChevronLeft, ChevronRight, FileText, WandSparkles, TriangleAlert } from 'lucide-react';
+import { describeImagePreprocessing, isPdfFile, MATERIAL_LIMITS, MaterialUpload, validateMaterialFiles } from '@/lib/material-files';
+import { ReadabilityCheck } from '@/lib/readability';
+import { ImagePreprocessingReport } from '@/lib/types';
 
 interface ImageUploaderProps {
-  onImageUpload: (files: File[] | File) => void;
-  multipleImages?: boolean;
-  maxImages?: number;
+  onImageUpload: (uploads: MaterialUpload[]) => void;
+  multipleImages?: boolean; // One slot per topic instead of a single slot
+  maxImages?: number; // Number of topic slots
+  topicLabels?: string[]; // Slot headings, e.g. the configured topic names
 }
 
-export default function ImageUploader({ onImageUpload, multipleImages = false, maxImages = 3 }: ImageUploaderProps) {
-  const [previews, setPreviews] = useState<string[]>([]);
-  const [files, setFiles] = useState<File[]>([]);
-  const [isDragging, setIsDragging] = useState(false);
-  const [isProcessing, setIsProcessing] = useState(false);
-
-  // COMPRESSION DISABLED - Using original files
-  // const compressImage = async (file: File): Promise<File> => {
-  //   console.log('📦 Original file size:', (file.size / 1024 / 1024).toFixed(2), 'MB');
-  //   
-  //   const options = {
-  //     maxSizeMB: 0.8, // Target max 0.8MB per image
-  //     maxWidthOrHeight: 1920, // Max dimension
-  //     useWebWorker: true,
-  //     fileType: 'image/jpeg' as const, // Convert to JPEG for better compression
-  //   };
-  //   
-  //   try {
-  //     const compressedFile = await imageCompression(file, options);
-  //     console.log('✅ Compressed file size:', (compressedFile.size / 1024 / 1024).toFixed(2), 'MB');
-  //     console.log('📊 Compression ratio:', ((1 - compressedFile.size / file.size) * 100).toFixed(1), '% reduction');
-  //     return compressedFile;
-  //   } catch (error) {
-  //     console.error('❌ Compression error:', error);
-  //     throw new Error('Failed to compress image. Please try a different image.');
-  //   }
-  // };
-
-  const handleFiles = async (fileList: FileList) => {
-    const fileArray = Array.from(fileList);
-    
-    if (!multipleImages && fileArray.length > 0) {
-      await handleSingleFile(fileArray[0]);
-      return;
-    }
+// A slot's files with their preview URLs (null for a PDF, which has no thumbnail)
+interface UploadSlot {
+  files: File[];
+  previews: (string | null)[];
+  pageRange: string;
+}
 
-    const validFiles = fileArray.filter(file => file.type.startsWith('image/'));
-    
-    if (validFiles.length === 0) {
-      alert('Please upload image files');
-      return;
-    }
+const EMPTY_SLOT: UploadSlot = { files: [], previews: [], pageRange: '' };
 
-    if (previews.length + validFiles.length > maxImages) {
-      alert(`Maximum ${maxImages} images allowed`);
-      return;
-    }
+// A page image as the server will hand it to the model; null while it is being prepared
+type EnhancedPreview = { url: string; report: ImagePreprocessingReport } | null;
 
-    // Check individual file sizes
-    const oversizedFiles = validFiles.filter(file => file.size > 10 * 1024 * 1024);
-    if (oversizedFiles.length > 0) {
-      alert('Some images are too large (>10MB). Please choose smaller images.');
-      return;
-    }
+export default function ImageUploader({ onImageUpload, multipleImages = false, maxImages = 3, topicLabels }: ImageUploaderProps) {
+  const [slots, setSlots] = useState<UploadSlot[]>([]);
+  const [draggingSlot, setDraggingSlot] = useState<number | null>(null);
+  const [enhanced, setEnhanced] = useState<Map<File, EnhancedPreview>>(() => new Map());
+  const [showingOriginal, setShowingOriginal] = useState<Set<File>>(() => new Set());
+  const [readability, setReadability] = useState<Map<File, ReadabilityCheck | null>>(() => new Map()); // null while checking
+
+  const slotCount = multipleImages ? maxImages : 1;
+  const visibleSlots = Array.from({ length: slotCount }, (_, i) => slots[i] ?? EMPTY_SLOT);
+  const slotLabel = (index: number) =>
+    multipleImages ? topicLabels?.[index] ?? `Topic ${String.fromCharCode(65 + index)}` : 'Revision material';
 
-    setIsProcessing(true);
-    
+  // POST one page image to an API route and return its JSON
+  const postPageImage = async (url: string, file: File) => {
+    const formData = new FormData();
+    formData.append('image', file);
+    const response = await fetch(url, { method: 'POST', body: formData });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || `Request to ${url} failed`);
+    return data;
+  };
+
+  // Photos are not compressed here - the server straightens, crops and resizes them
+  // (lib/image-preprocessing.ts). Fetch its version of each page for the before/after preview.
+  const loadEnhancedPreview = async (file: File) => {
+    setEnhanced(current => new Map(current).set(file, null));
     try {
-      // Create preview URLs for display
-      const previewUrls = validFiles.map(file => URL.createObjectURL(file));
-      
-      // Log file sizes
-      const totalSize = validFiles.reduce((sum, file) => sum + file.size, 0);
-      console.log('📊 Total file size (original):', (totalSize / 1024 / 1024).toFixed(2), 'MB');
-      
-      const newPreviews = [...previews, ...previewUrls];
-      const newFiles = [...files, ...validFiles];
-      
-      setPreviews(newPreviews);
-      setFiles(newFiles);
-      onImageUpload(newFiles);
+      const data = await postPageImage('/api/preprocess-image', file);
+      setEnhanced(current => {
+        const next = new Map(current);
+        // Only keep the preview if the file wasn't removed meanwhile and preprocessing is on
+        if (next.has(file) && data.enabled) next.set(file, { url: data.image, report: data.report });
+        else next.delete(file);
+        return next;
+      });
     } catch (error) {
-      alert(error instanceof Error ? error.message : 'Failed to process images');
-    } finally {
-      setIsProcessing(false);
+      console.error(`❌ Could not preview ${file.name}:`, error);
+      setEnhanced(current => {
+        const next = new Map(current);
+        next.delete(file);
+        return next;
+      });
     }
   };
 
-  const handleSingleFile = async (file: File) => {
-    if (!file.type.startsWith('image/')) {
-      alert('Please upload an image file');
-      return;
+  // Have the model read the page now, so a hard-to-read photo can be replaced before generating
+  const loadReadabilityCheck = async (file: File) => {
+    setReadability(current => new Map(current).set(file, null));
+    try {
+      const data = await postPageImage('/api/check-readability', file);
+      setReadability(current => (current.has(file) ? new Map(current).set(file, data.readability) : current));
+    } catch (error) {
+      // The check is advisory - a failure never blocks generation
+      console.error(`❌ Could not check readability of ${file.name}:`, error);
+      setReadability(current => {
+        const next = new Map(current);
+        next.delete(file);
+        return next;
+      });
     }
+  };
+
+  const checkPages = (files: File[]) => {
+    files.filter(file => !isPdfFile(file)).forEach(file => {
+      loadEnhancedPreview(file);
+      loadReadabilityCheck(file);
+    });
+  };
+
+  const forgetPages = (files: File[]) => {
+    const without = <T,>(current: Map<File, T>) => {
+      const next = new Map(current);
+      files.forEach(file => next.delete(file));
+      return next;
+    };
+    setEnhanced(without);
+    setReadability(without);
+  };
 
-    if (file.size > 10 * 1024 * 1024) {
-      alert('Image is too large (>10MB). Please choose a smaller image.');
+  const toggleOriginal = (file: File) => {
+    setShowingOriginal(current => {
+      const next = new Set(current);
+      if (!next.delete(file)) next.add(file);
+      return next;
+    });
+  };
+
+  const updateSlots = (next: UploadSlot[]) => {
+    setSlots(next);
+    onImageUpload(next.map(slot => ({ files: slot.files, pageRange: slot.pageRange })));
+  };
+
+  const updateSlot = (index: number, slot: UploadSlot) => {
+    updateSlots(visibleSlots.map((current, i) => (i === index ? slot : current)));
+  };
+
+  const handleFiles = (slotIndex: number, fileList: FileList) => {
+    const slot = visibleSlots[slotIndex];
+    const added = Array.from(fileList);
+    if (added.length === 0) return;
+
+    const errors = validateMaterialFiles([...slot.files, ...added], slotLabel(slotIndex));
+    if (errors.length > 0) {
+      alert(errors.join('\n'));
       return;
     }
 
-    setIsProcessing(true);
+    // Log file sizes
+    const totalSize = added.reduce((sum, file) => sum + file.size, 0);
+    console.log(`📊 ${slotLabel(slotIndex)}: added ${added.length} file(s), ${(totalSize / 1024 / 1024).toFixed(2)} MB`);
 
-    try {
-      // Create preview URL for display
-      const previewUrl = URL.createObjectURL(file);
-      
-      // Log original file size
-      const sizeInMB = file.size / 1024 / 1024;
-      console.log('📊 Original file size:', sizeInMB.toFixed(2), 'MB');
-      
-      setPreviews([previewUrl]);
-      setFiles([file]);
-      onImageUpload(file);
-      setIsProcessing(false);
-    } catch (error) {
-      alert(error instanceof Error ? error.message : 'Failed to process image');
-      setIsProcessing(false);
-    }
+    updateSlot(slotIndex, {
+      ...slot,
+      files: [...slot.files, ...added],
+      previews: [...slot.previews, ...added.map(file => (isPdfFile(file) ? null : URL.createObjectURL(file)))],
+    });
+    checkPages(added);
   };
 
-  const handleDrop = (e: React.DragEvent) => {
+  const handleDrop = (slotIndex: number, e: React.DragEvent) => {
     e.preventDefault();
-    setIsDragging(false);
-    if (!isProcessing) {
-      handleFiles(e.dataTransfer.files);
-    }
+    setDraggingSlot(null);
+    handleFiles(slotIndex, e.dataTransfer.files);
   };
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && !isProcessing) {
-      handleFiles(e.target.files);
+  const handleChange = (slotIndex: number, e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      handleFiles(slotIndex, e.target.files);
     }
+    // Allow choosing the same file again after removing it
+    e.target.value = '';
   };
 
-  const removeImage = (index: number) => {
+  const removeFile = (slotIndex: number, fileIndex: number) => {
+    const slot = visibleSlots[slotIndex];
     // Revoke the object URL to prevent memory leaks
-    URL.revokeObjectURL(previews[index]);
-    
-    const newPreviews = previews.filter((_, i) => i !== index);
-    const newFiles = files.filter((_, i) => i !== index);
-    
-    setPreviews(newPreviews);
-    setFiles(newFiles);
-    onImageUpload(multipleImages ? newFiles : (newFiles[0] || (null as any)));
+    const preview = slot.previews[fileIndex];
+    if (preview) URL.revokeObjectURL(preview);
+    forgetPages([slot.files[fileIndex]]);
+
+    const files = slot.files.filter((_, i) => i !== fileIndex);
+    updateSlot(slotIndex, {
+      files,
+      previews: slot.previews.filter((_, i) => i !== fileIndex),
+      pageRange: files.length > 0 ? slot.pageRange : '',
+    });
   };
 
-  const clearAllImages = () => {
+  const clearAll = () => {
     // Revoke all object URLs
-    previews.forEach(url => URL.revokeObjectURL(url));
-    
-    setPreviews([]);
-    setFiles([]);
-    onImageUpload(multipleImages ? [] : (null as any));
+    visibleSlots.forEach(slot => slot.previews.forEach(url => url && URL.revokeObjectURL(url)));
+    forgetPages(visibleSlots.flatMap(slot => slot.files));
+    updateSlots(visibleSlots.map(() => EMPTY_SLOT));
+  };
+
+  // Swap a page image for a better photo of the same page, keeping its position
+  const replaceFile = (slotIndex: number, fileIndex: number, e: React.ChangeEvent<HTMLInputElement>) => {
+    const replacement = e.target.files?.[0];
+    e.target.value = '';
+    if (!replacement) return;
+
+    const slot = visibleSlots[slotIndex];
+    const files = slot.files.map((file, i) => (i === fileIndex ? replacement : file));
+    const errors = validateMaterialFiles(files, slotLabel(slotIndex));
+    if (errors.length > 0) {
+      alert(errors.join('\n'));
+      return;
+    }
+
+    const preview = slot.previews[fileIndex];
+    if (preview) URL.revokeObjectURL(preview);
+    forgetPages([slot.files[fileIndex]]);
+
+    updateSlot(slotIndex, {
+      ...slot,
+      files,
+      previews: slot.previews.map((url, i) => (i === fileIndex ? URL.createObjectURL(replacement) : url)),
+    });
+    checkPages([replacement]);
   };
 
-  const moveImageUp = (index: number) => {
-    if (index === 0) return; // Already at the top
-    const newPreviews = [...previews];
-    const newFiles = [...files];
-    
-    [newPreviews[index - 1], newPreviews[index]] = [newPreviews[index], newPreviews[index - 1]];
-    [newFiles[index - 1], newFiles[index]] = [newFiles[index], newFiles[index - 1]];
-    
-    setPreviews(newPreviews);
-    setFiles(newFiles);
-    onImageUpload(newFiles);
+  // Swap a topic's material with its neighbour, so topics can be reordered
+  const moveSlot = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= visibleSlots.length) return;
+    const next = [...visibleSlots];
+    [next[index], next[target]] = [next[target], next[index]];
+    updateSlots(next);
   };
 
-  const moveImageDown = (index: number) => {
-    if (index === previews.length - 1) return; // Already at the bottom
-    const newPreviews = [...previews];
-    const newFiles = [...files];
-    
-    [newPreviews[index], newPreviews[index + 1]] = [newPreviews[index + 1], newPreviews[index]];
-    [newFiles[index], newFiles[index + 1]] = [newFiles[index + 1], newFiles[index]];
-    
-    setPreviews(newPreviews);
-    setFiles(newFiles);
-    onImageUpload(newFiles);
+  // Move a page image earlier or later within its topic
+  const movePage = (slotIndex: number, fileIndex: number, direction: -1 | 1) => {
+    const slot = visibleSlots[slotIndex];
+    const target = fileIndex + direction;
+    if (target < 0 || target >= slot.files.length) return;
+    const files = [...slot.files];
+    const previews = [...slot.previews];
+    [files[fileIndex], files[target]] = [files[target], files[fileIndex]];
+    [previews[fileIndex], previews[target]] = [previews[target], previews[fileIndex]];
+    updateSlot(slotIndex, { ...slot, files, previews });
   };
 
+  const filledCount = visibleSlots.filter(slot => slot.files.length > 0).length;
+
   return (
-    <div className="w-full">
-      {previews.length === 0 ? (
-        <div
-          onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
-          onDragLeave={() => setIsDragging(false)}
-          onDrop={handleDrop}
-          className={`relative border-2 border-dashed rounded-xl p-8 text-center transition-all duration-200 ${
-            isDragging 
-              ? 'border-indigo-500 bg-indigo-50 scale-[1.02]' 
-              : 'border-gray-300 hover:border-indigo-400 hover:bg-gray-50'
-          } ${isProcessing ? 'opacity-50 cursor-wait' : ''}`}
-        >
-          <div className="flex flex-col items-center">
-            <div className={`p-4 rounded-full mb-4 transition-colors ${
-              isDragging ? 'bg-indigo-100' : 'bg-gray-100'
-            }`}>
-              {isProcessing ? (
-                <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
-              ) : (
-                <Upload className={`w-8 h-8 ${isDragging ? 'text-indigo-600' : 'text-gray-400'}`} />
-              )}
-            </div>
-            <h3 className="text-lg font-semibold text-gray-900 mb-1">
-              {isProcessing ? 'Processing images...' : multipleImages ? 'Upload Multiple Images' : 'Upload Image'}
-            </h3>
-            <p className="text-sm text-gray-600 mb-1">
-              {isProcessing ? 'Please wait...' : 'Drag and drop or click to browse'}
-            </p>
-            <p className="text-xs text-gray-500 mb-4">
-              Supports: JPG, PNG, WebP (max 10MB) • Original quality preserved
+    <div className="w-full space-y-4">
+      {filledCount > 0 && (
+        <div className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
+          <div className="flex items-center gap-2">
+            <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
+            <p className="text-sm font-medium text-gray-700">
+              {multipleImages ? `${filledCount} of ${slotCount} topics uploaded` : 'Revision material uploaded'}
             </p>
-            {multipleImages && !isProcessing && (
-              <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mb-4 max-w-md">
-                <p className="text-xs text-blue-800 font-medium">
-                  📚 Retrieval Quiz requires 3 images:
-                </p>
-                <p className="text-xs text-blue-700 mt-1">
-                  Topic A • Topic B • Topic C
-                </p>
-              </div>
-            )}
-            <input
-              type="file"
-              accept="image/*"
-              multiple={multipleImages}
-              onChange={handleChange}
-              className="hidden"
-              id="file-upload"
-              disabled={isProcessing}
-            />
-            <label
-              htmlFor="file-upload"
-              className={`px-6 py-2.5 bg-indigo-600 text-white text-sm font-medium rounded-lg cursor-pointer hover:bg-indigo-700 active:scale-95 transition-all duration-150 shadow-sm hover:shadow-md ${
-                isProcessing ? 'opacity-50 cursor-wait pointer-events-none' : ''
-              }`}
-            >
-              Choose {multipleImages ? 'Images' : 'Image'}
-            </label>
           </div>
+          <button
+            onClick={clearAll}
+            className="text-sm text-red-600 hover:text-red-700 font-medium transition-colors"
+          >
+            Clear All
+          </button>
         </div>
-      ) : (
-        <div className="space-y-4">
-          {multipleImages && (
-            <div className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
-              <div className="flex items-center gap-2">
-                <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-                <p className="text-sm font-medium text-gray-700">
-                  {previews.length} of {maxImages} images uploaded
-                </p>
-              </div>
-              <button
-                onClick={clearAllImages}
-                className="text-sm text-red-600 hover:text-red-700 font-medium transition-colors"
-                disabled={isProcessing}
-              >
-                Clear All
-              </button>
-            </div>
-          )}
-          {multipleImages && previews.length > 1 && (
-            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
-              <p className="text-xs text-amber-800 font-medium flex items-center gap-2">
-                <span>💡</span>
-                <span className="hidden sm:inline">Use the ↑↓ arrows to reorder topics if needed</span>
-                <span className="sm:hidden">Tap the ↑↓ arrows on images to reorder topics</span>
-              </p>
-            </div>
-          )}
-          <div className={`grid ${multipleImages ? 'grid-cols-1 sm:grid-cols-2 lg:grid-cols-3' : 'grid-cols-1'} gap-4`}>
-            {previews.map((preview, index) => (
-              <div key={index} className="group relative bg-white rounded-xl shadow-sm hover:shadow-md transition-shadow duration-200 overflow-hidden border border-gray-200">
-                {multipleImages && (
-                  <div className="absolute top-3 left-3 bg-indigo-600 text-white px-3 py-1 rounded-full text-xs font-bold z-10 shadow-lg">
-                    Topic {String.fromCharCode(65 + index)}
-                  </div>
-                )}
-                <div className="h-32 overflow-hidden bg-gray-100">
-                  <img 
-                    src={preview} 
-                    alt={`Preview ${index + 1}`} 
-                    className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-200" 
-                  />
-                </div>
-                
-                {/* Reorder buttons for multiple images */}
-                {multipleImages && previews.length > 1 && (
-                  <div className="absolute bottom-3 left-3 flex gap-1 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity duration-150">
+      )}
+
+      <p className="text-xs text-gray-500">
+        Each {multipleImages ? 'topic' : 'quiz'} takes up to {MATERIAL_LIMITS.maxImagesPerTopic} page images (JPG, PNG, WebP) or one PDF
+        (up to {MATERIAL_LIMITS.maxPdfPages} pages) • max {MATERIAL_LIMITS.maxFileSizeMB}MB per file
+      </p>
+
+      <div className={`grid ${multipleImages ? 'grid-cols-1 sm:grid-cols-2' : 'grid-cols-1'} gap-4`}>
+        {visibleSlots.map((slot, slotIndex) => {
+          const inputId = `file-upload-${slotIndex}`;
+          const hasPdf = slot.files.some(isPdfFile);
+          const canAddMore = !hasPdf && slot.files.length < MATERIAL_LIMITS.maxImagesPerTopic;
+
+          return (
+            <div
+              key={slotIndex}
+              onDragOver={(e) => { e.preventDefault(); setDraggingSlot(slotIndex); }}
+              onDragLeave={() => setDraggingSlot(null)}
+              onDrop={(e) => handleDrop(slotIndex, e)}
+              className={`rounded-xl border-2 p-4 transition-all duration-200 ${
+                draggingSlot === slotIndex
+                  ? 'border-indigo-500 bg-indigo-50'
+                  : slot.files.length > 0 ? 'border-gray-200 bg-white' : 'border-dashed border-gray-300 hover:border-indigo-400 hover:bg-gray-50'
+              }`}
+            >
+              <div className="flex items-center justify-between mb-3">
+                <span className="bg-indigo-600 text-white px-3 py-1 rounded-full text-xs font-bold shadow">
+                  {slotLabel(slotIndex)}
+                </span>
+                {multipleImages && slotCount > 1 && (
+                  <div className="flex gap-1">
                     <button
-                      onClick={() => moveImageUp(index)}
-                      disabled={index === 0 || isProcessing}
-                      className={`p-2 sm:p-1.5 rounded-full shadow-lg transition-all duration-150 touch-manipulation ${
-                        index === 0 
-                          ? 'bg-gray-300 text-gray-500 cursor-not-allowed' 
-                          : 'bg-white/90 backdrop-blur-sm text-indigo-600 hover:bg-indigo-600 hover:text-white active:scale-95'
-                      }`}
-                      title="Move up"
+                      onClick={() => moveSlot(slotIndex, -1)}
+                      disabled={slotIndex === 0}
+                      className="p-1.5 rounded-full text-indigo-600 hover:bg-indigo-600 hover:text-white disabled:text-gray-300 disabled:hover:bg-transparent transition-all duration-150"
+                      title="Move topic up"
                     >
-                      <ChevronUp className="w-5 h-5 sm:w-4 sm:h-4" />
+                      <ChevronUp className="w-4 h-4" />
                     </button>
                     <button
-                      onClick={() => moveImageDown(index)}
-                      disabled={index === previews.length - 1 || isProcessing}
-                      className={`p-2 sm:p-1.5 rounded-full shadow-lg transition-all duration-150 touch-manipulation ${
-                        index === previews.length - 1
-                          ? 'bg-gray-300 text-gray-500 cursor-not-allowed' 
-                          : 'bg-white/90 backdrop-blur-sm text-indigo-600 hover:bg-indigo-600 hover:text-white active:scale-95'
-                      }`}
-                      title="Move down"
+                      onClick={() => moveSlot(slotIndex, 1)}
+                      disabled={slotIndex === slotCount - 1}
+                      className="p-1.5 rounded-full text-indigo-600 hover:bg-indigo-600 hover:text-white disabled:text-gray-300 disabled:hover:bg-transparent transition-all duration-150"
+                      title="Move topic down"
                     >
-                      <ChevronDown className="w-5 h-5 sm:w-4 sm:h-4" />
+                      <ChevronDown className="w-4 h-4" />
                     </button>
                   </div>
                 )}
-                
-                <button
-                  onClick={() => removeImage(index)}
-                  className="absolute top-3 right-3 p-2 sm:p-1.5 bg-white/90 backdrop-blur-sm text-red-600 rounded-full hover:bg-red-600 hover:text-white transition-all duration-150 shadow-lg opacity-100 sm:opacity-0 sm:group-hover:opacity-100 touch-manipulation active:scale-95"
-                  title="Remove image"
-                  disabled={isProcessing}
-                >
-                  <X className="w-5 h-5 sm:w-4 sm:h-4" />
-                </button>
               </div>
-            ))}
-          </div>
-          {multipleImages && previews.length < maxImages && !isProcessing && (
-            <div className="text-center pt-2">
-              <input
-                type="file"
-                accept="image/*"
-                multiple
-                onChange={handleChange}
-                className="hidden"
-                id="file-upload-more"
-              />
-              <label
-                htmlFor="file-upload-more"
-                className="inline-flex items-center gap-2 px-5 py-2.5 bg-white border-2 border-dashed border-gray-300 text-gray-700 text-sm font-medium rounded-lg cursor-pointer hover:border-indigo-400 hover:bg-indigo-50 hover:text-indigo-700 transition-all duration-150"
-              >
-                <Upload className="w-4 h-4" />
-                Add More Images
-              </label>
-            </div>
-          )}
-          {isProcessing && (
-            <div className="text-center p-4 bg-blue-50 border border-blue-200 rounded-lg">
-              <p className="text-sm text-blue-800 font-medium">
-                📁 Processing images for upload...
-              </p>
-              <p className="text-xs text-blue-600 mt-1">
-                Converting to base64 format
-              </p>
+
+              {slot.files.length > 0 && (
+                <div className="grid grid-cols-3 gap-2 mb-3">
+                  {slot.files.map((file, fileIndex) => {
+                    const preview = slot.previews[fileIndex];
+                    const after = enhanced.get(file);
+                    const showAfter = !!after && !showingOriginal.has(file);
+                    const hardToRead = !!readability.get(file)?.warning;
+                    return (
+                      <div key={`${file.name}-${fileIndex}`} className={`group relative rounded-lg overflow-hidden border bg-gray-100 ${hardToRead ? 'border-amber-400 ring-2 ring-amber-300' : 'border-gray-200'} ${preview ? 'h-24' : 'col-span-3 p-3'}`}>
+                        {preview ? (
+                          <img src={showAfter ? after.url : preview} alt={`${slotLabel(slotIndex)} page ${fileIndex + 1}`} className="w-full h-full object-cover" />
+                        ) : (
+                          <div className="flex items-center gap-2 pr-8">
+                            <FileText className="w-5 h-5 text-indigo-600 flex-shrink-0" />
+                            <span className="text-sm text-gray-700 truncate">{file.name}</span>
+                          </div>
+                        )}
+                        {preview && slot.files.length > 1 && (
+                          <>
+                            <span className="absolute top-1 left-1 bg-white/90 text-gray-700 px-1.5 rounded text-xs font-semibold">{fileIndex + 1}</span>
+                            <div className="absolute bottom-1 left-1 flex gap-1 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity duration-150">
+                              <button
+                                onClick={() => movePage(slotIndex, fileIndex, -1)}
+                                disabled={fileIndex === 0}
+                                className="p-1 rounded-full bg-white/90 text-indigo-600 hover:bg-indigo-600 hover:text-white disabled:text-gray-300 shadow"
+                                title="Move page earlier"
+                              >
+                                <ChevronLeft className="w-3.5 h-3.5" />
+                              </button>
+                              <button
+                                onClick={() => movePage(slotIndex, fileIndex, 1)}
+                                disabled={fileIndex === slot.files.length - 1}
+                                className="p-1 rounded-full bg-white/90 text-indigo-600 hover:bg-indigo-600 hover:text-white disabled:text-gray-300 shadow"
+                                title="Move page later"
+                              >
+                                <ChevronRight className="w-3.5 h-3.5" />
+                              </button>
+                            </div>
+                          </>
+                        )}
+                        {preview && enhanced.has(file) && (
+                          <button
+                            onClick={() => after && toggleOriginal(file)}
+                            disabled={!after}
+                            className={`absolute bottom-1 right-1 flex items-center gap-1 px-1.5 py-0.5 rounded-full text-xs font-semibold shadow transition-all duration-150 ${
+                              after ? 'bg-white/90 text-indigo-600 hover:bg-indigo-600 hover:text-white' : 'bg-white/80 text-gray-500 animate-pulse'
+                            }`}
+                            title={after ? `${showAfter ? 'Enhanced' : 'Original'} - click to compare. ${describeImagePreprocessing(after.report)}` : 'Enhancing the photo...'}
+                          >
+                            <WandSparkles className="w-3 h-3" />
+                            {after ? (showAfter ? 'After' : 'Before') : '...'}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => removeFile(slotIndex, fileIndex)}
+                          className="absolute top-1 right-1 p-1 bg-white/90 text-red-600 rounded-full hover:bg-red-600 hover:text-white transition-all duration-150 shadow"
+                          title="Remove file"
+                        >
+                          <X className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {slot.files.some(file => readability.get(file) === null) && (
+                <p className="text-xs text-gray-500 mb-2 animate-pulse">Checking that the pages are readable...</p>
+              )}
+
+              {slot.files.map((file, fileIndex) => {
+                const warning = readability.get(file)?.warning;
+                if (!warning) return null;
+                const replaceId = `replace-${slotIndex}-${fileIndex}`;
+                return (
+                  <div key={`warning-${file.name}-${fileIndex}`} className="flex items-start gap-2 p-2 mb-2 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800">
+                    <TriangleAlert className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                    <p className="flex-1">
+                      {slot.files.length > 1 && <span className="font-semibold">Page {fileIndex + 1}: </span>}
+                      {warning}
+                    </p>
+                    <input
+                      type="file"
+                      accept="image/*"
+                      onChange={(e) => replaceFile(slotIndex, fileIndex, e)}
+                      className="hidden"
+                      id={replaceId}
+                    />
+                    <label
+                      htmlFor={replaceId}
+                      className="px-2 py-1 bg-white border border-amber-300 text-amber-800 font-medium rounded-md cursor-pointer hover:bg-amber-100 transition-colors flex-shrink-0"
+                    >
+                      Replace
+                    </label>
+                  </div>
+                );
+              })}
+
+              {hasPdf && (
+                <label className="block mb-1">
+                  <span className="text-xs font-medium text-gray-700">Pages to use</span>
+                  <input
+                    type="text"
+                    value={slot.pageRange}
+                    onChange={(e) => updateSlot(slotIndex, { ...slot, pageRange: e.target.value })}
+                    placeholder="All pages, or e.g. 3-5, 8"
+                    className="mt-1 w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                </label>
+              )}
+
+              {canAddMore && (
+                <div className="text-center">
+                  {slot.files.length === 0 && (
+                    <p className="text-sm text-gray-600 mb-3">Drag and drop page images or a PDF</p>
+                  )}
+                  <input
+                    type="file"
+                    accept="image/*,application/pdf"
+                    multiple
+                    onChange={(e) => handleChange(slotIndex, e)}
+                    className="hidden"
+                    id={inputId}
+                  />
+                  <label
+                    htmlFor={inputId}
+                    className={slot.files.length === 0
+                      ? 'inline-flex items-center gap-2 px-5 py-2 bg-indigo-600 text-white text-sm font-medium rounded-lg cursor-pointer hover:bg-indigo-700 active:scale-95 transition-all duration-150 shadow-sm'
+                      : 'inline-flex items-center gap-2 px-4 py-1.5 bg-white border-2 border-dashed border-gray-300 text-gray-700 text-xs font-medium rounded-lg cursor-pointer hover:border-indigo-400 hover:bg-indigo-50 hover:text-indigo-700 transition-all duration-150'}
+                  >
+                    <Upload className="w-4 h-4" />
+                    {slot.files.length === 0 ? 'Choose Files' : 'Add Pages'}
+                  </label>
+                </div>
+              )}
             </div>
-          )}
-        </div>
-      )}
+          );
+        })}
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,14 +1,55 @@
 'use client';
 
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, GraduationCap, Pencil, Plus, Quote, RefreshCw, Trash2, TriangleAlert, Wrench } from 'lucide-react';
 import { GeneratedQuestion } from '@/lib/types';
+import { deleteQuestion, dropStaleChecks, insertBlankQuestion, moveQuestion, optionCountNear } from '@/lib/question-editing';
+import { GROUNDING_BADGE_CLASSES, GROUNDING_LABELS } from '@/lib/source-grounding';
+import { DISTRACTOR_ISSUE_LABELS } from '@/lib/distractor-analysis';
+import { isAuditedAoLevel, summarizeAoAudit } from '@/lib/ao-audit';
+import { hasOptions, isCorrectOption, tickBoxesInstruction } from '@/lib/question-types';
+import QuestionEditForm from './QuestionEditForm';
 
 interface QuestionDisplayProps {
   questions: GeneratedQuestion[];
+  onChange?: (questions: GeneratedQuestion[]) => void; // Enables editing; exports use the edited set
+  onRegenerate?: (index: number) => void; // Enables asking the model for a replacement question
+  regeneratingIndex?: number | null;
+  disabled?: boolean; // Locks the controls while a regeneration is running
+  optionCount?: number; // The quiz's options per question; otherwise taken from the nearest question with options
 }
 
-export default function QuestionDisplay({ questions }: QuestionDisplayProps) {
+const iconButtonClass = 'p-1.5 text-gray-600 rounded-lg hover:bg-white disabled:opacity-30 disabled:hover:bg-transparent';
+
+export default function QuestionDisplay({ questions, onChange, onRegenerate, regeneratingIndex = null, disabled = false, optionCount }: QuestionDisplayProps) {
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+
+  const handleSave = (index: number, question: GeneratedQuestion) => {
+    onChange?.(questions.map((q, i) => (i === index ? dropStaleChecks(q, question) : q)));
+    setEditingIndex(null);
+  };
+
+  // Cancelling a question that was never filled in (just added) removes it again
+  const handleCancel = (index: number) => {
+    if (!questions[index].text) onChange?.(deleteQuestion(questions, index));
+    setEditingIndex(null);
+  };
+
+  const handleAdd = (index: number) => {
+    onChange?.(insertBlankQuestion(questions, index, optionCount ?? optionCountNear(questions, index)));
+    setEditingIndex(index + 1);
+  };
+
+  const aoAudit = summarizeAoAudit(questions);
+
   return (
     <div className="space-y-4">
+      {aoAudit.audited > 0 && (
+        <p className={`flex items-center gap-2 text-sm ${aoAudit.mismatched > 0 ? 'text-amber-800' : 'text-gray-600'}`}>
+          <GraduationCap className="w-4 h-4" />
+          AO audit: {aoAudit.audited - aoAudit.mismatched} of {aoAudit.audited} questions match their AO level
+        </p>
+      )}
       {questions.map((question, index) => (
         <div key={index} className="bg-white rounded-xl shadow-sm hover:shadow-md transition-shadow duration-200 border border-gray-200 overflow-hidden">
           <div className="bg-gradient-to-r from-indigo-50 to-blue-50 px-6 py-4 border-b border-gray-200">
@@ -22,6 +63,30 @@ export default function QuestionDisplay({ questions }: QuestionDisplayProps) {
                 </h3>
               </div>
               <div className="flex items-center gap-2">
+                {question.grounding && (
+                  <span
+                    title={`Source support: ${question.grounding.score}/100`}
+                    className={`px-3 py-1 border text-xs font-medium rounded-full ${GROUNDING_BADGE_CLASSES[question.grounding.support]}`}
+                  >
+                    {GROUNDING_LABELS[question.grounding.support]} · {question.grounding.score}
+                  </span>
+                )}
+                {isAuditedAoLevel(question.aoLevel) && (
+                  <span
+                    title={question.aoAudit?.mismatch ?? undefined}
+                    className={`flex items-center gap-1 px-3 py-1 border text-xs font-medium rounded-full ${
+                      question.aoAudit?.mismatch ? 'bg-amber-50 border-amber-200 text-amber-800' : 'bg-white border-gray-200 text-gray-700'
+                    }`}
+                  >
+                    {question.aoAudit?.mismatch && <TriangleAlert className="w-3 h-3" />}
+                    {question.aoLevel}
+                  </span>
+                )}
+                {question.section && (
+                  <span className="px-3 py-1 bg-emerald-50 border border-emerald-200 text-emerald-700 text-xs font-medium rounded-full">
+                    {question.section}
+                  </span>
+                )}
                 {question.type && (
                   <span className="px-3 py-1 bg-white border border-indigo-200 text-indigo-700 text-xs font-medium rounded-full">
                     {question.type.replace(/_/g, ' ')}
@@ -32,42 +97,172 @@ export default function QuestionDisplay({ questions }: QuestionDisplayProps) {
                     {question.maxMarks} {question.maxMarks === 1 ? 'mark' : 'marks'}
                   </span>
                 )}
+                {onChange && editingIndex === null && (
+                  <fieldset disabled={disabled} className="flex items-center gap-1 ml-2">
+                    <button
+                      onClick={() => onChange(moveQuestion(questions, index, index - 1))}
+                      disabled={index === 0}
+                      title="Move up"
+                      className={iconButtonClass}
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => onChange(moveQuestion(questions, index, index + 1))}
+                      disabled={index === questions.length - 1}
+                      title="Move down"
+                      className={iconButtonClass}
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => setEditingIndex(index)} title="Edit" className={iconButtonClass}>
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    {onRegenerate && (
+                      <button onClick={() => onRegenerate(index)} title="Regenerate with AI" className={iconButtonClass}>
+                        <RefreshCw className={`w-4 h-4 ${regeneratingIndex === index ? 'animate-spin' : ''}`} />
+                      </button>
+                    )}
+                    <button onClick={() => handleAdd(index)} title="Add question below" className={iconButtonClass}>
+                      <Plus className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => onChange(deleteQuestion(questions, index))}
+                      disabled={questions.length === 1}
+                      title="Delete"
+                      className="p-1.5 text-red-600 rounded-lg hover:bg-red-50 disabled:opacity-30 disabled:hover:bg-transparent"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </fieldset>
+                )}
               </div>
             </div>
           </div>
-          
-          <div className="p-6">
-            <p className="text-gray-800 leading-relaxed mb-4 text-base">{question.text}</p>
-            
-            {question.type === "MULTIPLE_CHOICE" && question.options && (
-              <div className="space-y-2.5">
-                {question.options.map((option, optIndex) => (
-                  <div
-                    key={optIndex}
-                    className="group relative p-4 rounded-lg border-2 bg-gray-50 border-gray-200 hover:border-blue-300 hover:bg-blue-50 transition-all duration-150"
-                  >
-                    <div className="flex items-start gap-3">
-                      <span className="flex-shrink-0 flex items-center justify-center w-6 h-6 rounded-full text-xs font-bold bg-gray-300 text-gray-700">
-                        {String.fromCharCode(65 + optIndex)}
-                      </span>
-                      <span className="flex-1 text-gray-800">{option}</span>
+
+          {editingIndex === index ? (
+            <QuestionEditForm
+              question={question}
+              optionCount={optionCount ?? optionCountNear(questions, index)}
+              onSave={(edited) => handleSave(index, edited)}
+              onCancel={() => handleCancel(index)}
+            />
+          ) : (
+            <div className="p-6">
+              <p className="text-gray-800 leading-relaxed mb-4 text-base">{question.text}</p>
+              
+              {question.type === "MULTI_SELECT" && (
+                <p className="text-sm font-medium text-gray-600 mb-2.5">
+                  {tickBoxesInstruction(question.correctAnswers?.length)}
+                </p>
+              )}
+
+              {hasOptions(question.type) && question.options && (
+                <div className="space-y-2.5">
+                  {question.options.map((option, optIndex) => (
+                    <div
+                      key={optIndex}
+                      className={`group relative p-4 rounded-lg border-2 transition-all duration-150 ${
+                        onChange && isCorrectOption(question, optIndex)
+                          ? 'bg-emerald-50 border-emerald-300'
+                          : 'bg-gray-50 border-gray-200 hover:border-blue-300 hover:bg-blue-50'
+                      }`}
+                    >
+                      <div className="flex items-start gap-3">
+                        <span className="flex-shrink-0 flex items-center justify-center w-6 h-6 rounded-full text-xs font-bold bg-gray-300 text-gray-700">
+                          {String.fromCharCode(65 + optIndex)}
+                        </span>
+                        <span className="flex-1 text-gray-800">{option}</span>
+                      </div>
                     </div>
-                  </div>
-                ))}
-              </div>
-            )}
-            
-            {question.type === "TRUE_FALSE" && (
-              <div className="grid grid-cols-2 gap-3">
-                <div className="p-4 rounded-lg border-2 text-center font-medium bg-gray-50 border-gray-200 hover:border-blue-300 hover:bg-blue-50 transition-all duration-150 text-gray-700">
-                  True
+                  ))}
                 </div>
-                <div className="p-4 rounded-lg border-2 text-center font-medium bg-gray-50 border-gray-200 hover:border-blue-300 hover:bg-blue-50 transition-all duration-150 text-gray-700">
-                  False
+              )}
+              
+              {question.type === "TRUE_FALSE" && (
+                <div className="grid grid-cols-2 gap-3">
+                  {[{ label: 'True', value: 1 }, { label: 'False', value: 0 }].map(({ label, value }) => (
+                    <div
+                      key={label}
+                      className={`p-4 rounded-lg border-2 text-center font-medium transition-all duration-150 text-gray-700 ${
+                        onChange && question.correctAnswer === value
+                          ? 'bg-emerald-50 border-emerald-300'
+                          : 'bg-gray-50 border-gray-200 hover:border-blue-300 hover:bg-blue-50'
+                      }`}
+                    >
+                      {label}
+                    </div>
+                  ))}
                 </div>
-              </div>
-            )}
-          </div>
+              )}
+
+              {(question.type === "SHORT_ANSWER" || question.type === "LONG_ANSWER") && (
+                <div className={`rounded-lg border-2 border-dashed border-gray-200 bg-gray-50 px-4 flex items-center text-sm text-gray-400 ${question.type === "LONG_ANSWER" ? 'h-28' : 'h-14'}`}>
+                  {question.type === "LONG_ANSWER" ? 'Extended written answer' : 'Short written answer'}
+                </div>
+              )}
+
+              {question.markPoints && question.markPoints.length > 0 && (
+                <ul className="mt-4 list-disc list-inside space-y-1 text-sm text-gray-600">
+                  {question.markPoints.map((point, pointIndex) => (
+                    <li key={pointIndex}>{point}</li>
+                  ))}
+                </ul>
+              )}
+
+              {question.aoAudit?.mismatch && (
+                <p className="mt-4 flex items-start gap-2 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+                  <GraduationCap className="w-4 h-4 mt-0.5 flex-shrink-0 text-amber-600" />
+                  <span>
+                    <span className="font-medium">Looks like {question.aoAudit.mismatch}.</span>{' '}
+                    {question.aoAudit.reason}{question.aoAudit.source === 'rules' && ' (command-word check)'}
+                  </span>
+                </p>
+              )}
+
+              {question.distractorWarnings && question.distractorWarnings.length > 0 && (
+                <ul className="mt-4 space-y-1.5 text-sm">
+                  {question.distractorWarnings.map((warning, warningIndex) => (
+                    <li
+                      key={warningIndex}
+                      className={`flex items-start gap-2 rounded-lg border px-3 py-2 ${
+                        warning.repaired ? 'bg-gray-50 border-gray-200 text-gray-600' : 'bg-amber-50 border-amber-200 text-amber-900'
+                      }`}
+                    >
+                      {warning.repaired
+                        ? <Wrench className="w-4 h-4 mt-0.5 flex-shrink-0 text-gray-400" />
+                        : <TriangleAlert className="w-4 h-4 mt-0.5 flex-shrink-0 text-amber-600" />}
+                      <span>
+                        <span className="font-medium">{DISTRACTOR_ISSUE_LABELS[warning.issue]}{warning.repaired && ' (options rewritten)'}:</span>{' '}
+                        {warning.message}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {question.grounding && (question.grounding.snippet || question.grounding.unsupportedClaims.length > 0) && (
+                <div className="mt-4 rounded-lg bg-gray-50 border border-gray-200 px-4 py-3 text-sm space-y-2">
+                  {question.grounding.snippet && (
+                    <p className="flex items-start gap-2 text-gray-600">
+                      <Quote className="w-4 h-4 mt-0.5 flex-shrink-0 text-gray-400" />
+                      <span className="italic">{question.grounding.snippet}</span>
+                    </p>
+                  )}
+                  {question.grounding.unsupportedClaims.length > 0 && (
+                    <div className="text-red-700">
+                      <p className="font-medium">Not found in the source:</p>
+                      <ul className="list-disc list-inside space-y-0.5">
+                        {question.grounding.unsupportedClaims.map((claim, claimIndex) => (
+                          <li key={claimIndex}>{claim}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
         </div>
       ))}
     </div>
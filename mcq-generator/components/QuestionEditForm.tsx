@@ -0,0 +1,257 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { GeneratedQuestion, QuestionType } from '@/lib/types';
+import { hasOptions, isCorrectOption, OPTION_COUNT_LIMITS, QUESTION_TYPES, QUESTION_TYPE_LABELS } from '@/lib/question-types';
+import { changeQuestionType } from '@/lib/question-editing';
+
+interface QuestionEditFormProps {
+  question: GeneratedQuestion;
+  optionCount?: number; // Options a question switched to a type with options starts with
+  onSave: (question: GeneratedQuestion) => void;
+  onCancel: () => void;
+}
+
+const AO_LEVELS = ['AO1', 'AO2', 'AO3'] as const;
+
+const inputClass = 'w-full px-3 py-2 border-2 border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-gray-900 text-sm';
+
+export default function QuestionEditForm({ question, optionCount, onSave, onCancel }: QuestionEditFormProps) {
+  const [draft, setDraft] = useState<GeneratedQuestion>(question);
+  const [error, setError] = useState('');
+
+  const update = (changes: Partial<GeneratedQuestion>) => setDraft({ ...draft, ...changes });
+
+  const isWritten = draft.type === 'SHORT_ANSWER' || draft.type === 'LONG_ANSWER';
+
+  const updateListItem = (key: 'options' | 'markPoints', index: number, value: string) => {
+    const list = [...(draft[key] ?? [])];
+    list[index] = value;
+    update({ [key]: list });
+  };
+
+  const removeOption = (index: number) => {
+    const options = (draft.options ?? []).filter((_, i) => i !== index);
+    const correct = draft.correctAnswer ?? 0;
+    if (draft.type === 'MULTI_SELECT') {
+      update({
+        options,
+        correctAnswers: (draft.correctAnswers ?? []).filter(i => i !== index).map(i => (i > index ? i - 1 : i)),
+      });
+      return;
+    }
+    update({
+      options,
+      correctAnswer: correct === index ? 0 : correct > index ? correct - 1 : correct,
+    });
+  };
+
+  // Multi-select: tick or untick one of the correct options
+  const toggleCorrectOption = (index: number) => {
+    const correct = draft.correctAnswers ?? [];
+    update({
+      correctAnswers: correct.includes(index)
+        ? correct.filter(i => i !== index)
+        : [...correct, index].sort((a, b) => a - b),
+    });
+  };
+
+  const handleSave = () => {
+    const options = draft.options?.map(option => option.trim());
+    const markPoints = draft.markPoints?.map(point => point.trim()).filter(Boolean);
+
+    if (!draft.text.trim()) {
+      setError('Question text is required');
+      return;
+    }
+    if (
+      hasOptions(draft.type) &&
+      (!options || options.length < OPTION_COUNT_LIMITS.min || options.length > OPTION_COUNT_LIMITS.max || options.some(option => !option))
+    ) {
+      setError(`Questions with options need ${OPTION_COUNT_LIMITS.min}-${OPTION_COUNT_LIMITS.max} options, none of them empty`);
+      return;
+    }
+    if (draft.type === 'MULTI_SELECT' && (draft.correctAnswers?.length ?? 0) < 2) {
+      setError('Tick at least two correct options');
+      return;
+    }
+    if (draft.maxMarks !== undefined && (!Number.isInteger(draft.maxMarks) || draft.maxMarks < 1)) {
+      setError('Marks must be a whole number of at least 1');
+      return;
+    }
+
+    onSave({
+      ...draft,
+      text: draft.text.trim(),
+      options,
+      markPoints: markPoints && markPoints.length > 0 ? markPoints : undefined,
+    });
+  };
+
+  return (
+    <div className="p-6 space-y-5 bg-indigo-50/40">
+      <div>
+        <label className="block text-sm font-semibold text-gray-700 mb-2">Question</label>
+        <textarea
+          value={draft.text}
+          onChange={(e) => update({ text: e.target.value })}
+          rows={3}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">Type</label>
+          <select
+            value={draft.type}
+            onChange={(e) => setDraft(changeQuestionType(draft, e.target.value as QuestionType, optionCount))}
+            className={inputClass}
+          >
+            {QUESTION_TYPES.map(type => (
+              <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">Marks</label>
+          <input
+            type="number"
+            min={1}
+            value={draft.maxMarks ?? ''}
+            onChange={(e) => update({ maxMarks: e.target.value === '' ? undefined : Number(e.target.value) })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">AO level</label>
+          <select
+            value={draft.aoLevel ?? ''}
+            onChange={(e) => update({ aoLevel: (e.target.value || undefined) as GeneratedQuestion['aoLevel'] })}
+            className={inputClass}
+          >
+            <option value="">None</option>
+            {AO_LEVELS.map(level => (
+              <option key={level} value={level}>{level}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {hasOptions(draft.type) && (
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            {draft.type === 'MULTI_SELECT' ? 'Options (tick the correct answers)' : 'Options (select the correct answer)'}
+          </label>
+          <div className="space-y-2">
+            {(draft.options ?? []).map((option, optIndex) => (
+              <div key={optIndex} className="flex items-center gap-3">
+                <input
+                  type={draft.type === 'MULTI_SELECT' ? 'checkbox' : 'radio'}
+                  name="correctAnswer"
+                  checked={isCorrectOption(draft, optIndex)}
+                  onChange={() => (draft.type === 'MULTI_SELECT'
+                    ? toggleCorrectOption(optIndex)
+                    : update({ correctAnswer: optIndex }))}
+                  className="w-4 h-4 text-indigo-600"
+                />
+                <span className="flex-shrink-0 flex items-center justify-center w-6 h-6 rounded-full text-xs font-bold bg-gray-300 text-gray-700">
+                  {String.fromCharCode(65 + optIndex)}
+                </span>
+                <input
+                  value={option}
+                  onChange={(e) => updateListItem('options', optIndex, e.target.value)}
+                  className={inputClass}
+                />
+                <button
+                  type="button"
+                  onClick={() => removeOption(optIndex)}
+                  disabled={(draft.options?.length ?? 0) <= OPTION_COUNT_LIMITS.min}
+                  title="Remove option"
+                  className="p-2 text-gray-500 rounded-lg hover:bg-gray-100 disabled:opacity-30"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          {(draft.options?.length ?? 0) < OPTION_COUNT_LIMITS.max && (
+            <button
+              type="button"
+              onClick={() => update({ options: [...(draft.options ?? []), ''] })}
+              className="mt-2 flex items-center gap-1 text-sm font-medium text-indigo-600 hover:text-indigo-800"
+            >
+              <Plus className="w-4 h-4" />
+              Add option
+            </button>
+          )}
+        </div>
+      )}
+
+      {draft.type === 'TRUE_FALSE' && (
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">Correct answer</label>
+          <div className="flex gap-6">
+            {[{ label: 'True', value: 1 }, { label: 'False', value: 0 }].map(({ label, value }) => (
+              <label key={label} className="flex items-center gap-2 text-sm text-gray-800">
+                <input
+                  type="radio"
+                  name="trueFalse"
+                  checked={draft.correctAnswer === value}
+                  onChange={() => update({ correctAnswer: value })}
+                  className="w-4 h-4 text-indigo-600"
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {(isWritten || draft.markPoints) && (
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">Mark scheme points</label>
+          <div className="space-y-2">
+            {(draft.markPoints ?? []).map((point, pointIndex) => (
+              <div key={pointIndex} className="flex items-center gap-3">
+                <input
+                  value={point}
+                  onChange={(e) => updateListItem('markPoints', pointIndex, e.target.value)}
+                  className={inputClass}
+                />
+                <button
+                  type="button"
+                  onClick={() => update({ markPoints: (draft.markPoints ?? []).filter((_, i) => i !== pointIndex) })}
+                  title="Remove mark point"
+                  className="p-2 text-gray-500 rounded-lg hover:bg-gray-100"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => update({ markPoints: [...(draft.markPoints ?? []), ''] })}
+            className="mt-2 flex items-center gap-1 text-sm font-medium text-indigo-600 hover:text-indigo-800"
+          >
+            <Plus className="w-4 h-4" />
+            Add mark point
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-4 py-2 text-sm text-gray-600 rounded-lg hover:bg-gray-100">
+          Cancel
+        </button>
+        <button type="button" onClick={handleSave} className="px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700">
+          Save question
+        </button>
+      </div>
+    </div>
+  );
+}
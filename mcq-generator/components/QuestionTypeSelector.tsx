@@ -1,6 +1,17 @@
 'use client';
 
-import { QuizConfig } from '@/lib/types';
+import { QuestionOrderMode, QuestionType, QuizConfig, RetrievalTopicConfig } from '@/lib/types';
+import { buildDefaultRetrievalTopics, RETRIEVAL_LIMITS, resizeRetrievalTopics } from '@/lib/retrieval-config';
+import { QUESTION_ORDER_LABELS, QUESTION_ORDER_MODES } from '@/lib/question-order';
+import {
+  DEFAULT_OPTION_COUNT,
+  DEFAULT_QUESTION_TYPE_MIX,
+  getDefaultQuestionType,
+  hasOptions,
+  OPTION_COUNT_LIMITS,
+  QUESTION_TYPE_LABELS,
+  QUESTION_TYPES,
+} from '@/lib/question-types';
 
 interface QuestionTypeSelectorProps {
   config: QuizConfig;
@@ -8,12 +19,42 @@ interface QuestionTypeSelectorProps {
 }
 
 export default function QuestionTypeSelector({ config, onChange }: QuestionTypeSelectorProps) {
+  const retrievalTopics = config.retrievalTopics ?? buildDefaultRetrievalTopics(3, config.questionCount);
+
+  const updateRetrievalShape = (topicCount: number, questionCount: number) => {
+    onChange({
+      ...config,
+      questionCount,
+      retrievalTopics: resizeRetrievalTopics(retrievalTopics, topicCount, questionCount),
+    });
+  };
+
+  const updateTopic = (index: number, changes: Partial<RetrievalTopicConfig>) => {
+    onChange({
+      ...config,
+      retrievalTopics: retrievalTopics.map((topic, i) => (i === index ? { ...topic, ...changes } : topic)),
+    });
+  };
+
+  // Quizzes saved before a type existed have no share for it
+  const questionTypeMix = { ...DEFAULT_QUESTION_TYPE_MIX, ...config.questionTypeMix };
+  const mixTotal = QUESTION_TYPES.reduce((sum, type) => sum + questionTypeMix[type], 0);
+  const supportsQuestionType = config.quizType === 'retrieval' || config.quizType === 'mini';
+  const questionTypeLabel = config.questionType === 'MIXED' ? 'mixed' : QUESTION_TYPE_LABELS[config.questionType].toLowerCase();
+
+  const updateMix = (type: QuestionType, value: number) => {
+    onChange({
+      ...config,
+      questionTypeMix: { ...questionTypeMix, [type]: Math.min(100, Math.max(0, value)) },
+    });
+  };
+
   const getQuizDescription = () => {
     switch(config.quizType) {
       case 'retrieval':
-        return { icon: '📚', title: 'Retrieval Quiz', desc: '30 MCQs across 3 topics', color: 'blue' };
+        return { icon: '📚', title: 'Retrieval Quiz', desc: `${retrievalTopics.length * config.questionCount} ${questionTypeLabel} questions across ${retrievalTopics.length} topics`, color: 'blue' };
       case 'mini':
-        return { icon: '📝', title: 'Mini Quiz', desc: `${config.educationLevel === 'A-LEVEL' ? '24' : '19'} questions (AO1, AO2, AO3)`, color: 'purple' };
+        return { icon: '📝', title: 'Mini Quiz', desc: `${config.educationLevel === 'A-LEVEL' ? '24' : '19'} ${questionTypeLabel} questions (AO1, AO2, AO3)`, color: 'purple' };
       case 'assignment':
         return { icon: '📋', title: 'Assignment', desc: '4 exam questions (40 marks)', color: 'indigo' };
       case 'application':
@@ -51,20 +92,169 @@ export default function QuestionTypeSelector({ config, onChange }: QuestionTypeS
         </label>
         <select
           value={config.quizType}
-          onChange={(e) => onChange({ ...config, quizType: e.target.value as any })}
+          onChange={(e) => {
+            const quizType = e.target.value as QuizConfig["quizType"];
+            onChange({ ...config, quizType, questionType: getDefaultQuestionType(quizType) });
+          }}
           className="w-full px-4 py-3 bg-white border-2 border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all duration-150 text-gray-900 font-medium cursor-pointer hover:border-gray-300"
         >
           <option value="retrieval">📚 Retrieval Quiz</option>
           <option value="mini">📝 Mini Quiz</option>
-          {/* COMMENTED OUT - Only Retrieval and Mini Quiz are active
           <option value="assignment">📋 Assignment</option>
           <option value="application">🎯 Application Practice</option>
           <option value="marks-per-point">✍️ Marks Per Point</option>
           <option value="specific">🎓 Specific Technique</option>
-          */}
         </select>
       </div>
 
+      {supportsQuestionType && (
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2.5">
+            Question Type
+          </label>
+          <select
+            value={config.questionType}
+            onChange={(e) => onChange({ ...config, questionType: e.target.value as QuizConfig["questionType"] })}
+            className="w-full px-4 py-3 bg-white border-2 border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all duration-150 text-gray-900 font-medium cursor-pointer hover:border-gray-300"
+          >
+            {QUESTION_TYPES.map((type) => (
+              <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>
+            ))}
+            <option value="MIXED">Mixed</option>
+          </select>
+
+          {(config.questionType === 'MIXED' || hasOptions(config.questionType)) && (
+            <div className="mt-3 flex items-center gap-2 text-xs text-gray-600">
+              <span className="flex-1">Options per question</span>
+              <select
+                value={config.optionCount ?? DEFAULT_OPTION_COUNT}
+                onChange={(e) => onChange({ ...config, optionCount: Number(e.target.value) })}
+                className="px-2 py-1 bg-white border border-gray-200 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-gray-900 cursor-pointer"
+              >
+                {Array.from(
+                  { length: OPTION_COUNT_LIMITS.max - OPTION_COUNT_LIMITS.min + 1 },
+                  (_, i) => OPTION_COUNT_LIMITS.min + i
+                ).map((count) => (
+                  <option key={count} value={count}>{count} options</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {config.questionType === 'MIXED' && (
+            <div className="mt-3 p-3 bg-gray-50 border border-gray-200 rounded-lg space-y-2">
+              {QUESTION_TYPES.map((type) => (
+                <div key={type} className="flex items-center gap-2 text-xs text-gray-600">
+                  <span className="flex-1">{QUESTION_TYPE_LABELS[type]}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={5}
+                    value={questionTypeMix[type]}
+                    onChange={(e) => updateMix(type, Number(e.target.value) || 0)}
+                    className="w-16 px-2 py-1 bg-white border border-gray-200 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-gray-900"
+                  />
+                  <span>%</span>
+                </div>
+              ))}
+              <p className={`text-xs font-medium ${mixTotal === 100 ? 'text-gray-500' : 'text-red-600'}`}>
+                Total: {mixTotal}%{mixTotal !== 100 && ' (must add up to 100%)'}
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {config.quizType === 'retrieval' && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2.5">
+                Topics
+              </label>
+              <select
+                value={retrievalTopics.length}
+                onChange={(e) => updateRetrievalShape(Number(e.target.value), config.questionCount)}
+                className="w-full px-4 py-3 bg-white border-2 border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all duration-150 text-gray-900 font-medium cursor-pointer hover:border-gray-300"
+              >
+                {Array.from(
+                  { length: RETRIEVAL_LIMITS.maxTopics - RETRIEVAL_LIMITS.minTopics + 1 },
+                  (_, i) => RETRIEVAL_LIMITS.minTopics + i
+                ).map((count) => (
+                  <option key={count} value={count}>{count} topics</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2.5">
+                Questions per topic
+              </label>
+              <input
+                type="number"
+                min={RETRIEVAL_LIMITS.minQuestionsPerTopic}
+                max={RETRIEVAL_LIMITS.maxQuestionsPerTopic}
+                value={config.questionCount}
+                onChange={(e) => {
+                  const count = Math.min(
+                    RETRIEVAL_LIMITS.maxQuestionsPerTopic,
+                    Math.max(RETRIEVAL_LIMITS.minQuestionsPerTopic, Number(e.target.value) || RETRIEVAL_LIMITS.minQuestionsPerTopic)
+                  );
+                  updateRetrievalShape(retrievalTopics.length, count);
+                }}
+                className="w-full px-4 py-3 bg-white border-2 border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all duration-150 text-gray-900 font-medium hover:border-gray-300"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2.5">
+              Question Order
+            </label>
+            <select
+              value={config.questionOrder ?? 'keep'}
+              onChange={(e) => onChange({ ...config, questionOrder: e.target.value as QuestionOrderMode })}
+              className="w-full px-4 py-3 bg-white border-2 border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all duration-150 text-gray-900 font-medium cursor-pointer hover:border-gray-300"
+            >
+              {QUESTION_ORDER_MODES.map((mode) => (
+                <option key={mode} value={mode}>{QUESTION_ORDER_LABELS[mode]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            {retrievalTopics.map((topic, index) => (
+              <div key={index} className="p-3 bg-gray-50 border border-gray-200 rounded-lg space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-bold text-indigo-700 w-16 flex-shrink-0">{topic.name}</span>
+                  <input
+                    type="text"
+                    value={topic.revisionLabel}
+                    onChange={(e) => updateTopic(index, { revisionLabel: e.target.value })}
+                    className="flex-1 min-w-0 px-2 py-1.5 text-xs bg-white border border-gray-200 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-gray-900"
+                    title="Spaced-repetition label"
+                  />
+                </div>
+                <div className="flex items-center gap-2 text-xs text-gray-600">
+                  <span className="w-16 flex-shrink-0">AO1 / AO2</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={config.questionCount}
+                    value={topic.ao1Count}
+                    onChange={(e) => updateTopic(index, {
+                      ao1Count: Math.min(config.questionCount, Math.max(0, Number(e.target.value) || 0)),
+                    })}
+                    className="w-16 px-2 py-1 bg-white border border-gray-200 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-gray-900"
+                  />
+                  <span>/ {config.questionCount - topic.ao1Count}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className={`p-4 bg-gradient-to-br from-${quizInfo.color}-50 to-${quizInfo.color}-100 border-2 border-${quizInfo.color}-200 rounded-xl`}>
         <div className="flex items-start gap-3">
           <span className="text-2xl">{quizInfo.icon}</span>
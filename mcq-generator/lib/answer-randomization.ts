@@ -1,20 +1,30 @@
+import { GeneratedQuestion } from './types';
+import { RandomSource } from './seeded-random';
+import { moveCorrectOption } from './shuffle-quiz';
+import { DEFAULT_OPTION_COUNT, formatOptionLetters, optionIndex, optionLetter, optionLetters } from './question-types';
+
 /**
- * Generate a 30-letter answer key sequence for retrieval quizzes
- * with no consecutive duplicates
+ * Generate an answer key sequence for retrieval quizzes (30 letters from a-d by default)
+ * with no consecutive duplicates (pass a seeded random to get the same sequence every time)
  */
 
-export function generateRetrievalAnswerSequence(): string {
-  // Step 1: Create array with 8 of each letter (32 total, will trim to 30)
+export function generateRetrievalAnswerSequence(
+  length: number = 30,
+  random: RandomSource = Math.random,
+  optionCount: number = DEFAULT_OPTION_COUNT
+): string {
+  // Step 1: Create array with enough of each letter to cover the length (e.g. 8 each = 32, trimmed to 30)
+  const perLetter = Math.ceil(length / optionCount);
   const letters: string[] = [];
-  ['a', 'b', 'c', 'd'].forEach(letter => {
-    for (let i = 0; i < 8; i++) {
+  optionLetters(optionCount).forEach(letter => {
+    for (let i = 0; i < perLetter; i++) {
       letters.push(letter);
     }
   });
 
   // Step 2: Shuffle the array randomly (Fisher-Yates)
   for (let i = letters.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [letters[i], letters[j]] = [letters[j], letters[i]];
   }
 
@@ -49,7 +59,7 @@ export function generateRetrievalAnswerSequence(): string {
         if (!swapped) {
           // If we couldn't find a good swap, reshuffle and try again
           for (let k = letters.length - 1; k > 0; k--) {
-            const l = Math.floor(Math.random() * (k + 1));
+            const l = Math.floor(random() * (k + 1));
             [letters[k], letters[l]] = [letters[l], letters[k]];
           }
           break;
@@ -64,14 +74,14 @@ export function generateRetrievalAnswerSequence(): string {
     attempts++;
   }
 
-  // Step 4: Trim to exactly 30 letters
-  const sequence = letters.slice(0, 30);
+  // Step 4: Trim to exactly the requested length
+  const sequence = letters.slice(0, length);
 
   // Step 5: Validate
-  const validation = validateAnswerSequence(sequence);
+  const validation = validateAnswerSequence(sequence, length, optionCount);
   if (!validation.isValid) {
     console.warn('Generated sequence failed validation, regenerating...', validation);
-    return generateRetrievalAnswerSequence(); // Recursive retry
+    return generateRetrievalAnswerSequence(length, random, optionCount); // Recursive retry (the generator has moved on)
   }
 
   // Step 6: Return as string
@@ -79,17 +89,26 @@ export function generateRetrievalAnswerSequence(): string {
 }
 
 /**
- * Validate an answer sequence meets all requirements
+ * Validate an answer sequence meets all requirements (30 letters from a-d by default, each
+ * letter appearing length/optionCount times rounded down or up). Quizzes whose questions have
+ * different option counts skip the distribution check - their letters cannot be spread evenly.
  */
-export function validateAnswerSequence(sequence: string[]): {
+export function validateAnswerSequence(
+  sequence: string[],
+  expectedLength: number = 30,
+  optionCount: number = DEFAULT_OPTION_COUNT,
+  checkDistribution: boolean = true
+): {
   isValid: boolean;
   errors: string[];
 } {
   const errors: string[] = [];
+  const minCount = Math.floor(expectedLength / optionCount);
+  const maxCount = Math.ceil(expectedLength / optionCount);
 
   // Check length
-  if (sequence.length !== 30) {
-    errors.push(`Length must be 30, got ${sequence.length}`);
+  if (sequence.length !== expectedLength) {
+    errors.push(`Length must be ${expectedLength}, got ${sequence.length}`);
   }
 
   // Check for consecutive duplicates
@@ -99,8 +118,8 @@ export function validateAnswerSequence(sequence: string[]): {
     }
   }
 
-  // Check distribution (each letter should appear 7-8 times)
-  const counts: Record<string, number> = { a: 0, b: 0, c: 0, d: 0 };
+  // Check distribution (e.g. 7-8 times each for 30 letters from a-d)
+  const counts: Record<string, number> = Object.fromEntries(optionLetters(optionCount).map(letter => [letter, 0]));
   sequence.forEach(letter => {
     if (counts[letter] !== undefined) {
       counts[letter]++;
@@ -110,8 +129,9 @@ export function validateAnswerSequence(sequence: string[]): {
   });
 
   Object.entries(counts).forEach(([letter, count]) => {
-    if (count < 7 || count > 8) {
-      errors.push(`Letter '${letter}' appears ${count} times, should be 7-8`);
+    if (checkDistribution && (count < minCount || count > maxCount)) {
+      const expected = minCount === maxCount ? `${minCount}` : `${minCount}-${maxCount}`;
+      errors.push(`Letter '${letter}' appears ${count} times, should be ${expected}`);
     }
   });
 
@@ -121,11 +141,187 @@ export function validateAnswerSequence(sequence: string[]): {
   };
 }
 
+/**
+ * Answer key entries for a list of questions: a, b, c... for MCQs, "a,c" for multi-select,
+ * "true"/"false", "-" for written answers
+ */
+export function buildAnswerKey(questions: GeneratedQuestion[]): string[] {
+  return questions.map(question => {
+    if (question.type === 'MULTIPLE_CHOICE') return optionLetter(question.correctAnswer ?? 0);
+    if (question.type === 'MULTI_SELECT') return formatOptionLetters(question.correctAnswers ?? []);
+    if (question.type === 'TRUE_FALSE') return question.correctAnswer === 1 ? 'true' : 'false';
+    return '-';
+  });
+}
+
+// Options per MCQ in question order (questions saved without options count as the default)
+function multipleChoiceOptionCounts(questions: GeneratedQuestion[]): number[] {
+  return questions
+    .filter(q => q.type === 'MULTIPLE_CHOICE')
+    .map(q => q.options?.length ?? DEFAULT_OPTION_COUNT);
+}
+
+/**
+ * Validate the combined multiple-choice answer letters of a quiz, in question order
+ */
+export function validateQuizAnswerSequence(questions: GeneratedQuestion[]): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const sequence = buildAnswerKey(questions.filter(q => q.type === 'MULTIPLE_CHOICE'));
+  const optionCounts = multipleChoiceOptionCounts(questions);
+  const uniform = new Set(optionCounts).size <= 1;
+  const optionCount = uniform ? optionCounts[0] ?? DEFAULT_OPTION_COUNT : Math.max(...optionCounts);
+  return validateAnswerSequence(sequence, sequence.length, optionCount, uniform);
+}
+
+/**
+ * Move each multiple-choice question's correct option to the slot its letter in the sequence gives
+ * it (one letter per MCQ, in question order); true/false and written questions are left alone
+ */
+export function applyAnswerSequence(questions: GeneratedQuestion[], sequence: string[]): GeneratedQuestion[] {
+  let position = 0;
+  return questions.map(question => {
+    if (question.type !== 'MULTIPLE_CHOICE' || !question.options || question.correctAnswer === undefined) {
+      return question;
+    }
+
+    const letter = sequence[position++];
+    if (letter === undefined) return question;
+    const placed = moveCorrectOption(question.options, question.correctAnswer, optionIndex(letter));
+    return { ...question, options: placed.options, correctAnswer: placed.correctIndex };
+  });
+}
+
+/**
+ * Place a finished quiz's correct answers on a generated sequence sized to its MCQs - never the
+ * same letter twice in a row, each letter used evenly - and validate the key that results.
+ * When option counts differ, only the letters every question has are used.
+ */
+export function enforceAnswerSequence(questions: GeneratedQuestion[], random: RandomSource = Math.random): {
+  questions: GeneratedQuestion[];
+  sequence: string;
+  isValid: boolean;
+  errors: string[];
+} {
+  const optionCounts = multipleChoiceOptionCounts(questions);
+  // Two letters at least - a single one cannot avoid repeating itself
+  const fewestOptions = optionCounts.length > 0 ? Math.max(2, Math.min(...optionCounts)) : DEFAULT_OPTION_COUNT;
+  const sequence = generateRetrievalAnswerSequence(optionCounts.length, random, fewestOptions);
+  const placed = applyAnswerSequence(questions, parseAnswerSequence(sequence));
+  return { questions: placed, sequence, ...validateQuizAnswerSequence(placed) };
+}
+
+const MAX_FILL_STEPS = 10000;
+
+// Fill the open slots of a quiz's answer letters depth-first, trying each slot's preferred letter
+// first: no letter may match its neighbour and, when balanced, every letter must end up used
+// length/optionCount times rounded down or up. Returns null when no filling exists (or none turns
+// up within the search budget).
+function fillAnswerSlots(
+  letters: string[],
+  slots: number[],
+  optionCounts: number[],
+  preferred: string[],
+  balanced: boolean
+): string[] | null {
+  const filled = [...letters];
+  const open = new Set(slots);
+  slots.forEach(position => {
+    filled[position] = '';
+  });
+
+  const optionCount = optionCounts[0] ?? DEFAULT_OPTION_COUNT;
+  const minCount = Math.floor(filled.length / optionCount);
+  const maxCount = Math.ceil(filled.length / optionCount);
+  const counts = new Map(optionLetters(optionCount).map(letter => [letter, 0]));
+  filled.forEach(letter => {
+    if (letter) counts.set(letter, (counts.get(letter) ?? 0) + 1);
+  });
+
+  let budget = MAX_FILL_STEPS;
+  const place = (depth: number): boolean => {
+    if (--budget < 0) return false;
+    if (balanced) {
+      if ([...counts.values()].some(count => count > maxCount)) return false;
+      const shortfall = [...counts.values()].reduce((sum, count) => sum + Math.max(0, minCount - count), 0);
+      if (shortfall > slots.length - depth) return false;
+    }
+    if (depth === slots.length) return true;
+
+    const position = slots[depth];
+    // Preferred letter first, then the least used
+    const candidates = optionLetters(optionCounts[position]).sort((a, b) =>
+      Number(b === preferred[depth]) - Number(a === preferred[depth]) || (counts.get(a) ?? 0) - (counts.get(b) ?? 0)
+    );
+    for (const letter of candidates) {
+      if (filled[position - 1] === letter || (!open.has(position + 1) && filled[position + 1] === letter)) continue;
+      filled[position] = letter;
+      counts.set(letter, (counts.get(letter) ?? 0) + 1);
+      if (place(depth + 1)) return true;
+      counts.set(letter, (counts.get(letter) ?? 0) - 1);
+    }
+    filled[position] = '';
+    return false;
+  };
+
+  return place(0) ? filled : null;
+}
+
+/**
+ * Place the correct answers of some MCQs only (e.g. a regenerated topic) so the whole quiz's key
+ * validates: their letters come from a generated sequence, adjusted wherever one would repeat a
+ * neighbour or overuse a letter. Every other question keeps its answer. When the fixed answers
+ * rule out an even spread, the letters only avoid repeats.
+ */
+export function fitAnswerSequence(
+  questions: GeneratedQuestion[],
+  isMovable: (question: GeneratedQuestion) => boolean,
+  random: RandomSource = Math.random
+): {
+  questions: GeneratedQuestion[];
+  sequence: string;
+  isValid: boolean;
+  errors: string[];
+} {
+  const multipleChoice = questions
+    .map((question, index) => ({ question, index }))
+    .filter(({ question }) => question.type === 'MULTIPLE_CHOICE');
+  const optionCounts = multipleChoiceOptionCounts(questions);
+  const letters = multipleChoice.map(({ question }) => optionLetter(question.correctAnswer ?? 0));
+  const slots = multipleChoice
+    .map(({ question }, position) =>
+      isMovable(question) && question.options && question.correctAnswer !== undefined ? position : -1
+    )
+    .filter(position => position !== -1);
+
+  let filled = letters;
+  if (slots.length > 0) {
+    // Two letters at least - a single one cannot avoid repeating itself
+    const fewestOptions = Math.max(2, Math.min(...slots.map(position => optionCounts[position])));
+    const preferred = parseAnswerSequence(generateRetrievalAnswerSequence(slots.length, random, fewestOptions));
+    const uniform = new Set(optionCounts).size <= 1;
+    filled = (uniform && fillAnswerSlots(letters, slots, optionCounts, preferred, true))
+      || fillAnswerSlots(letters, slots, optionCounts, preferred, false)
+      || letters;
+  }
+
+  const placed = [...questions];
+  slots.forEach(position => {
+    const { question, index } = multipleChoice[position];
+    if (!question.options || question.correctAnswer === undefined) return;
+    const moved = moveCorrectOption(question.options, question.correctAnswer, optionIndex(filled[position]));
+    placed[index] = { ...question, options: moved.options, correctAnswer: moved.correctIndex };
+  });
+
+  return { questions: placed, sequence: filled.join(''), ...validateQuizAnswerSequence(placed) };
+}
+
 /**
  * Convert answer sequence string to array for validation
  */
 export function parseAnswerSequence(sequence: string): string[] {
-  return sequence.toLowerCase().split('').filter(c => ['a', 'b', 'c', 'd'].includes(c));
+  return sequence.toLowerCase().split('').filter(c => optionIndex(c) !== -1);
 }
 
 /**
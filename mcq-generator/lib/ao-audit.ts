@@ -0,0 +1,123 @@
+import { AoAudit, GeneratedQuestion } from './types';
+
+export type AuditedAoLevel = 'AO1' | 'AO2' | 'AO3';
+
+/**
+ * off    no audit
+ * rules  command-word rules only, free and instant (default)
+ * model  the model classifies each question; the rules are the fallback if that call fails
+ */
+export type AoAuditMode = 'off' | 'rules' | 'model';
+
+const AO_AUDIT_MODES: AoAuditMode[] = ['off', 'rules', 'model'];
+
+/**
+ * How generated questions' AO levels are audited.
+ *
+ * AO_AUDIT  rules (default) | model | off
+ */
+export function resolveAoAuditMode(env: NodeJS.ProcessEnv = process.env): AoAuditMode {
+  const mode = (env.AO_AUDIT || 'rules').trim().toLowerCase();
+
+  if (!AO_AUDIT_MODES.includes(mode as AoAuditMode)) {
+    throw new Error(`Unknown AO_AUDIT '${mode}'. Expected one of: ${AO_AUDIT_MODES.join(', ')}`);
+  }
+
+  return mode as AoAuditMode;
+}
+
+const AO_LEVELS: AuditedAoLevel[] = ['AO1', 'AO2', 'AO3'];
+
+const AO_DEMANDS: Record<AuditedAoLevel, string> = {
+  AO1: 'recall',
+  AO2: 'application',
+  AO3: 'evaluation',
+};
+
+// Command words and framing that signal each level's cognitive demand (exam-board style)
+const AO_CUES: Record<AuditedAoLevel, RegExp[]> = {
+  AO1: [
+    /^(state|name|define|identify|list|give|label|recall|outline)\b/i,
+    /^describe\b(?! how)/i,
+    /^(what|which) (is|are|was|were|does|do)\b/i,
+    /^which of the following (is|are)\b/i,
+    /\bwhat is meant by\b/i,
+    /\bthe (name|term|definition|unit|symbol) (of|for)\b/i,
+  ],
+  AO2: [
+    /\bexplain (why|how)\b/i,
+    /\bcalculate\b/i,
+    /\b(use|using) (the|this|these) (data|graph|table|results|information|diagram)\b/i,
+    /\b(a|one|the) (student|scientist|farmer|doctor|patient|gardener|technician)\b/i,
+    /\bin (an|this|the) (experiment|investigation|practical)\b/i,
+    /\bpredict\b/i,
+    /\bcompare\b/i,
+    /\bsuggest (why|how|what|a reason)\b/i,
+    /\bwhat would happen\b/i,
+    /\d+(\.\d+)?\s?(%|°c|cm3|cm|mm|kg|g|m\/s|kj|j|w|v|mol)(?![a-z])/i,
+  ],
+  AO3: [
+    /\b(evaluate|assess|justify|judge|discuss)\b/i,
+    /\bto what extent\b/i,
+    /\b(advantages and disadvantages|strengths and weaknesses|pros and cons)\b/i,
+    /\b(suggest|propose) (an? )?improvements?\b/i,
+    /\b(design|plan) an? (experiment|investigation|method)\b/i,
+    /\b(draw|reach) a conclusion\b/i,
+  ],
+};
+
+export function isAuditedAoLevel(level: unknown): level is AuditedAoLevel {
+  return AO_LEVELS.includes(level as AuditedAoLevel);
+}
+
+/**
+ * Classify a question's cognitive demand from its wording: the highest level whose cues appear,
+ * or null when none do. Returns the matched phrases as the reason.
+ */
+export function classifyAoDemand(text: string): { level: AuditedAoLevel | null; cues: string[] } {
+  const stem = text.trim();
+
+  for (const level of [...AO_LEVELS].reverse()) {
+    const cues = AO_CUES[level]
+      .map(pattern => stem.match(pattern)?.[0])
+      .filter((cue): cue is string => Boolean(cue));
+    if (cues.length > 0) return { level, cues };
+  }
+
+  return { level: null, cues: [] };
+}
+
+/**
+ * Describe a classification that does not match its slot, e.g. "AO1 recall disguised as AO2"
+ * or "AO3 evaluation in an AO1 slot"; null when it matches (or could not be classified)
+ */
+export function describeAoMismatch(intended: AuditedAoLevel, classified: AuditedAoLevel | null): string | null {
+  if (!classified || classified === intended) return null;
+
+  return AO_LEVELS.indexOf(classified) < AO_LEVELS.indexOf(intended)
+    ? `${classified} ${AO_DEMANDS[classified]} disguised as ${intended}`
+    : `${classified} ${AO_DEMANDS[classified]} in an ${intended} slot`;
+}
+
+export function auditByRules(question: GeneratedQuestion): AoAudit | undefined {
+  if (!isAuditedAoLevel(question.aoLevel)) return undefined;
+
+  const { level, cues } = classifyAoDemand(question.text);
+  return {
+    classified: level,
+    source: 'rules',
+    reason: cues.length > 0 ? `Wording: ${cues.map(cue => `"${cue}"`).join(', ')}` : 'No command word or context that signals a level',
+    mismatch: describeAoMismatch(question.aoLevel, level),
+  };
+}
+
+/**
+ * Count audited questions and how many do not match their AO slot
+ */
+export function summarizeAoAudit(questions: GeneratedQuestion[]): { audited: number; mismatched: number } {
+  const audited = questions.filter(question => question.aoAudit);
+  return {
+    audited: audited.length,
+    mismatched: audited.filter(question => question.aoAudit?.mismatch).length,
+  };
+}
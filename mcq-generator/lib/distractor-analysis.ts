@@ -0,0 +1,115 @@
+import { DistractorIssue, DistractorWarning } from './types';
+
+/**
+ * off     no analysis
+ * warn    flag problems on each question (default)
+ * repair  flag problems and have the model rewrite the offending distractors
+ */
+export type DistractorAnalysisMode = 'off' | 'warn' | 'repair';
+
+const DISTRACTOR_ANALYSIS_MODES: DistractorAnalysisMode[] = ['off', 'warn', 'repair'];
+
+/**
+ * How retrieval MCQ distractors are checked after generation.
+ *
+ * DISTRACTOR_ANALYSIS  warn (default) | repair | off
+ */
+export function resolveDistractorAnalysisMode(env: NodeJS.ProcessEnv = process.env): DistractorAnalysisMode {
+  const mode = (env.DISTRACTOR_ANALYSIS || 'warn').trim().toLowerCase();
+
+  if (!DISTRACTOR_ANALYSIS_MODES.includes(mode as DistractorAnalysisMode)) {
+    throw new Error(`Unknown DISTRACTOR_ANALYSIS '${mode}'. Expected one of: ${DISTRACTOR_ANALYSIS_MODES.join(', ')}`);
+  }
+
+  return mode as DistractorAnalysisMode;
+}
+
+export const DISTRACTOR_ISSUE_LABELS: Record<DistractorIssue, string> = {
+  'near-duplicate': 'Near-duplicate options',
+  'also-correct': 'More than one correct option',
+  'length-giveaway': 'Longest option is correct',
+  'grammar-giveaway': 'Grammar gives the answer away',
+  'catch-all': '"All of the above" option',
+  'contradicts-stem': 'Option contradicts the question',
+};
+
+// Word overlap (Jaccard) at which two options count as saying the same thing
+const NEAR_DUPLICATE_SIMILARITY = 0.75;
+
+// The correct option is a giveaway when it is this much longer than the average distractor...
+const LENGTH_GIVEAWAY_RATIO = 1.5;
+// ...and long enough for the difference to be visible (short numeric answers vary naturally)
+const LENGTH_GIVEAWAY_MIN_CHARACTERS = 25;
+
+const CATCH_ALL_PATTERN = /\b(all|none|both|neither) of (the )?(above|these|them|those)\b|^both [a-e] and [a-e]\b/i;
+
+function quote(option: string): string {
+  return `"${option.trim()}"`;
+}
+
+function wordSet(text: string): Set<string> {
+  return new Set(text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(Boolean));
+}
+
+function similarity(a: string, b: string): number {
+  const wordsA = wordSet(a);
+  const wordsB = wordSet(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+// "a"/"an" when the stem ends on one, as in "The enzyme that breaks down starch is an ..."
+function trailingArticle(stem: string): 'a' | 'an' | null {
+  const match = stem.trim().match(/\b(an?)\s*(\.{2,}|…|_+)?$/i);
+  return match ? (match[1].toLowerCase() as 'a' | 'an') : null;
+}
+
+function fitsArticle(option: string, article: 'a' | 'an'): boolean {
+  const startsWithVowel = /^[aeiou]/i.test(option.trim());
+  return article === 'an' ? startsWithVowel : !startsWithVowel;
+}
+
+/**
+ * The checks that need no model: near-duplicate options, catch-all options, and length or
+ * grammar cues that point at the correct option. Exact duplicates are already rejected
+ * when the model's output is validated.
+ */
+export function analyzeOptions(stem: string, options: string[], correctIndex: number): DistractorWarning[] {
+  const warnings: DistractorWarning[] = [];
+  const warn = (issue: DistractorIssue, message: string) => warnings.push({ issue, message, repaired: false });
+
+  options.forEach((option, i) => {
+    options.slice(i + 1).forEach(other => {
+      if (similarity(option, other) >= NEAR_DUPLICATE_SIMILARITY) {
+        warn('near-duplicate', `${quote(option)} and ${quote(other)} say nearly the same thing`);
+      }
+    });
+  });
+
+  options.filter(option => CATCH_ALL_PATTERN.test(option.trim())).forEach(option => {
+    warn('catch-all', `${quote(option)} lets students answer by elimination`);
+  });
+
+  const correct = options[correctIndex];
+  if (correct === undefined) return warnings;
+  const distractors = options.filter((_, i) => i !== correctIndex);
+
+  const averageLength = distractors.reduce((sum, option) => sum + option.trim().length, 0) / distractors.length;
+  const correctLength = correct.trim().length;
+  if (
+    correctLength >= LENGTH_GIVEAWAY_MIN_CHARACTERS &&
+    correctLength >= averageLength * LENGTH_GIVEAWAY_RATIO &&
+    distractors.every(option => option.trim().length < correctLength)
+  ) {
+    warn('length-giveaway', `The correct option ${quote(correct)} is much longer than the distractors`);
+  }
+
+  const article = trailingArticle(stem);
+  if (article && fitsArticle(correct, article) && distractors.every(option => !fitsArticle(option, article))) {
+    warn('grammar-giveaway', `Only the correct option ${quote(correct)} follows "${article}" in the question`);
+  }
+
+  return warnings;
+}
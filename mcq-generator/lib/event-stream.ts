@@ -0,0 +1,85 @@
+import { GenerationProgressEvent } from './types';
+
+// Everything a generation route streams: progress, then exactly one complete or error event
+export type GenerationStreamEvent<T> =
+  | GenerationProgressEvent
+  | { type: 'complete'; result: T }
+  | { type: 'error'; error: string; validationErrors?: string[] };
+
+export type ProgressEmitter = (event: GenerationProgressEvent) => void;
+
+/**
+ * Generation routes stream Server-Sent Events only when asked to; plain requests still get JSON
+ */
+export function wantsEventStream(request: Request): boolean {
+  return request.headers.get('accept')?.includes('text/event-stream') ?? false;
+}
+
+/**
+ * Respond with a text/event-stream; `run` sends events until it resolves, then the stream closes
+ */
+export function createEventStream<T>(run: (send: (event: GenerationStreamEvent<T>) => void) => Promise<void>): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: GenerationStreamEvent<T>) => {
+        controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+      };
+
+      try {
+        await run(send);
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+/**
+ * Read a streamed generation response in the browser, passing each progress event to onProgress.
+ * Resolves with the complete event's result and rejects on the error event.
+ */
+export async function readEventStream<T>(
+  response: Response,
+  onProgress: ProgressEmitter
+): Promise<T> {
+  if (!response.body) throw new Error('Response has no body to stream');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    // Events are separated by a blank line; keep any incomplete tail for the next chunk
+    const chunks = buffer.split('\n\n');
+    buffer = done ? '' : chunks.pop() ?? '';
+
+    for (const chunk of chunks) {
+      const data = chunk
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trim())
+        .join('\n');
+      if (!data) continue;
+
+      const event = JSON.parse(data) as GenerationStreamEvent<T>;
+      if (event.type === 'complete') return event.result;
+      if (event.type === 'error') throw new Error(event.error);
+      onProgress(event);
+    }
+
+    if (done) throw new Error('The generation stream ended before the quiz was complete');
+  }
+}
@@ -0,0 +1,55 @@
+import { GeneratedQuestion, GenerationProgressEvent } from './types';
+
+export interface TopicProgress {
+  name: string;
+  status: 'waiting' | 'retrying' | 'done' | 'failed';
+  detail?: string; // Retry or failure reason
+  questions?: GeneratedQuestion[]; // Set once the topic is done, so it can be shown early
+  provisional?: boolean; // Its questions are a preview - the finished quiz replaces their order and answers
+}
+
+// What the loading panel shows while a generation streams in
+export interface GenerationProgressState {
+  message: string;
+  imageCount: number;
+  imagesUploaded: number;
+  topics: TopicProgress[]; // Retrieval quizzes only, one per topic upload
+}
+
+export function createGenerationProgress(imageCount: number, topicNames: string[] = []): GenerationProgressState {
+  return {
+    message: 'Starting...',
+    imageCount,
+    imagesUploaded: 0,
+    topics: topicNames.map(name => ({ name, status: 'waiting' })),
+  };
+}
+
+function updateTopic(state: GenerationProgressState, index: number, update: Partial<TopicProgress>): GenerationProgressState {
+  return {
+    ...state,
+    topics: state.topics.map((topic, i) => (i === index ? { ...topic, ...update } : topic)),
+  };
+}
+
+/**
+ * Fold one streamed event into the progress state
+ */
+export function applyProgressEvent(state: GenerationProgressState, event: GenerationProgressEvent): GenerationProgressState {
+  switch (event.type) {
+    case 'stage':
+      return { ...state, message: event.message };
+    case 'image-uploaded':
+      return { ...state, imagesUploaded: state.imagesUploaded + 1 };
+    case 'topic-retry':
+      return updateTopic(state, event.index, { status: 'retrying', detail: `Attempt ${event.attempt} failed: ${event.error}` });
+    case 'topic-done':
+      return updateTopic(
+        { ...state, message: `${state.topics[event.index]?.name ?? event.name} is ready` },
+        event.index,
+        { status: 'done', detail: undefined, questions: event.questions, provisional: event.provisional }
+      );
+    case 'topic-failed':
+      return updateTopic(state, event.failure.index, { status: 'failed', detail: event.failure.error });
+  }
+}
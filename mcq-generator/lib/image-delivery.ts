@@ -0,0 +1,154 @@
+import sharp from "sharp";
+import { getStorage, getStorageConfigError } from "./storage";
+import { ImagePreprocessingConfig, preprocessImage, resolveImagePreprocessingConfig } from "./image-preprocessing";
+import { describeImagePreprocessing } from "./material-files";
+
+export type ImageDeliveryMode = "storage" | "inline";
+
+const DELIVERY_MODES: ImageDeliveryMode[] = ["storage", "inline"];
+
+export interface ImageDeliveryConfig {
+  mode: ImageDeliveryMode;
+  maxDimension: number; // Inline only: longest side after downscaling, in pixels
+  jpegQuality: number; // Inline only
+}
+
+/**
+ * Read how page images reach the model from environment variables
+ *
+ * IMAGE_DELIVERY        storage (default) - upload, hand the model a signed URL, delete afterwards
+ *                       inline - send a downscaled base64 data URL; nothing is stored
+ * INLINE_IMAGE_MAX_DIMENSION  longest side in pixels (defaults to 2048, the most "high" detail uses)
+ * INLINE_IMAGE_QUALITY  JPEG quality 1-100 (defaults to 85)
+ */
+export function resolveImageDeliveryConfig(env: NodeJS.ProcessEnv = process.env): ImageDeliveryConfig {
+  const mode = (env.IMAGE_DELIVERY || "storage").trim().toLowerCase() as ImageDeliveryMode;
+
+  if (!DELIVERY_MODES.includes(mode)) {
+    throw new Error(
+      `Unknown IMAGE_DELIVERY '${mode}'. Expected one of: ${DELIVERY_MODES.join(", ")}`
+    );
+  }
+
+  return {
+    mode,
+    maxDimension: Number(env.INLINE_IMAGE_MAX_DIMENSION) || 2048,
+    jpegQuality: Math.min(100, Math.max(1, Number(env.INLINE_IMAGE_QUALITY) || 85)),
+  };
+}
+
+/**
+ * Return a human-readable reason why images cannot be delivered, or null if they can.
+ * Inline delivery needs no storage at all.
+ */
+export function getImageDeliveryConfigError(env: NodeJS.ProcessEnv = process.env): string | null {
+  let config: ImageDeliveryConfig;
+  try {
+    config = resolveImageDeliveryConfig(env);
+    resolveImagePreprocessingConfig(env);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  return config.mode === "storage" ? getStorageConfigError(env) : null;
+}
+
+/**
+ * Shrink an image so its longest side is at most maxDimension (never enlarging) and re-encode it
+ * as JPEG, honouring EXIF rotation from phone photos
+ */
+export async function downscaleImage(
+  buffer: Buffer,
+  maxDimension: number,
+  jpegQuality: number
+): Promise<{ buffer: Buffer; contentType: string; width: number; height: number }> {
+  const { data, info } = await sharp(buffer)
+    .rotate()
+    .resize({ width: maxDimension, height: maxDimension, fit: "inside", withoutEnlargement: true })
+    .flatten({ background: "#ffffff" })
+    .jpeg({ quality: jpegQuality })
+    .toBuffer({ resolveWithObject: true });
+
+  return { buffer: data, contentType: "image/jpeg", width: info.width, height: info.height };
+}
+
+// Straighten, crop and resize the photo before it is delivered, when preprocessing is on
+async function preprocessForDelivery(
+  buffer: Buffer,
+  file: File,
+  preprocessing: ImagePreprocessingConfig
+): Promise<{ buffer: Buffer; contentType: string }> {
+  try {
+    const image = await preprocessImage(buffer, preprocessing);
+    console.log(`🪄 Preprocessed ${file.name}: ${describeImagePreprocessing(image.report)}`);
+    return image;
+  } catch (error) {
+    throw new Error(`Could not read ${file.name} as an image: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export interface ImageDelivery {
+  mode: ImageDeliveryMode;
+  deliver(buffer: Buffer, file: File): Promise<string>; // URL the model reads the image from
+  cleanup(): Promise<void>; // Delete anything stored so far; safe to call more than once
+}
+
+/**
+ * One request's image delivery: storage mode tracks the keys it uploads so cleanup() can delete them
+ */
+export function createImageDelivery(
+  config: ImageDeliveryConfig = resolveImageDeliveryConfig(),
+  preprocessing: ImagePreprocessingConfig = resolveImagePreprocessingConfig()
+): ImageDelivery {
+  if (config.mode === "inline") {
+    // Preprocessing already resizes, so it only has to respect the inline limits
+    const inlinePreprocessing = {
+      ...preprocessing,
+      maxDimension: Math.min(preprocessing.maxDimension, config.maxDimension),
+      jpegQuality: config.jpegQuality,
+    };
+
+    return {
+      mode: "inline",
+      async deliver(buffer, file) {
+        const image = preprocessing.enabled
+          ? await preprocessForDelivery(buffer, file, inlinePreprocessing)
+          : await downscaleImage(buffer, config.maxDimension, config.jpegQuality);
+        console.log(`🧬 Inlined ${file.name}: ${(buffer.length / 1024).toFixed(0)}KB → ${(image.buffer.length / 1024).toFixed(0)}KB`);
+        return `data:${image.contentType};base64,${image.buffer.toString("base64")}`;
+      },
+      async cleanup() {},
+    };
+  }
+
+  const storage = getStorage();
+  const storedKeys: string[] = [];
+
+  return {
+    mode: "storage",
+    async deliver(buffer, file) {
+      const image = preprocessing.enabled
+        ? await preprocessForDelivery(buffer, file, preprocessing)
+        : { buffer, contentType: file.type };
+      // Preprocessed images are re-encoded, so the stored name gets a matching extension
+      const name = image.contentType === file.type ? file.name : file.name.replace(/\.[^.]*$/, "") + ".jpg";
+      const key = await storage.upload(image.buffer, name, image.contentType);
+      storedKeys.push(key);
+      console.log(`✅ Uploaded image: ${key} (${(image.buffer.length / 1024 / 1024).toFixed(2)}MB)`);
+
+      // Generate signed URL for the model to fetch
+      return storage.getSignedUrl(key);
+    },
+    async cleanup() {
+      const keys = storedKeys.splice(0);
+      await Promise.allSettled(keys.map(async (key) => {
+        try {
+          await storage.delete(key);
+          console.log(`🗑️ Deleted image: ${key}`);
+        } catch (error) {
+          console.error(`❌ Failed to delete ${key}:`, error);
+        }
+      }));
+    },
+  };
+}
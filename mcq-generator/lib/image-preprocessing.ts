@@ -0,0 +1,271 @@
+import sharp from "sharp";
+import { ImagePreprocessingReport } from "./types";
+
+export interface ImagePreprocessingConfig {
+  enabled: boolean;
+  maxDimension: number; // Longest side after resizing, in pixels
+  jpegQuality: number;
+}
+
+export interface PreprocessedImage {
+  buffer: Buffer;
+  contentType: string;
+  report: ImagePreprocessingReport;
+}
+
+// Pages are measured on a small greyscale copy - plenty to find edges and text lines
+const ANALYSIS_SIZE = 800;
+
+// Photos tilted further than this are more likely diagrams or tables than skewed text
+const MAX_SKEW_DEGREES = 15;
+const MIN_SKEW_DEGREES = 0.3;
+
+/**
+ * Read the preprocessing settings from environment variables
+ *
+ * IMAGE_PREPROCESSING             on (default) | off
+ * IMAGE_PREPROCESS_MAX_DIMENSION  longest side in pixels (defaults to 2048, the most "high" detail uses)
+ * IMAGE_PREPROCESS_QUALITY        JPEG quality 1-100 (defaults to 85)
+ */
+export function resolveImagePreprocessingConfig(env: NodeJS.ProcessEnv = process.env): ImagePreprocessingConfig {
+  const setting = (env.IMAGE_PREPROCESSING || "on").trim().toLowerCase();
+
+  if (setting !== "on" && setting !== "off") {
+    throw new Error(`Unknown IMAGE_PREPROCESSING '${setting}'. Expected one of: on, off`);
+  }
+
+  return {
+    enabled: setting === "on",
+    maxDimension: Number(env.IMAGE_PREPROCESS_MAX_DIMENSION) || 2048,
+    jpegQuality: Math.min(100, Math.max(1, Number(env.IMAGE_PREPROCESS_QUALITY) || 85)),
+  };
+}
+
+interface GreyImage {
+  pixels: Buffer; // One byte per pixel, row by row
+  width: number;
+  height: number;
+}
+
+interface Region {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Grey level that best separates ink from paper (Otsu's method)
+function otsuThreshold(pixels: Buffer): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (const value of pixels) histogram[value]++;
+
+  let total = 0;
+  for (let level = 0; level < 256; level++) total += level * histogram[level];
+
+  let darkWeight = 0;
+  let darkSum = 0;
+  let bestVariance = 0;
+  let threshold = 127;
+  for (let level = 0; level < 256; level++) {
+    darkWeight += histogram[level];
+    if (darkWeight === 0) continue;
+    const lightWeight = pixels.length - darkWeight;
+    if (lightWeight === 0) break;
+
+    darkSum += level * histogram[level];
+    const meanGap = darkSum / darkWeight - (total - darkSum) / lightWeight;
+    const variance = darkWeight * lightWeight * meanGap * meanGap;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = level;
+    }
+  }
+
+  return threshold;
+}
+
+// First and last line that is mostly paper
+function paperSpan(lightCounts: number[], lineLength: number): [number, number] | null {
+  let first = -1;
+  let last = -1;
+  lightCounts.forEach((count, index) => {
+    if (count > lineLength / 2) {
+      if (first === -1) first = index;
+      last = index;
+    }
+  });
+  return first === -1 ? null : [first, last];
+}
+
+/**
+ * Find the sheet of paper against a darker background (a desk, a lap). Returns null when the page
+ * already fills the photo or no clear page stands out.
+ */
+function findPageBounds({ pixels, width, height }: GreyImage, threshold: number): Region | null {
+  const lightShare = pixels.reduce((count, value) => count + (value > threshold ? 1 : 0), 0) / pixels.length;
+  if (lightShare > 0.95 || lightShare < 0.2) return null;
+
+  const countLight = (left: number, right: number, top: number, bottom: number) => {
+    const rows = new Array<number>(height).fill(0);
+    const columns = new Array<number>(width).fill(0);
+    for (let y = top; y <= bottom; y++) {
+      for (let x = left; x <= right; x++) {
+        if (pixels[y * width + x] > threshold) {
+          rows[y]++;
+          columns[x]++;
+        }
+      }
+    }
+    return { rows, columns };
+  };
+
+  // Columns across the whole photo, then rows within those columns, then columns again within those rows
+  const columns = paperSpan(countLight(0, width - 1, 0, height - 1).columns, height);
+  if (!columns) return null;
+  const rows = paperSpan(countLight(columns[0], columns[1], 0, height - 1).rows, columns[1] - columns[0] + 1);
+  if (!rows) return null;
+  const refined = paperSpan(countLight(columns[0], columns[1], rows[0], rows[1]).columns, rows[1] - rows[0] + 1);
+  if (!refined) return null;
+
+  const margin = Math.round(Math.max(width, height) * 0.01);
+  const left = Math.max(0, refined[0] - margin);
+  const top = Math.max(0, rows[0] - margin);
+  const region = {
+    left,
+    top,
+    width: Math.min(width - 1, refined[1] + margin) - left + 1,
+    height: Math.min(height - 1, rows[1] + margin) - top + 1,
+  };
+
+  // A tiny "page" is a misreading; a page that is nearly the whole photo is not worth cropping
+  const tooSmall = region.width < width * 0.4 || region.height < height * 0.4;
+  const nearlyAll = region.width * region.height > width * height * 0.96;
+  return tooSmall || nearlyAll ? null : region;
+}
+
+/**
+ * Estimate how far lines of text slope, in degrees (positive when they run downhill to the right),
+ * by finding the angle at which rows of ink line up most sharply. Returns 0 when there is no clear
+ * line structure to go on.
+ */
+function estimateSkew({ pixels, width }: GreyImage, region: Region, threshold: number): number {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = 0; y < region.height; y++) {
+    for (let x = 0; x < region.width; x++) {
+      if (pixels[(region.top + y) * width + region.left + x] < threshold) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+  // Too little ink to read lines from, or so much that this is a photo or diagram rather than text
+  if (xs.length < 100 || xs.length > region.width * region.height * 0.4) return 0;
+
+  // Sample at most ~50k ink pixels to keep the angle search quick
+  const step = Math.max(1, Math.floor(xs.length / 50000));
+
+  const sharpness = (degrees: number) => {
+    const slope = Math.tan((degrees * Math.PI) / 180);
+    const offset = Math.ceil(Math.abs(slope) * region.width) + 1;
+    const profile = new Int32Array(region.height + 2 * offset);
+    for (let i = 0; i < xs.length; i += step) {
+      profile[Math.round(ys[i] - xs[i] * slope) + offset]++;
+    }
+    return profile.reduce((sum, count) => sum + count * count, 0);
+  };
+
+  let best = 0;
+  let bestSharpness = sharpness(0);
+  const level = bestSharpness;
+  const search = (from: number, to: number, increment: number) => {
+    for (let degrees = from; degrees <= to + 1e-9; degrees += increment) {
+      const score = sharpness(degrees);
+      if (score > bestSharpness) {
+        best = degrees;
+        bestSharpness = score;
+      }
+    }
+  };
+  search(-MAX_SKEW_DEGREES, MAX_SKEW_DEGREES, 0.5);
+  search(best - 0.5, best + 0.5, 0.1);
+
+  if (bestSharpness < level * 1.05 || Math.abs(best) < MIN_SKEW_DEGREES) return 0;
+  return Math.round(best * 10) / 10;
+}
+
+/**
+ * Clean up a photographed page before the model reads it: turn it upright from its EXIF
+ * orientation, crop away the background, straighten the text, stretch the contrast and resize
+ * it to the resolution the model actually uses, as JPEG
+ */
+export async function preprocessImage(
+  buffer: Buffer,
+  config: ImagePreprocessingConfig = resolveImagePreprocessingConfig()
+): Promise<PreprocessedImage> {
+  const metadata = await sharp(buffer).metadata();
+
+  // Step 1: Upright, with transparency flattened onto white paper
+  const upright = await sharp(buffer)
+    .rotate()
+    .flatten({ background: "#ffffff" })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const raw = { width: upright.info.width, height: upright.info.height, channels: upright.info.channels };
+
+  // Step 2: Find the page and the slope of its text on a small greyscale copy
+  const analysis = await sharp(upright.data, { raw })
+    .resize({ width: ANALYSIS_SIZE, height: ANALYSIS_SIZE, fit: "inside", withoutEnlargement: true })
+    .greyscale()
+    .extractChannel(0)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const grey: GreyImage = { pixels: analysis.data, width: analysis.info.width, height: analysis.info.height };
+  const threshold = otsuThreshold(grey.pixels);
+
+  const page = findPageBounds(grey, threshold);
+  const skew = estimateSkew(grey, page ?? { left: 0, top: 0, width: grey.width, height: grey.height }, threshold);
+
+  // Step 3: Crop and straighten at full resolution
+  let straightened = sharp(upright.data, { raw });
+  if (page) {
+    const scale = raw.width / grey.width;
+    const left = Math.floor(page.left * scale);
+    const top = Math.floor(page.top * scale);
+    straightened = straightened.extract({
+      left,
+      top,
+      width: Math.min(raw.width - left, Math.ceil(page.width * scale)),
+      height: Math.min(raw.height - top, Math.ceil(page.height * scale)),
+    });
+  }
+  if (skew !== 0) {
+    straightened = straightened.rotate(-skew, { background: "#ffffff" });
+  }
+  const cleaned = await straightened.raw().toBuffer({ resolveWithObject: true });
+
+  // Step 4: Stretch the contrast (faint pencil, grey lighting) and resize for the model
+  const { data, info } = await sharp(cleaned.data, {
+    raw: { width: cleaned.info.width, height: cleaned.info.height, channels: cleaned.info.channels },
+  })
+    .normalise({ lower: 1, upper: 99 })
+    .resize({ width: config.maxDimension, height: config.maxDimension, fit: "inside", withoutEnlargement: true })
+    .jpeg({ quality: config.jpegQuality })
+    .toBuffer({ resolveWithObject: true });
+
+  return {
+    buffer: data,
+    contentType: "image/jpeg",
+    report: {
+      autoRotated: (metadata.orientation ?? 1) !== 1,
+      deskewAngle: -skew,
+      cropped: page !== null,
+      originalWidth: raw.width,
+      originalHeight: raw.height,
+      width: info.width,
+      height: info.height,
+      originalBytes: buffer.length,
+      bytes: data.length,
+    },
+  };
+}
@@ -0,0 +1,250 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { DEFAULT_OPTION_COUNT, optionLetters } from "./question-types";
+
+/**
+ * Pipeline steps that call the model - the mock provider answers each one from a fixture
+ */
+export type LLMTask =
+  | "structured-questions"
+  | "mini-quiz"
+  | "practice-quiz"
+  | "retrieval-topic"
+  | "retrieval-question"
+  | "extract-questions"
+  | "text-extraction"
+  | "grounding-check"
+  | "distractor-review"
+  | "ao-classification"
+  | "map-question";
+
+type FixtureVariables = Record<string, string | number>;
+
+function numberVar(variables: FixtureVariables, key: string, fallback: number): number {
+  const value = Number(variables[key]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// questionTypes is the per-question type plan joined with "|"
+function questionTypesVar(variables: FixtureVariables, count: number, fallback: string): string[] {
+  const planned = variables.questionTypes ? String(variables.questionTypes).split("|") : [];
+  return Array.from({ length: count }, (_, i) => planned[i] || fallback);
+}
+
+// optionCount is the options per MCQ (4 when not given)
+function optionLettersVar(variables: FixtureVariables): string[] {
+  return optionLetters(numberVar(variables, "optionCount", DEFAULT_OPTION_COUNT));
+}
+
+// correctLetter may list several letters for a multi-select question, e.g. "a,c"
+function mockOptions(questionNumber: number, correctLetter: string, letters: string[]): string[] {
+  const correctLetters = correctLetter.split(",");
+  return letters.map((optionLetter) => {
+    if (!correctLetters.includes(optionLetter)) return `Distractor ${optionLetter.toUpperCase()} for question ${questionNumber}`;
+    return correctLetters.length > 1
+      ? `Correct answer ${optionLetter.toUpperCase()} to question ${questionNumber}`
+      : `Correct answer to question ${questionNumber}`;
+  });
+}
+
+// Two letters two apart, e.g. "a,c" - distinct for any option count of 3 or more
+function mockMultiSelectAnswer(index: number, letters: string[]): string {
+  return [letters[index % letters.length], letters[(index + 2) % letters.length]].sort().join(",");
+}
+
+// Built-in fixtures: shaped exactly like the JSON each prompt asks the model for
+const BUILT_IN_FIXTURES: Record<LLMTask, (variables: FixtureVariables) => unknown> = {
+  "structured-questions": () => ({
+    questions: Array.from({ length: 5 }, (_, i) => ({
+      text: `Mock question ${i + 1}?`,
+      type: "MULTIPLE_CHOICE",
+      options: ["Mock option A", "Mock option B", "Mock option C", "Mock option D"],
+      correctAnswer: i % 4,
+      maxMarks: 1,
+    })),
+  }),
+
+  "retrieval-topic": (variables) => {
+    const topicName = String(variables.topicName ?? "Mock Topic");
+    const questionCount = numberVar(variables, "questionCount", 10);
+    const types = questionTypesVar(variables, questionCount, "MULTIPLE_CHOICE");
+    const letters = optionLettersVar(variables);
+
+    // Rotating through the letters never repeats one back to back and stays evenly spread
+    let mcqIndex = 0;
+    const answerKey = types.map((type, i) => {
+      if (type === "MULTIPLE_CHOICE") return letters[mcqIndex++ % letters.length];
+      if (type === "MULTI_SELECT") return mockMultiSelectAnswer(i, letters);
+      if (type === "TRUE_FALSE") return i % 2 === 0 ? "true" : "false";
+      return "-";
+    });
+
+    return {
+      name: topicName,
+      questions: types.map((type, i) => {
+        const question = `${topicName}: mock question ${i + 1}?`;
+        if (type === "MULTIPLE_CHOICE") return { question, options: mockOptions(i + 1, answerKey[i], letters) };
+        if (type === "MULTI_SELECT") return { question, type, options: mockOptions(i + 1, answerKey[i], letters) };
+        if (type === "TRUE_FALSE") return { question, type };
+        return { question, type, markPoints: [`Mock mark point for question ${i + 1}`] };
+      }),
+      answer_key: answerKey,
+    };
+  },
+
+  "retrieval-question": (variables) => {
+    const topicName = String(variables.topicName ?? "Mock Topic");
+    const type = String(variables.questionType ?? "MULTIPLE_CHOICE");
+    const question = `${topicName}: regenerated mock question?`;
+
+    if (type === "MULTIPLE_CHOICE") return { question, options: mockOptions(1, "a", optionLettersVar(variables)), answer: "a" };
+    if (type === "MULTI_SELECT") return { question, type, options: mockOptions(1, "a,c", optionLettersVar(variables)), answer: "a,c" };
+    if (type === "TRUE_FALSE") return { question, type, answer: "true" };
+    return { question, type, markPoints: ["Mock mark point for the regenerated question"], answer: "-" };
+  },
+
+  "mini-quiz": (variables) => {
+    const ao1Count = numberVar(variables, "ao1Count", 10);
+    const ao2Count = numberVar(variables, "ao2Count", 6);
+    const ao3Count = numberVar(variables, "ao3Count", 3);
+    const total = ao1Count + ao2Count + ao3Count;
+    const types = questionTypesVar(variables, total, "SHORT_ANSWER");
+    const letters = optionLettersVar(variables);
+
+    const aoFor = (index: number) =>
+      index < ao1Count ? "AO1" : index < ao1Count + ao2Count ? "AO2" : "AO3";
+    const schemeFor = (ao: string) =>
+      Array.from({ length: total }, (_, i) => i)
+        .filter((i) => aoFor(i) === ao)
+        .map((i) => ({
+          questionNumber: i + 1,
+          markPoints: ao === "AO1"
+            ? [`Mock mark point for question ${i + 1}`]
+            : [`Mock mark point for question ${i + 1}`, "*Mock explanation of the reasoning.*"],
+        }));
+
+    return {
+      topicName: "Mock Topic",
+      questions: types.map((type, i) => ({
+        text: `Mock ${aoFor(i)} question ${i + 1}?`,
+        type,
+        ...(type === "MULTIPLE_CHOICE" && { options: mockOptions(i + 1, letters[i % letters.length], letters), answer: letters[i % letters.length] }),
+        ...(type === "MULTI_SELECT" && { options: mockOptions(i + 1, mockMultiSelectAnswer(i, letters), letters), answer: mockMultiSelectAnswer(i, letters) }),
+        ...(type === "TRUE_FALSE" && { answer: i % 2 === 0 ? "true" : "false" }),
+        maxMarks: aoFor(i) === "AO1" ? 1 : 2,
+        aoLevel: aoFor(i),
+      })),
+      markScheme: {
+        ao1: schemeFor("AO1"),
+        ao2: schemeFor("AO2"),
+        ao3: schemeFor("AO3"),
+      },
+    };
+  },
+
+  "practice-quiz": (variables) => {
+    const sections = String(variables.sectionLabels ?? "Questions").split("|");
+    const questionCount = numberVar(variables, "questionCount", 12);
+    const maxMarks = numberVar(variables, "marksPerQuestion", 3);
+    const perSection = Math.ceil(questionCount / sections.length);
+
+    return {
+      topicName: "Mock Topic",
+      questions: Array.from({ length: questionCount }, (_, i) => ({
+        text: `Mock practice question ${i + 1}?`,
+        section: sections[Math.min(Math.floor(i / perSection), sections.length - 1)],
+        maxMarks,
+        markPoints: Array.from({ length: maxMarks }, (_, p) => `Mock mark point ${p + 1} for question ${i + 1}`),
+      })),
+    };
+  },
+
+  "extract-questions": () => ({
+    questions: [
+      { question_id: "Q1a", text: "Mock extracted question 1a. (1)", mark_scheme: "Mock marking point 1" },
+      { question_id: "Q1b", text: "Mock extracted question 1b. (2)", mark_scheme: "Mock marking point 1; mock marking point 2" },
+      { question_id: "Q2", text: "Mock extracted question 2. (3)", mark_scheme: "Mock marking points 1-3" },
+    ],
+  }),
+
+  "text-extraction": () => ({
+    extractedText: "Mock Topic\nMock revision guide text, clearly printed.",
+    extractionPercentage: 95,
+    unclearAreas: [],
+    confidence: "high",
+    totalWords: 8,
+    readabilityScore: "good",
+  }),
+
+  "grounding-check": (variables) => ({
+    questions: Array.from({ length: numberVar(variables, "questionCount", 10) }, (_, i) => ({
+      questionNumber: i + 1,
+      support: "supported",
+      score: 90,
+      snippet: "Mock revision guide text, clearly printed.",
+      unsupportedClaims: [],
+    })),
+  }),
+
+  // questionNumbers lists the reviewed MCQs joined with "|"
+  "distractor-review": (variables) => ({
+    questions: String(variables.questionNumbers ?? "").split("|").filter(Boolean).map((questionNumber) => ({
+      questionNumber: Number(questionNumber),
+      alsoCorrect: [],
+      contradictsStem: [],
+    })),
+  }),
+
+  // questionNumbers and aoLevels list the audited questions and their slots, joined with "|"
+  "ao-classification": (variables) => {
+    const aoLevels = String(variables.aoLevels ?? "").split("|");
+    return {
+      questions: String(variables.questionNumbers ?? "").split("|").filter(Boolean).map((questionNumber, i) => ({
+        questionNumber: Number(questionNumber),
+        aoLevel: aoLevels[i] || "AO1",
+        reason: "Mock classification matching the intended level.",
+      })),
+    };
+  },
+
+  "map-question": (variables) => ({
+    question_id: String(variables.questionId ?? "mock"),
+    primary_topic: variables.topicCode ? String(variables.topicCode) : null,
+    topic_name: String(variables.topicName ?? ""),
+    secondary_topic: null,
+    reason: "Mock mapping to the first available topic.",
+    needs_review: false,
+    review_reason: null,
+  }),
+};
+
+/**
+ * Replace {{name}} placeholders in a fixture file with JSON-safe variable values
+ */
+function fillPlaceholders(raw: string, variables: FixtureVariables): string {
+  return raw.replace(/\{\{(\w+)\}\}/g, (match, key: string) =>
+    key in variables ? JSON.stringify(String(variables[key])).slice(1, -1) : match
+  );
+}
+
+/**
+ * Return the mock model output for a task.
+ * A <task>.json file in fixturesDir wins over the built-in fixture.
+ */
+export async function loadMockResponse(
+  task: LLMTask,
+  variables: FixtureVariables = {},
+  fixturesDir?: string
+): Promise<string> {
+  if (fixturesDir) {
+    const filePath = path.join(fixturesDir, `${task}.json`);
+    try {
+      const raw = await readFile(filePath, "utf8");
+      return fillPlaceholders(raw, variables);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+  }
+
+  return JSON.stringify(BUILT_IN_FIXTURES[task](variables));
+}
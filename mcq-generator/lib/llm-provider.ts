@@ -0,0 +1,158 @@
+import OpenAI from "openai";
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { LLMTask, loadMockResponse } from "./llm-fixtures";
+
+export type LLMProviderName = "openai" | "openai-compatible" | "mock";
+
+const PROVIDER_NAMES: LLMProviderName[] = ["openai", "openai-compatible", "mock"];
+const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_MODEL = "gpt-4o";
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  model: string;
+  apiKey?: string;
+  baseURL?: string;
+  fixturesDir?: string; // Directory of <task>.json files overriding the built-in mock fixtures
+}
+
+export interface LLMCompletionRequest {
+  task: LLMTask; // Pipeline step making the call - lets the mock pick a fixture
+  messages: ChatCompletionMessageParam[];
+  jsonMode?: boolean;
+  temperature?: number;
+  maxTokens?: number;
+  variables?: Record<string, string | number>; // Values substituted into mock fixtures (e.g. topicName)
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  model: string;
+  complete(request: LLMCompletionRequest): Promise<string>;
+}
+
+/**
+ * Read the LLM configuration from environment variables
+ *
+ * LLM_PROVIDER      openai (default) | openai-compatible | mock
+ * LLM_MODEL         model name (defaults to gpt-4o)
+ * LLM_BASE_URL      base URL for openai-compatible servers (Ollama, vLLM, ...)
+ * LLM_API_KEY       API key (falls back to OPENAI_API_KEY)
+ * LLM_MOCK_FIXTURES_DIR  optional fixture overrides for the mock provider
+ */
+export function resolveLLMConfig(env: NodeJS.ProcessEnv = process.env): LLMConfig {
+  const provider = (env.LLM_PROVIDER || "openai").trim().toLowerCase() as LLMProviderName;
+
+  if (!PROVIDER_NAMES.includes(provider)) {
+    throw new Error(
+      `Unknown LLM_PROVIDER '${provider}'. Expected one of: ${PROVIDER_NAMES.join(", ")}`
+    );
+  }
+
+  return {
+    provider,
+    model: env.LLM_MODEL || DEFAULT_MODEL,
+    apiKey: env.LLM_API_KEY || env.OPENAI_API_KEY,
+    baseURL: provider === "openai" ? env.LLM_BASE_URL || DEFAULT_OPENAI_BASE_URL : env.LLM_BASE_URL,
+    fixturesDir: env.LLM_MOCK_FIXTURES_DIR,
+  };
+}
+
+/**
+ * Return a human-readable reason why the configured provider cannot run, or null if it can
+ */
+export function getLLMConfigError(env: NodeJS.ProcessEnv = process.env): string | null {
+  let config: LLMConfig;
+  try {
+    config = resolveLLMConfig(env);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  if (config.provider === "openai" && !config.apiKey) {
+    return "OpenAI API key not configured";
+  }
+
+  if (config.provider === "openai-compatible" && !config.baseURL) {
+    return "LLM_BASE_URL must be set when LLM_PROVIDER is openai-compatible";
+  }
+
+  return null;
+}
+
+/**
+ * Provider backed by the OpenAI SDK - used for OpenAI itself and any compatible server
+ */
+function createOpenAIProvider(config: LLMConfig): LLMProvider {
+  const client = new OpenAI({
+    // Local servers usually ignore the key, but the SDK refuses to start without one
+    apiKey: config.apiKey || "not-needed",
+    baseURL: config.baseURL,
+  });
+
+  return {
+    name: config.provider,
+    model: config.model,
+    async complete({ messages, jsonMode, temperature, maxTokens }) {
+      const response = await client.chat.completions.create({
+        model: config.model,
+        messages,
+        ...(jsonMode && { response_format: { type: "json_object" as const } }),
+        ...(temperature !== undefined && { temperature }),
+        ...(maxTokens !== undefined && { max_tokens: maxTokens }),
+      });
+
+      const content = response.choices[0]?.message.content;
+      if (!content) throw new Error(`No content returned from ${config.provider} response.`);
+
+      return content;
+    },
+  };
+}
+
+/**
+ * Deterministic offline provider - answers every call from fixtures, never touches the network
+ */
+function createMockProvider(config: LLMConfig): LLMProvider {
+  return {
+    name: "mock",
+    model: config.model,
+    async complete({ task, variables }) {
+      return loadMockResponse(task, variables, config.fixturesDir);
+    },
+  };
+}
+
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+  switch (config.provider) {
+    case "mock":
+      return createMockProvider(config);
+    case "openai":
+    case "openai-compatible":
+      return createOpenAIProvider(config);
+  }
+}
+
+let cachedProvider: LLMProvider | null = null;
+
+/**
+ * Get the provider selected by the environment (created once per server process)
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!cachedProvider) {
+    const configError = getLLMConfigError();
+    if (configError) throw new Error(configError);
+
+    cachedProvider = createLLMProvider(resolveLLMConfig());
+    console.log(`🤖 LLM provider: ${cachedProvider.name} (${cachedProvider.model})`);
+  }
+
+  return cachedProvider;
+}
+
+/**
+ * Strip markdown code fences some models wrap around JSON output
+ */
+export function stripJsonFences(content: string): string {
+  return content.trim().replace(/```json\n?/g, '').replace(/```\n?/g, '');
+}
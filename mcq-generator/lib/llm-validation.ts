@@ -0,0 +1,749 @@
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { LLMCompletionRequest, LLMProvider, stripJsonFences } from "./llm-provider";
+import { QuestionType } from "./types";
+import { getPracticeQuestionCount, PracticeQuizSpec } from "./practice-quiz";
+import {
+  DEFAULT_OPTION_COUNT,
+  hasOptions,
+  MULTI_SELECT_ANSWER_COUNT,
+  optionLetter,
+  optionLetters,
+  parseOptionLetters,
+  QUESTION_TYPE_LABELS,
+  QUESTION_TYPES,
+} from "./question-types";
+
+export const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+const TRUE_FALSE_ANSWERS = ["true", "false"];
+const WRITTEN_ANSWER_KEY = "-";
+const AO_LEVELS = ["AO1", "AO2", "AO3", "REFLECTION"];
+
+export interface ValidationResult {
+  isValid: boolean;
+  errors: string[];
+}
+
+/**
+ * Thrown when the model keeps returning output that fails validation after every repair attempt
+ */
+export class LLMValidationError extends Error {
+  constructor(
+    public readonly task: string,
+    public readonly attempts: number,
+    public readonly errors: string[],
+    public readonly lastResponse: string
+  ) {
+    super(`Model response for ${task} failed validation after ${attempts} attempt(s): ${errors.slice(0, 3).join("; ")}`);
+    this.name = "LLMValidationError";
+  }
+}
+
+// ============================================================================
+// FIELD HELPERS
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+function result(errors: string[]): ValidationResult {
+  return { isValid: errors.length === 0, errors };
+}
+
+/**
+ * Report options that repeat another option once case and surrounding whitespace are ignored
+ */
+function findDuplicateOptions(options: unknown[], path: string): string[] {
+  const errors: string[] = [];
+  const seen = new Map<string, number>();
+
+  options.forEach((option, index) => {
+    if (typeof option !== "string") return;
+    const normalized = option.trim().toLowerCase();
+    const firstIndex = seen.get(normalized);
+    if (firstIndex !== undefined) {
+      errors.push(`${path}: option ${index + 1} duplicates option ${firstIndex + 1} ('${option}')`);
+    } else {
+      seen.set(normalized, index);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Check the options of a multiple-choice question: the right number, non-empty, no duplicates
+ */
+function validateOptions(options: unknown, optionCount: number, path: string): string[] {
+  if (!Array.isArray(options)) {
+    return [`${path}: 'options' must be an array`];
+  }
+
+  const errors: string[] = [];
+  if (options.length !== optionCount) {
+    errors.push(`${path}: must have exactly ${optionCount} options, got ${options.length}`);
+  }
+  options.forEach((option: unknown, optIndex: number) => {
+    if (!isNonEmptyString(option)) {
+      errors.push(`${path}: option ${optIndex + 1} must be a non-empty string`);
+    }
+  });
+  errors.push(...findDuplicateOptions(options, path));
+
+  return errors;
+}
+
+/**
+ * Check the model declared the planned type (multiple choice may leave it out)
+ */
+function validateDeclaredType(declared: unknown, expected: QuestionType, path: string): string[] {
+  if (declared === undefined && expected === "MULTIPLE_CHOICE") return [];
+  if (declared === expected) return [];
+  return [`${path}: must be a ${QUESTION_TYPE_LABELS[expected].toLowerCase()} question with 'type' "${expected}", got '${String(declared)}'`];
+}
+
+/**
+ * Valid answer values for one question of the given type
+ */
+function allowedAnswers(type: QuestionType, optionCount: number): string[] {
+  if (type === "MULTIPLE_CHOICE") return optionLetters(optionCount);
+  if (type === "TRUE_FALSE") return TRUE_FALSE_ANSWERS;
+  return [WRITTEN_ANSWER_KEY];
+}
+
+/**
+ * Check one answer or answer-key entry; multi-select answers list their letters, e.g. "a,c"
+ */
+function validateAnswerValue(answer: unknown, type: QuestionType, optionCount: number, label: string): string[] {
+  if (type === "MULTI_SELECT") {
+    const indices = typeof answer === "string" ? parseOptionLetters(answer) : [];
+    const valid = indices.length === MULTI_SELECT_ANSWER_COUNT &&
+      new Set(indices).size === indices.length &&
+      indices.every((index) => index >= 0 && index < optionCount);
+    return valid
+      ? []
+      : [`${label} must be ${MULTI_SELECT_ANSWER_COUNT} different letters from ${optionLetters(optionCount).join(", ")} separated by a comma, e.g. "a,c", got '${String(answer)}'`];
+  }
+
+  const allowed = allowedAnswers(type, optionCount);
+  if (typeof answer !== "string" || !allowed.includes(answer.toLowerCase())) {
+    return [`${label} must be one of ${allowed.join(", ")}, got '${String(answer)}'`];
+  }
+  return [];
+}
+
+/**
+ * Check one retrieval question object: its text, declared type, and options or mark points
+ */
+function validateRetrievalQuestionFields(
+  question: Record<string, unknown>,
+  type: QuestionType,
+  optionCount: number,
+  path: string
+): string[] {
+  const errors: string[] = [];
+
+  if (!isNonEmptyString(question.question)) {
+    errors.push(`${path}: 'question' must be a non-empty string`);
+  }
+
+  errors.push(...validateDeclaredType(question.type, type, path));
+  if (hasOptions(type)) {
+    errors.push(...validateOptions(question.options, optionCount, path));
+  } else if (
+    (type === "SHORT_ANSWER" || type === "LONG_ANSWER") &&
+    (!Array.isArray(question.markPoints) || question.markPoints.length === 0 || !question.markPoints.every(isNonEmptyString))
+  ) {
+    errors.push(`${path}: 'markPoints' must be a non-empty array of strings`);
+  }
+
+  return errors;
+}
+
+// ============================================================================
+// SCHEMAS
+// ============================================================================
+
+/**
+ * Validate one retrieval topic: {name, questions[{question, options}], answer_key}
+ * (questionTypes gives the planned type per question; all multiple choice when omitted)
+ */
+export function validateRetrievalTopic(
+  data: unknown,
+  expected: { questionCount: number; optionCount?: number; questionTypes?: QuestionType[] }
+): ValidationResult {
+  const errors: string[] = [];
+  const optionCount = expected.optionCount ?? DEFAULT_OPTION_COUNT;
+  const typeAt = (index: number): QuestionType => expected.questionTypes?.[index] ?? "MULTIPLE_CHOICE";
+
+  if (!isRecord(data)) return result(["Response must be a JSON object"]);
+
+  if (!isNonEmptyString(data.name)) {
+    errors.push("'name' must be a non-empty string");
+  }
+
+  if (!Array.isArray(data.questions)) {
+    errors.push("'questions' must be an array");
+  } else {
+    if (data.questions.length !== expected.questionCount) {
+      errors.push(`Expected exactly ${expected.questionCount} questions, got ${data.questions.length}`);
+    }
+
+    data.questions.forEach((question: unknown, index: number) => {
+      const path = `Question ${index + 1}`;
+      if (!isRecord(question)) {
+        errors.push(`${path}: must be an object`);
+        return;
+      }
+      errors.push(...validateRetrievalQuestionFields(question, typeAt(index), optionCount, path));
+    });
+  }
+
+  if (!Array.isArray(data.answer_key)) {
+    errors.push("'answer_key' must be an array of letters");
+  } else {
+    if (data.answer_key.length !== expected.questionCount) {
+      errors.push(`'answer_key' must have exactly ${expected.questionCount} letters, got ${data.answer_key.length}`);
+    }
+    data.answer_key.forEach((letter: unknown, index: number) => {
+      errors.push(...validateAnswerValue(letter, typeAt(index), optionCount, `'answer_key' entry ${index + 1}`));
+    });
+  }
+
+  return result(errors);
+}
+
+/**
+ * Validate one regenerated retrieval question: {question, options?, markPoints?, answer}
+ */
+export function validateRetrievalQuestion(
+  data: unknown,
+  expected: { questionType: QuestionType; optionCount?: number }
+): ValidationResult {
+  const optionCount = expected.optionCount ?? DEFAULT_OPTION_COUNT;
+  if (!isRecord(data)) return result(["Response must be a JSON object"]);
+
+  const errors = validateRetrievalQuestionFields(data, expected.questionType, optionCount, "Question");
+  errors.push(...validateAnswerValue(data.answer, expected.questionType, optionCount, "'answer'"));
+
+  return result(errors);
+}
+
+/**
+ * Validate a mini quiz: questions plus an ao1/ao2/ao3 mark scheme covering every question
+ */
+export function validateMiniQuiz(
+  data: unknown,
+  expected: { totalQuestions: number; optionCount?: number; questionTypes?: QuestionType[] }
+): ValidationResult {
+  const errors: string[] = [];
+  const optionCount = expected.optionCount ?? DEFAULT_OPTION_COUNT;
+
+  if (!isRecord(data)) return result(["Response must be a JSON object"]);
+
+  if (!isNonEmptyString(data.topicName)) {
+    errors.push("'topicName' must be a non-empty string");
+  }
+
+  if (!Array.isArray(data.questions)) {
+    errors.push("'questions' must be an array");
+  } else {
+    if (data.questions.length !== expected.totalQuestions) {
+      errors.push(`Expected exactly ${expected.totalQuestions} questions, got ${data.questions.length}`);
+    }
+    data.questions.forEach((question: unknown, index: number) => {
+      const path = `Question ${index + 1}`;
+      if (!isRecord(question) || !isNonEmptyString(question.text)) {
+        errors.push(`${path}: 'text' must be a non-empty string`);
+        return;
+      }
+      if (question.aoLevel !== undefined && !AO_LEVELS.includes(question.aoLevel as string)) {
+        errors.push(`${path}: invalid aoLevel '${String(question.aoLevel)}'`);
+      }
+      if (question.maxMarks !== undefined && (typeof question.maxMarks !== "number" || question.maxMarks < 1)) {
+        errors.push(`${path}: 'maxMarks' must be a positive number`);
+      }
+
+      const type = expected.questionTypes?.[index];
+      if (!type) return;
+      if (question.type !== type) {
+        errors.push(`${path}: must be a ${QUESTION_TYPE_LABELS[type].toLowerCase()} question with 'type' "${type}", got '${String(question.type)}'`);
+      }
+      if (hasOptions(type)) {
+        errors.push(...validateOptions(question.options, optionCount, path));
+      }
+      if (hasOptions(type) || type === "TRUE_FALSE") {
+        errors.push(...validateAnswerValue(question.answer, type, optionCount, `${path}: 'answer'`));
+      }
+    });
+  }
+
+  if (!isRecord(data.markScheme)) {
+    errors.push("'markScheme' must be an object with ao1, ao2 and ao3 arrays");
+    return result(errors);
+  }
+
+  const covered = new Set<number>();
+  for (const section of ["ao1", "ao2", "ao3"]) {
+    const entries = data.markScheme[section];
+    if (!Array.isArray(entries)) {
+      errors.push(`'markScheme.${section}' must be an array`);
+      continue;
+    }
+    entries.forEach((entry: unknown, index: number) => {
+      const path = `markScheme.${section}[${index}]`;
+      if (!isRecord(entry)) {
+        errors.push(`${path}: must be an object`);
+        return;
+      }
+      const questionNumber = entry.questionNumber;
+      if (
+        typeof questionNumber !== "number" ||
+        !Number.isInteger(questionNumber) ||
+        questionNumber < 1 ||
+        questionNumber > expected.totalQuestions
+      ) {
+        errors.push(`${path}: 'questionNumber' must be an integer from 1 to ${expected.totalQuestions}`);
+      } else {
+        covered.add(questionNumber);
+      }
+      if (
+        !Array.isArray(entry.markPoints) ||
+        entry.markPoints.length === 0 ||
+        !entry.markPoints.every(isNonEmptyString)
+      ) {
+        errors.push(`${path}: 'markPoints' must be a non-empty array of strings`);
+      }
+    });
+  }
+
+  const missing: number[] = [];
+  for (let n = 1; n <= expected.totalQuestions; n++) {
+    if (!covered.has(n)) missing.push(n);
+  }
+  if (missing.length > 0) {
+    errors.push(`Mark scheme is missing questions: ${missing.join(", ")}`);
+  }
+
+  return result(errors);
+}
+
+/**
+ * Validate a practice quiz (assignment, application, marks-per-point, specific) against its spec
+ */
+export function validatePracticeQuiz(data: unknown, spec: PracticeQuizSpec): ValidationResult {
+  const errors: string[] = [];
+  const totalQuestions = getPracticeQuestionCount(spec);
+
+  if (!isRecord(data)) return result(["Response must be a JSON object"]);
+
+  if (!isNonEmptyString(data.topicName)) {
+    errors.push("'topicName' must be a non-empty string");
+  }
+
+  if (!Array.isArray(data.questions)) {
+    errors.push("'questions' must be an array");
+    return result(errors);
+  }
+
+  if (data.questions.length !== totalQuestions) {
+    errors.push(`Expected exactly ${totalQuestions} questions, got ${data.questions.length}`);
+  }
+
+  const sectionCounts = new Map<string, number>();
+  let totalMarks = 0;
+
+  data.questions.forEach((question: unknown, index: number) => {
+    const path = `Question ${index + 1}`;
+    if (!isRecord(question)) {
+      errors.push(`${path}: must be an object`);
+      return;
+    }
+    if (!isNonEmptyString(question.text)) {
+      errors.push(`${path}: 'text' must be a non-empty string`);
+    }
+
+    const section = spec.sections.find((s) => s.label === question.section);
+    if (!section) {
+      errors.push(`${path}: 'section' must be one of ${spec.sections.map((s) => `"${s.label}"`).join(", ")}`);
+    } else {
+      sectionCounts.set(section.label, (sectionCounts.get(section.label) ?? 0) + 1);
+    }
+
+    const maxMarks = question.maxMarks;
+    if (typeof maxMarks !== "number" || !Number.isInteger(maxMarks)) {
+      errors.push(`${path}: 'maxMarks' must be a whole number`);
+    } else {
+      totalMarks += maxMarks;
+      if (section && (maxMarks < section.minMarks || maxMarks > section.maxMarks)) {
+        errors.push(`${path}: '${section.label}' questions are worth ${section.minMarks}–${section.maxMarks} marks, got ${maxMarks}`);
+      }
+    }
+
+    if (
+      !Array.isArray(question.markPoints) ||
+      question.markPoints.length === 0 ||
+      !question.markPoints.every(isNonEmptyString)
+    ) {
+      errors.push(`${path}: 'markPoints' must be a non-empty array of strings`);
+    } else if (spec.onePointPerMark && typeof maxMarks === "number") {
+      const creditPoints = question.markPoints.filter((point: string) => !point.trim().startsWith("*"));
+      if (creditPoints.length !== maxMarks) {
+        errors.push(`${path}: needs exactly one mark point per mark (${maxMarks}), got ${creditPoints.length}`);
+      }
+    }
+  });
+
+  spec.sections.forEach((section) => {
+    const count = sectionCounts.get(section.label) ?? 0;
+    if (count !== section.count) {
+      errors.push(`Section '${section.label}' must have ${section.count} questions, got ${count}`);
+    }
+  });
+
+  if (spec.totalMarks !== undefined && totalMarks !== spec.totalMarks) {
+    errors.push(`Marks must total exactly ${spec.totalMarks}, got ${totalMarks}`);
+  }
+
+  return result(errors);
+}
+
+/**
+ * Locate the questions array in an extraction response.
+ * Accepts a bare array, {questions: [...]}, or the first array-valued field.
+ */
+export function findQuestionsArray(data: unknown): unknown[] | null {
+  if (Array.isArray(data)) return data;
+  if (!isRecord(data)) return null;
+  if (Array.isArray(data.questions)) return data.questions;
+  return (Object.values(data).find((value) => Array.isArray(value)) as unknown[]) ?? null;
+}
+
+/**
+ * Validate past-paper extraction output: [{question_id, text, mark_scheme}]
+ */
+export function validateExtractedQuestions(data: unknown): ValidationResult {
+  const errors: string[] = [];
+  const questions = findQuestionsArray(data);
+
+  if (!questions || questions.length === 0) {
+    return result(["Response must contain a non-empty 'questions' array"]);
+  }
+
+  const seenIds = new Set<string>();
+  questions.forEach((question: unknown, index: number) => {
+    const path = `Question ${index + 1}`;
+    if (!isRecord(question)) {
+      errors.push(`${path}: must be an object`);
+      return;
+    }
+    if (!isNonEmptyString(question.question_id)) {
+      errors.push(`${path}: 'question_id' must be a non-empty string`);
+    } else if (seenIds.has(question.question_id.trim())) {
+      errors.push(`${path}: duplicate question_id '${question.question_id}'`);
+    } else {
+      seenIds.add(question.question_id.trim());
+    }
+    if (!isNonEmptyString(question.text)) {
+      errors.push(`${path}: 'text' must be a non-empty string`);
+    }
+    if (typeof question.mark_scheme !== "string") {
+      errors.push(`${path}: 'mark_scheme' must be a string`);
+    }
+  });
+
+  return result(errors);
+}
+
+const CONFIDENCE_LEVELS = ["high", "medium", "low"];
+const READABILITY_SCORES = ["excellent", "good", "fair", "poor"];
+
+/**
+ * Validate a page's text extraction and readability assessment
+ */
+export function validateTextExtraction(data: unknown): ValidationResult {
+  if (!isRecord(data)) return result(["Response must be a JSON object"]);
+  const errors: string[] = [];
+
+  if (typeof data.extractedText !== "string") {
+    errors.push("'extractedText' must be a string");
+  }
+  const percentage = data.extractionPercentage;
+  if (typeof percentage !== "number" || percentage < 0 || percentage > 100) {
+    errors.push("'extractionPercentage' must be a number from 0 to 100");
+  }
+  if (!Array.isArray(data.unclearAreas) || !data.unclearAreas.every((area) => typeof area === "string")) {
+    errors.push("'unclearAreas' must be an array of strings");
+  }
+  if (!CONFIDENCE_LEVELS.includes(data.confidence as string)) {
+    errors.push(`'confidence' must be one of ${CONFIDENCE_LEVELS.join(", ")}`);
+  }
+  if (typeof data.totalWords !== "number" || !Number.isInteger(data.totalWords) || data.totalWords < 0) {
+    errors.push("'totalWords' must be a whole number");
+  }
+  if (!READABILITY_SCORES.includes(data.readabilityScore as string)) {
+    errors.push(`'readabilityScore' must be one of ${READABILITY_SCORES.join(", ")}`);
+  }
+
+  return result(errors);
+}
+
+const GROUNDING_SUPPORT = ["supported", "partial", "unsupported"];
+
+/**
+ * Validate a source-grounding check: one verdict per question, numbered 1..questionCount
+ */
+export function validateGroundingCheck(data: unknown, questionCount: number): ValidationResult {
+  if (!isRecord(data) || !Array.isArray(data.questions)) {
+    return result(["Response must be an object with a 'questions' array"]);
+  }
+  const errors: string[] = [];
+
+  if (data.questions.length !== questionCount) {
+    errors.push(`Expected ${questionCount} verdicts, got ${data.questions.length}`);
+  }
+
+  const seen = new Set<number>();
+  data.questions.forEach((verdict: unknown, index: number) => {
+    const path = `Verdict ${index + 1}`;
+    if (!isRecord(verdict)) {
+      errors.push(`${path}: must be an object`);
+      return;
+    }
+    const number = verdict.questionNumber;
+    if (typeof number !== "number" || !Number.isInteger(number) || number < 1 || number > questionCount) {
+      errors.push(`${path}: 'questionNumber' must be a whole number from 1 to ${questionCount}`);
+    } else if (seen.has(number)) {
+      errors.push(`${path}: duplicate questionNumber ${number}`);
+    } else {
+      seen.add(number);
+    }
+    if (!GROUNDING_SUPPORT.includes(verdict.support as string)) {
+      errors.push(`${path}: 'support' must be one of ${GROUNDING_SUPPORT.join(", ")}`);
+    }
+    if (typeof verdict.score !== "number" || verdict.score < 0 || verdict.score > 100) {
+      errors.push(`${path}: 'score' must be a number from 0 to 100`);
+    }
+    if (typeof verdict.snippet !== "string") {
+      errors.push(`${path}: 'snippet' must be a string`);
+    }
+    if (!Array.isArray(verdict.unsupportedClaims) || !verdict.unsupportedClaims.every((claim) => typeof claim === "string")) {
+      errors.push(`${path}: 'unsupportedClaims' must be an array of strings`);
+    }
+  });
+
+  return result(errors);
+}
+
+/**
+ * Validate a distractor review: one entry per reviewed MCQ, flagging only distractor letters, and
+ * (when repairing) replacement options that keep the correct option unchanged in its place
+ */
+export function validateDistractorReview(
+  data: unknown,
+  reviewed: Array<{ questionNumber: number; options: string[]; correctIndex: number }>,
+  repair: boolean
+): ValidationResult {
+  if (!isRecord(data) || !Array.isArray(data.questions)) {
+    return result(["Response must be an object with a 'questions' array"]);
+  }
+  const errors: string[] = [];
+
+  if (data.questions.length !== reviewed.length) {
+    errors.push(`Expected ${reviewed.length} reviews, got ${data.questions.length}`);
+  }
+
+  const seen = new Set<number>();
+  data.questions.forEach((review: unknown, index: number) => {
+    const path = `Review ${index + 1}`;
+    if (!isRecord(review)) {
+      errors.push(`${path}: must be an object`);
+      return;
+    }
+    const question = reviewed.find((q) => q.questionNumber === review.questionNumber);
+    if (!question) {
+      errors.push(`${path}: 'questionNumber' must be one of ${reviewed.map((q) => q.questionNumber).join(", ")}`);
+      return;
+    }
+    if (seen.has(question.questionNumber)) {
+      errors.push(`${path}: duplicate questionNumber ${question.questionNumber}`);
+    }
+    seen.add(question.questionNumber);
+
+    const correctLetter = optionLetter(question.correctIndex);
+    const letterRange = optionLetters(question.options.length);
+    for (const field of ["alsoCorrect", "contradictsStem"]) {
+      const letters = review[field];
+      if (!Array.isArray(letters) || !letters.every((letter) => letterRange.includes(letter as string))) {
+        errors.push(`${path}: '${field}' must be an array of option letters ${letterRange[0]}-${letterRange[letterRange.length - 1]}`);
+      } else if (letters.includes(correctLetter)) {
+        errors.push(`${path}: '${field}' must only list distractors, not the correct option ${correctLetter}`);
+      }
+    }
+
+    // Replacements are only read when repairing
+    const replacement = review.replacementOptions;
+    if (!repair || replacement === undefined) return;
+    if (!Array.isArray(replacement) || replacement.length !== question.options.length || !replacement.every(isNonEmptyString)) {
+      errors.push(`${path}: 'replacementOptions' must be ${question.options.length} non-empty strings`);
+    } else {
+      if (replacement[question.correctIndex].trim() !== question.options[question.correctIndex].trim()) {
+        errors.push(`${path}: the correct option (${correctLetter}) must be copied unchanged into 'replacementOptions'`);
+      }
+      errors.push(...findDuplicateOptions(replacement, `${path}: replacementOptions`));
+    }
+  });
+
+  return result(errors);
+}
+
+const CLASSIFIED_AO_LEVELS = ["AO1", "AO2", "AO3"];
+
+/**
+ * Validate an AO classification: one entry per audited question, using the numbers it was given
+ */
+export function validateAoClassification(data: unknown, questionNumbers: number[]): ValidationResult {
+  if (!isRecord(data) || !Array.isArray(data.questions)) {
+    return result(["Response must be an object with a 'questions' array"]);
+  }
+  const errors: string[] = [];
+
+  if (data.questions.length !== questionNumbers.length) {
+    errors.push(`Expected ${questionNumbers.length} classifications, got ${data.questions.length}`);
+  }
+
+  const seen = new Set<number>();
+  data.questions.forEach((entry: unknown, index: number) => {
+    const path = `Classification ${index + 1}`;
+    if (!isRecord(entry)) {
+      errors.push(`${path}: must be an object`);
+      return;
+    }
+    const number = entry.questionNumber as number;
+    if (!questionNumbers.includes(number)) {
+      errors.push(`${path}: 'questionNumber' must be one of ${questionNumbers.join(", ")}`);
+    } else if (seen.has(number)) {
+      errors.push(`${path}: duplicate questionNumber ${number}`);
+    } else {
+      seen.add(number);
+    }
+    if (!CLASSIFIED_AO_LEVELS.includes(entry.aoLevel as string)) {
+      errors.push(`${path}: 'aoLevel' must be one of ${CLASSIFIED_AO_LEVELS.join(", ")}`);
+    }
+    if (!isNonEmptyString(entry.reason)) {
+      errors.push(`${path}: 'reason' must be a non-empty string`);
+    }
+  });
+
+  return result(errors);
+}
+
+/**
+ * Validate a {questions: GeneratedQuestion[]} response
+ */
+export function validateGeneratedQuestions(data: unknown): ValidationResult {
+  const errors: string[] = [];
+
+  if (!isRecord(data) || !Array.isArray(data.questions)) {
+    return result(["Response must be an object with a 'questions' array"]);
+  }
+
+  data.questions.forEach((question: unknown, index: number) => {
+    const path = `Question ${index + 1}`;
+    if (!isRecord(question)) {
+      errors.push(`${path}: must be an object`);
+      return;
+    }
+    if (!isNonEmptyString(question.text)) {
+      errors.push(`${path}: 'text' must be a non-empty string`);
+    }
+    if (!QUESTION_TYPES.includes(question.type as QuestionType)) {
+      errors.push(`${path}: 'type' must be one of ${QUESTION_TYPES.join(", ")}`);
+    }
+    if (question.type === "MULTIPLE_CHOICE") {
+      if (!Array.isArray(question.options) || question.options.length < 2) {
+        errors.push(`${path}: multiple choice questions need at least 2 options`);
+      } else {
+        errors.push(...findDuplicateOptions(question.options, path));
+        const correct = question.correctAnswer;
+        if (typeof correct !== "number" || !Number.isInteger(correct) || correct < 0 || correct >= question.options.length) {
+          errors.push(`${path}: 'correctAnswer' must be an option index from 0 to ${question.options.length - 1}`);
+        }
+      }
+    }
+    if (question.type === "MULTI_SELECT") {
+      const optionTotal = Array.isArray(question.options) ? question.options.length : 0;
+      const correct = question.correctAnswers;
+      if (optionTotal < 3) {
+        errors.push(`${path}: multi-select questions need at least 3 options`);
+      } else if (
+        !Array.isArray(correct) ||
+        correct.length < 2 ||
+        new Set(correct).size !== correct.length ||
+        !correct.every((index) => Number.isInteger(index) && index >= 0 && index < optionTotal)
+      ) {
+        errors.push(`${path}: 'correctAnswers' must list at least 2 different option indices from 0 to ${optionTotal - 1}`);
+      }
+    }
+  });
+
+  return result(errors);
+}
+
+// ============================================================================
+// REPAIR LOOP
+// ============================================================================
+
+function buildRepairMessage(errors: string[]): string {
+  return `Your previous response did not meet the requirements:\n${errors.map((error) => `- ${error}`).join("\n")}\n\nReturn the complete corrected JSON in exactly the same format. Fix every problem listed above and change nothing else.`;
+}
+
+/**
+ * Call the model, parse its JSON and validate it.
+ * On failure the model is re-prompted with the specific violations, up to maxRepairAttempts times.
+ */
+export async function completeWithValidation<T>(
+  provider: LLMProvider,
+  request: LLMCompletionRequest,
+  validate: (data: unknown) => ValidationResult,
+  maxRepairAttempts: number = DEFAULT_MAX_REPAIR_ATTEMPTS
+): Promise<T> {
+  const messages: ChatCompletionMessageParam[] = [...request.messages];
+  let errors: string[] = [];
+  let content = "";
+
+  for (let attempt = 1; attempt <= maxRepairAttempts + 1; attempt++) {
+    content = await provider.complete({ ...request, messages });
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(stripJsonFences(content));
+    } catch (error) {
+      parsed = undefined;
+      errors = [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`];
+    }
+
+    if (parsed !== undefined) {
+      const validation = validate(parsed);
+      if (validation.isValid) {
+        if (attempt > 1) console.log(`🔧 ${request.task} response repaired on attempt ${attempt}`);
+        return parsed as T;
+      }
+      errors = validation.errors;
+    }
+
+    console.warn(`⚠️ ${request.task} response failed validation (attempt ${attempt}):`, errors);
+
+    messages.push(
+      { role: "assistant", content },
+      { role: "user", content: buildRepairMessage(errors) }
+    );
+  }
+
+  throw new LLMValidationError(request.task, maxRepairAttempts + 1, errors, content);
+}
@@ -0,0 +1,87 @@
+import { ImagePreprocessingReport } from './types';
+
+/**
+ * Limits for the material uploaded for one topic: several page images, or one PDF
+ */
+export const MATERIAL_LIMITS = {
+  maxImagesPerTopic: 6,
+  maxFileSizeMB: 10,
+  maxPdfPages: 20,
+} as const;
+
+// Files chosen for one topic (or for a single-topic quiz), before they are sent
+export interface MaterialUpload {
+  files: File[]; // Page images in order, or a single PDF
+  pageRange: string; // PDF pages to use, e.g. "3-5, 8"; empty means every page
+}
+
+export function isPdfFile(file: { type: string; name: string }): boolean {
+  return file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+}
+
+/**
+ * Check one topic's files; `label` names the topic in messages, e.g. "Topic A"
+ */
+export function validateMaterialFiles(files: File[], label: string): string[] {
+  const errors: string[] = [];
+  const pdfCount = files.filter(isPdfFile).length;
+
+  if (files.length === 0) {
+    errors.push(`${label}: upload at least one image or a PDF`);
+  } else if (pdfCount > 0 && files.length > 1) {
+    errors.push(`${label}: upload either one PDF or a set of images, not both`);
+  } else if (files.length > MATERIAL_LIMITS.maxImagesPerTopic) {
+    errors.push(`${label}: upload at most ${MATERIAL_LIMITS.maxImagesPerTopic} images`);
+  }
+
+  files.forEach((file, index) => {
+    if (!isPdfFile(file) && !file.type.startsWith('image/')) {
+      errors.push(`${label}: file ${index + 1} is not an image or PDF`);
+    }
+    if (file.size > MATERIAL_LIMITS.maxFileSizeMB * 1024 * 1024) {
+      errors.push(`${label}: file ${index + 1} is too large (>${MATERIAL_LIMITS.maxFileSizeMB}MB)`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Parse a page range such as "1-3, 5" into sorted, 1-based page numbers.
+ * An empty range selects every page.
+ */
+export function parsePageRange(range: string, pageCount: number): { pages: number[]; error?: string } {
+  const trimmed = range.trim();
+  if (!trimmed) {
+    return { pages: Array.from({ length: pageCount }, (_, i) => i + 1) };
+  }
+
+  const pages = new Set<number>();
+  for (const part of trimmed.split(',')) {
+    const match = part.trim().match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+    if (!match) {
+      return { pages: [], error: `"${part.trim()}" is not a page number or range` };
+    }
+
+    const start = Number(match[1]);
+    const end = match[2] ? Number(match[2]) : start;
+    if (start < 1 || end < start || end > pageCount) {
+      return { pages: [], error: `Pages ${part.trim()} are outside 1–${pageCount}` };
+    }
+    for (let page = start; page <= end; page++) pages.add(page);
+  }
+
+  return { pages: [...pages].sort((a, b) => a - b) };
+}
+
+// One-line summary of what preprocessing did to a page, e.g. "straightened 3.2°, cropped to the page, …, 4.10MB → 0.38MB"
+export function describeImagePreprocessing(report: ImagePreprocessingReport): string {
+  const steps = [
+    report.autoRotated && 'turned upright',
+    report.deskewAngle !== 0 && `straightened ${Math.abs(report.deskewAngle)}°`,
+    report.cropped && 'cropped to the page',
+    'contrast enhanced',
+  ].filter(Boolean);
+  return `${steps.join(', ')}, ${report.originalWidth}×${report.originalHeight} → ${report.width}×${report.height}, ` +
+    `${(report.originalBytes / 1024 / 1024).toFixed(2)}MB → ${(report.bytes / 1024 / 1024).toFixed(2)}MB`;
+}
@@ -1,20 +1,74 @@
-import OpenAI from "openai";
-import { GeneratedQuestion } from "./types";
+import type { ChatCompletionContentPart } from "openai/resources/chat/completions";
+import {
+    AoAudit,
+    AoClassificationResponse,
+    DistractorReviewResponse,
+    DistractorWarning,
+    GeneratedQuestion,
+    GenerationProgressEvent,
+    GroundingCheckResponse,
+    ImageTextExtraction,
+    MiniQuizResponse,
+    PracticeQuizResponse,
+    PracticeQuizType,
+    QuestionOrderMode,
+    QuestionType,
+    QuestionTypeMix,
+    QuizConfig,
+    RetrievalQuestionResponse,
+    RetrievalTopicConfig,
+    RetrievalTopicFailure,
+    RetrievalTopicResponse,
+    TopicMaterial,
+} from "./types";
+import { LLMProvider } from "./llm-provider";
+import { buildDefaultRetrievalTopics, DEFAULT_QUESTIONS_PER_TOPIC, RetrievalQuizShape } from "./retrieval-config";
+import {
+    completeWithValidation,
+    LLMValidationError,
+    validateAoClassification,
+    validateDistractorReview,
+    validateGeneratedQuestions,
+    validateGroundingCheck,
+    validateMiniQuiz,
+    validatePracticeQuiz,
+    validateRetrievalQuestion,
+    validateRetrievalTopic,
+    validateTextExtraction,
+} from "./llm-validation";
+import { getPracticeQuestionCount, PRACTICE_QUIZ_SPECS } from "./practice-quiz";
+import { moveCorrectOption, shuffleMultiSelectOptions, shuffleOptions, shuffleQuiz } from "./shuffle-quiz";
+import { createSeededRandom, RandomSource } from "./seeded-random";
+import { fitAnswerSequence } from "./answer-randomization";
+import { insertTopicQuestions } from "./question-order";
+import { RetryError, TOPIC_RETRY_OPTIONS, withRetries } from "./retry";
+import { analyzeOptions, DistractorAnalysisMode } from "./distractor-analysis";
+import { AoAuditMode, auditByRules, describeAoMismatch, isAuditedAoLevel, summarizeAoAudit } from "./ao-audit";
+import {
+    DEFAULT_OPTION_COUNT,
+    describeOptionLetters,
+    formatQuestionTypePlan,
+    hasOptions,
+    MULTI_SELECT_ANSWER_COUNT,
+    optionIndex,
+    optionLetter,
+    optionLetters,
+    parseOptionLetters,
+    planQuestionTypes,
+    QUESTION_TYPE_LABELS,
+    QUESTION_TYPE_MARKS,
+    QUESTION_TYPES,
+} from "./question-types";
 
 // Legacy function - kept for non-retrieval quiz types
 export async function generateStructuredQuestions(
-    apiKey: string,
+    provider: LLMProvider,
     prompt: string,
     imageBase64?: string | string[],
 ): Promise<GeneratedQuestion[]> {
     const images = Array.isArray(imageBase64) ? imageBase64 : (imageBase64 ? [imageBase64] : []);
 
-    const client = new OpenAI({
-        apiKey,
-        baseURL: "https://api.openai.com/v1",
-    });
-
-    const userContent: Array<{ type: string; text?: string; image_url?: { url: string; detail?: string } }> = [
+    const userContent: ChatCompletionContentPart[] = [
         { type: "text", text: prompt }
     ];
 
@@ -30,22 +84,20 @@ export async function generateStructuredQuestions(
         });
     }
 
-    const response = await client.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-            {
-                role: "user",
-                content: userContent as any,
-            },
-        ],
-        response_format: { type: "json_object" },
-    });
-
-    const content = response.choices[0].message.content;
-    if (!content) throw new Error("No content returned from OpenAI response.");
-
-    const jsonContent = content.trim().replace(/```json\n?/g, '').replace(/```\n?/g, '');
-    const structured = JSON.parse(jsonContent) as { questions: GeneratedQuestion[] };
+    const structured = await completeWithValidation<{ questions: GeneratedQuestion[] }>(
+        provider,
+        {
+            task: "structured-questions",
+            messages: [
+                {
+                    role: "user",
+                    content: userContent,
+                },
+            ],
+            jsonMode: true,
+        },
+        validateGeneratedQuestions
+    );
 
     return structured.questions;
 }
@@ -55,114 +107,161 @@ export async function generateStructuredQuestions(
 // ============================================================================
 
 /**
- * Extract all text from an image and provide analysis metrics
+ * Extract all text from an image and provide analysis metrics - the readability pre-check run
+ * on each page before a quiz is generated from it
  */
-// export async function extractTextFromImage(
-//     apiKey: string,
-//     image: string
-// ): Promise<{
-//     extractedText: string;
-//     extractionPercentage: number;
-//     unclearAreas: string[];
-//     confidence: string;
-//     totalWords: number;
-//     readabilityScore: string;
-// }> {
-//     const client = new OpenAI({
-//         apiKey,
-//         baseURL: "https://api.openai.com/v1",
-//     });
-
-//     const prompt = `You are a text extraction specialist. Your task is to extract ALL visible text from this image and provide detailed analysis metrics.
-
-// 🔹 EXTRACTION REQUIREMENTS:
-// ● Extract EVERY piece of text visible in the image, including:
-//   - Main body text
-//   - Headers and titles
-//   - Captions and labels
-//   - Small print and footnotes
-//   - Watermarks or stamps
-//   - Any handwritten text
-//   - Numbers, dates, and formulas
-//   - Table contents and data
-
-// 🔹 ANALYSIS REQUIREMENTS:
-// ● Provide an honest assessment of extraction completeness (0-100%)
-// ● Identify specific areas that are unclear, blurry, or unreadable
-// ● Rate your confidence in the extraction accuracy
-// ● Count total words extracted
-// ● Assess overall text readability/quality
-
-// 🔹 OUTPUT FORMAT:
-// Respond with ONLY valid JSON in this exact format:
-// {
-//   "extractedText": "All the text you can read from the image, preserving structure and formatting as much as possible",
-//   "extractionPercentage": 85,
-//   "unclearAreas": ["bottom right corner text is blurry", "handwritten notes partially obscured"],
-//   "confidence": "high|medium|low",
-//   "totalWords": 247,
-//   "readabilityScore": "excellent|good|fair|poor"
-// }
-
-// 🔹 IMPORTANT NOTES:
-// ● Be thorough - don't miss any text
-// ● Be honest about limitations and unclear areas
-// ● Preserve text structure (paragraphs, lists, etc.) in the extractedText field
-// ● If text is partially readable, include what you can make out and note the unclear parts
-// ● Extraction percentage should reflect how much of ALL visible text you successfully extracted`;
-
-//     const userContent = [
-//         { type: "text" as const, text: prompt },
-//         {
-//             type: "image_url" as const,
-//             image_url: {
-//                 url: image,
-//                 detail: "low" as const
-//             }
-//         }
-//     ];
-
-//     console.log("🔍 Starting text extraction from image...");
-
-//     const response = await client.chat.completions.create({
-//         model: "gpt-4o",
-//         messages: [
-//             {
-//                 role: "user",
-//                 content: userContent,
-//             },
-//         ],
-//         response_format: { type: "json_object" },
-//     });
-
-//     const content = response.choices[0].message.content;
-//     if (!content) throw new Error("No content returned from text extraction.");
-
-//     const jsonContent = content.trim().replace(/```json\n?/g, '').replace(/```\n?/g, '');
-//     const extractionResult = JSON.parse(jsonContent);
-
-//     console.log("✅ Text extraction completed successfully");
-
-//     return extractionResult;
-// }
+export async function extractTextFromImage(
+    provider: LLMProvider,
+    image: string
+): Promise<ImageTextExtraction> {
+    const prompt = `You are a text extraction specialist. Your task is to extract ALL visible text from this image and provide detailed analysis metrics.
+
+🔹 EXTRACTION REQUIREMENTS:
+● Extract EVERY piece of text visible in the image, including:
+  - Main body text
+  - Headers and titles
+  - Captions and labels
+  - Small print and footnotes
+  - Watermarks or stamps
+  - Any handwritten text
+  - Numbers, dates, and formulas
+  - Table contents and data
+
+🔹 ANALYSIS REQUIREMENTS:
+● Provide an honest assessment of extraction completeness (0-100%)
+● Identify specific areas that are unclear, blurry, or unreadable
+● Rate your confidence in the extraction accuracy
+● Count total words extracted
+● Assess overall text readability/quality
+
+🔹 OUTPUT FORMAT:
+Respond with ONLY valid JSON in this exact format:
+{
+  "extractedText": "All the text you can read from the image, preserving structure and formatting as much as possible",
+  "extractionPercentage": 85,
+  "unclearAreas": ["bottom right corner text is blurry", "handwritten notes partially obscured"],
+  "confidence": "high|medium|low",
+  "totalWords": 247,
+  "readabilityScore": "excellent|good|fair|poor"
+}
+
+🔹 IMPORTANT NOTES:
+● Be thorough - don't miss any text
+● Be honest about limitations and unclear areas
+● Preserve text structure (paragraphs, lists, etc.) in the extractedText field
+● If text is partially readable, include what you can make out and note the unclear parts
+● Extraction percentage should reflect how much of ALL visible text you successfully extracted`;
+
+    // Read at the same detail the quiz generators use, so the score reflects what they will see
+    const userContent: ChatCompletionContentPart[] = [
+        { type: "text", text: prompt },
+        {
+            type: "image_url",
+            image_url: {
+                url: image,
+                detail: "high"
+            }
+        }
+    ];
+
+    console.log("🔍 Starting text extraction from image...");
+
+    const extractionResult = await completeWithValidation<ImageTextExtraction>(
+        provider,
+        {
+            task: "text-extraction",
+            messages: [
+                {
+                    role: "user",
+                    content: userContent,
+                },
+            ],
+            jsonMode: true,
+        },
+        validateTextExtraction
+    );
+
+    console.log("✅ Text extraction completed successfully");
+
+    return extractionResult;
+}
+
+// ============================================================================
+// SUBMITTED MATERIAL - one image, several page images, or text from PDF pages
+// ============================================================================
+
+/**
+ * Build the user message for a prompt and one topic's material. A single image is sent exactly
+ * as before; several pages or PDF text get a short note so the model reads them as one guide.
+ */
+function buildMaterialContent(prompt: string, material: string | TopicMaterial): ChatCompletionContentPart[] {
+    const { images, text } = typeof material === "string" ? { images: [material], text: undefined } : material;
+
+    const notes: string[] = [];
+    if (images.length > 1) {
+        notes.push(`● The revision guide is split across ${images.length} images of consecutive pages, in order; treat them together as the submitted revision-guide image`);
+    }
+    if (text) {
+        notes.push(images.length > 0
+            ? "● Text extracted from PDF pages of the same revision guide is included below; use it alongside the images"
+            : "● The revision guide was submitted as a PDF; the text extracted from its pages below takes the place of the image");
+    }
+
+    const fullPrompt = notes.length === 0
+        ? prompt
+        : `${prompt}\n\n🔹 Submitted Material\n${notes.join("\n")}${text ? `\n\n"""\n${text}\n"""` : ""}`;
+
+    return [
+        { type: "text", text: fullPrompt },
+        ...images.map((url): ChatCompletionContentPart => ({
+            type: "image_url",
+            image_url: { url, detail: "high" },
+        })),
+    ];
+}
 
 // ============================================================================
 // MINI QUIZ WORKFLOW - Single image, single API call
 // ============================================================================
 
+// JSON example for an MCQ's options, e.g. ["", "", "", ""] for 4
+function emptyOptions(optionCount: number): string {
+    return `[${Array.from({ length: optionCount }, () => "\"\"").join(", ")}]`;
+}
+
+// Per-type rules and JSON examples for mini quizzes that are not all short answers
+function miniQuizTypeRules(optionCount: number): Record<QuestionType, string> {
+    return {
+        MULTIPLE_CHOICE: `Multiple choice: ${optionCount} options with 1 correct answer and ${optionCount - 1} misconception-based distractors; give the correct letter in "answer" and write the correct option's text (not its letter) in the mark scheme`,
+        MULTI_SELECT: `Select two: ${optionCount} options of which exactly ${MULTI_SELECT_ANSWER_COUNT} are correct, as in "Tick (✓) two boxes" exam questions (the tick instruction is printed for you, so leave it out of the text); give both letters in "answer" (e.g. "a,c"), worth 2 marks, and write both correct options' text in the mark scheme`,
+        TRUE_FALSE: `True/false: one statement that is unambiguously true or false; give "true" or "false" in "answer" and a one-line reason in the mark scheme`,
+        SHORT_ANSWER: "Short answer: answered in 1–4 sentences as described for its AO",
+        LONG_ANSWER: "Long answer: an extended, linked response of a paragraph or more; worth at least 4 marks",
+    };
+}
+
+function miniQuizTypeFormats(optionCount: number): Record<QuestionType, string> {
+    return {
+        MULTIPLE_CHOICE: `{\n      "text": "Question text here",\n      "type": "MULTIPLE_CHOICE",\n      "options": ${emptyOptions(optionCount)},\n      "answer": "a",\n      "maxMarks": 1,\n      "aoLevel": "AO1"\n    }`,
+        MULTI_SELECT: `{\n      "text": "Which two statements are correct?",\n      "type": "MULTI_SELECT",\n      "options": ${emptyOptions(optionCount)},\n      "answer": "a,c",\n      "maxMarks": 2,\n      "aoLevel": "AO1"\n    }`,
+        TRUE_FALSE: `{\n      "text": "Statement to judge",\n      "type": "TRUE_FALSE",\n      "answer": "false",\n      "maxMarks": 1,\n      "aoLevel": "AO1"\n    }`,
+        SHORT_ANSWER: `{\n      "text": "Question text here",\n      "type": "SHORT_ANSWER",\n      "maxMarks": 2,\n      "aoLevel": "AO1"\n    }`,
+        LONG_ANSWER: `{\n      "text": "Question text here",\n      "type": "LONG_ANSWER",\n      "maxMarks": 6,\n      "aoLevel": "AO3"\n    }`,
+    };
+}
+
 /**
- * Generate a Mini Quiz from a single image
+ * Generate a Mini Quiz from one topic's images or PDF (short answers unless another question type is chosen)
  */
 export async function generateMiniQuiz(
-    apiKey: string,
-    imageUrl: string,
-    educationLevel: "GCSE" | "A-LEVEL"
+    provider: LLMProvider,
+    material: string | TopicMaterial,
+    educationLevel: "GCSE" | "A-LEVEL",
+    questionType: QuizConfig["questionType"] = "SHORT_ANSWER",
+    questionTypeMix?: QuestionTypeMix,
+    random: RandomSource = Math.random,
+    optionCount: number = DEFAULT_OPTION_COUNT
 ): Promise<GeneratedQuestion[]> {
-    const client = new OpenAI({
-        apiKey,
-        baseURL: "https://api.openai.com/v1",
-    });
-
     const levelDisplay = educationLevel === "GCSE" ? "GCSE" : "A-Level";
 
     // Set question counts based on education level
@@ -191,47 +290,51 @@ export async function generateMiniQuiz(
         ao2Range = "Questions 9–18";
         ao3Range = "Questions 19-24";
     }
-    const prompt = `You are generating a ready-to-use ${levelDisplay} mini quiz for a single topic. Treat this as a final deliverable that students can use immediately.\n\n🔹 Format Requirements\n● Generate EXACTLY ${totalQuestions} questions for ONE topic inferred from the revision-guide image\n● Topic name must be derived from the image content\n● Plain text only (no markdown, tables, or images)\n● Base ALL questions strictly on the submitted revision-guide image\n\n🔹 Question Structure\n● The quiz must include:\n ○ ${ao1Count} AO1 questions (knowledge & understanding / recall)\n ○ ${ao2Count} AO2 questions (application, analysis, linked reasoning)\n ○ ${ao3Count} AO3 questions (evaluation, judgement, creation)\n\nAO1 – Knowledge & Understanding (${ao1Range})\n● Test direct recall and basic understanding from the image\n● Question types: define, state, name, identify, describe\n● Short, factual questions with clear right/wrong answers\n● No explanations or opinions\n\nAO2 – Apply & Analyse (${ao2Range})\n● Test application of knowledge and linked reasoning\n● Question types: explain why, describe how, compare, using your knowledge\n● Require 2–4 sentences of logical explanation\n● Must involve cause–effect, structure–function links, or application to a new situation\n● Must NOT be simple recall disguised as AO2\n\nAO3 – Evaluate & Create (${ao3Range})\n● Test higher-order thinking\n● Question types: evaluate, assess, predict and explain, suggest and justify\n● Open-ended questions with multiple valid answers\n● Marked on quality of reasoning, not a single correct point\n\n Strict Rules\n● Use ONLY the content shown in the image\n● Do NOT introduce external facts\n● Keep language clear and ${levelDisplay}-appropriate\n● Avoid essay-style questions\n● Ensure AO1, AO2, and AO3 are clearly distinct\n\n🔹 Mark Scheme Requirement\nAfter the quiz, provide a student-friendly mark scheme:\n● Bullet points per question\n● Clear expected answers for AO1\n● Indicative points for AO2 explanations\n● Level-based guidance for AO3 (what a good answer includes)\n● For AO2 and AO3 answers, include a short italic explanation (2 sentences are essential could be more) after each answer that explains the reasoning very simply for students who got it wrong\n\n🔹 JSON Output Format\nRespond with ONLY valid JSON in this exact format:\n{\n  \"topicName\": \"Topic Name from Image\",\n  \"questions\": [\n    {\n      \"text\": \"Question text here\",\n      \"type\": \"SHORT_ANSWER\",\n      \"maxMarks\": 2,\n      \"aoLevel\": \"AO1\"\n    }\n  ],\n  \"markScheme\": {\n    \"ao1\": [\n      {\n        \"questionNumber\": 1,\n        \"markPoints\": [\"Point 1\", \"Point 2\"]\n      }\n    ],\n    \"ao2\": [\n      {\n        \"questionNumber\": ${ao1Count + 1},\n        \"markPoints\": [\"Point 1\", \"Point 2\", \"*Simple explanation (up to 2 sentences) of why this answer is correct*\"]\n      }\n    ],\n    \"ao3\": [\n      {\n        \"questionNumber\": ${ao1Count + ao2Count + 1},\n        \"markPoints\": [\"Point 1\", \"Point 2\", \"*Simple explanation (up to 2 sentences) of what a good answer shows*\"]\n      }\n    ]\n  }\n}\n\nOutput ONLY:\n● The mini quiz\n● The mark scheme\nNo extra explanations or commentary.`;
-    const userContent = [
-        { type: "text" as const, text: prompt },
-        {
-            type: "image_url" as const,
-            image_url: {
-                url: imageUrl,
-                detail: "high" as const
-            }
-        }
-    ];
 
-    console.log("🚀 Generating Mini Quiz...");
+    const questionTypes = planQuestionTypes(totalQuestions, questionType, questionTypeMix);
+    const allShortAnswer = questionTypes.every((type) => type === "SHORT_ANSWER");
+    const usedTypes = QUESTION_TYPES.filter((type) => questionTypes.includes(type));
 
-    const response = await client.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-            {
-                role: "user",
-                content: userContent,
-            },
-        ],
-        response_format: { type: "json_object" },
-    });
+    // Short-answer quizzes keep the original prompt; other plans add a question type section
+    const typeSection = allShortAnswer
+        ? ""
+        : `\n\n🔹 Question Types (follow this plan exactly)\n${formatQuestionTypePlan(questionTypes)}\n● Keep each AO's thinking demand whatever the format: an AO2 multiple-choice question still needs applied reasoning\n● ${usedTypes.map((type) => miniQuizTypeRules(optionCount)[type]).join("\n● ")}`;
+    const questionExamples = allShortAnswer
+        ? miniQuizTypeFormats(optionCount).SHORT_ANSWER
+        : usedTypes.map((type) => miniQuizTypeFormats(optionCount)[type]).join(",\n    ");
 
-    const content = response.choices[0].message.content;
-    if (!content) throw new Error("No content returned from OpenAI response.");
+    const prompt = `You are generating a ready-to-use ${levelDisplay} mini quiz for a single topic. Treat this as a final deliverable that students can use immediately.\n\n🔹 Format Requirements\n● Generate EXACTLY ${totalQuestions} questions for ONE topic inferred from the revision-guide image\n● Topic name must be derived from the image content\n● Plain text only (no markdown, tables, or images)\n● Base ALL questions strictly on the submitted revision-guide image\n\n🔹 Question Structure\n● The quiz must include:\n ○ ${ao1Count} AO1 questions (knowledge & understanding / recall)\n ○ ${ao2Count} AO2 questions (application, analysis, linked reasoning)\n ○ ${ao3Count} AO3 questions (evaluation, judgement, creation)\n\nAO1 – Knowledge & Understanding (${ao1Range})\n● Test direct recall and basic understanding from the image\n● Question types: define, state, name, identify, describe\n● Short, factual questions with clear right/wrong answers\n● No explanations or opinions\n\nAO2 – Apply & Analyse (${ao2Range})\n● Test application of knowledge and linked reasoning\n● Question types: explain why, describe how, compare, using your knowledge\n● Require 2–4 sentences of logical explanation\n● Must involve cause–effect, structure–function links, or application to a new situation\n● Must NOT be simple recall disguised as AO2\n\nAO3 – Evaluate & Create (${ao3Range})\n● Test higher-order thinking\n● Question types: evaluate, assess, predict and explain, suggest and justify\n● Open-ended questions with multiple valid answers\n● Marked on quality of reasoning, not a single correct point\n\n Strict Rules\n● Use ONLY the content shown in the image\n● Do NOT introduce external facts\n● Keep language clear and ${levelDisplay}-appropriate\n● Avoid essay-style questions\n● Ensure AO1, AO2, and AO3 are clearly distinct${typeSection}\n\n🔹 Mark Scheme Requirement\nAfter the quiz, provide a student-friendly mark scheme:\n● Bullet points per question\n● Clear expected answers for AO1\n● Indicative points for AO2 explanations\n● Level-based guidance for AO3 (what a good answer includes)\n● For AO2 and AO3 answers, include a short italic explanation (2 sentences are essential could be more) after each answer that explains the reasoning very simply for students who got it wrong\n\n🔹 JSON Output Format\nRespond with ONLY valid JSON in this exact format:\n{\n  \"topicName\": \"Topic Name from Image\",\n  \"questions\": [\n    ${questionExamples}\n  ],\n  \"markScheme\": {\n    \"ao1\": [\n      {\n        \"questionNumber\": 1,\n        \"markPoints\": [\"Point 1\", \"Point 2\"]\n      }\n    ],\n    \"ao2\": [\n      {\n        \"questionNumber\": ${ao1Count + 1},\n        \"markPoints\": [\"Point 1\", \"Point 2\", \"*Simple explanation (up to 2 sentences) of why this answer is correct*\"]\n      }\n    ],\n    \"ao3\": [\n      {\n        \"questionNumber\": ${ao1Count + ao2Count + 1},\n        \"markPoints\": [\"Point 1\", \"Point 2\", \"*Simple explanation (up to 2 sentences) of what a good answer shows*\"]\n      }\n    ]\n  }\n}\n\nOutput ONLY:\n● The mini quiz\n● The mark scheme\nNo extra explanations or commentary.`;
+    const userContent = buildMaterialContent(prompt, material);
 
-    const jsonContent = content.trim().replace(/```json\n?/g, '').replace(/```\n?/g, '');
-    const result = JSON.parse(jsonContent);
+    console.log("🚀 Generating Mini Quiz...");
+
+    const result = await completeWithValidation<MiniQuizResponse>(
+        provider,
+        {
+            task: "mini-quiz",
+            messages: [
+                {
+                    role: "user",
+                    content: userContent,
+                },
+            ],
+            jsonMode: true,
+            variables: { ao1Count, ao2Count, ao3Count, optionCount, questionTypes: questionTypes.join("|") },
+        },
+        (data) => validateMiniQuiz(data, { totalQuestions, optionCount, questionTypes: allShortAnswer ? undefined : questionTypes })
+    );
 
     console.log("✅ Mini Quiz generated successfully");
 
     // Store the mark scheme for PDF generation
     const markScheme = result.markScheme;
+    const markSchemeEntries = [...markScheme.ao1, ...markScheme.ao2, ...markScheme.ao3];
 
     // Convert the response to GeneratedQuestion format
     const questions: GeneratedQuestion[] = [];
 
     if (result.questions && Array.isArray(result.questions)) {
-        result.questions.forEach((q: any, index: number) => {
+        result.questions.forEach((q, index) => {
             // Determine AO level based on education level and question index
             let aoLevel: "AO1" | "AO2" | "AO3";
             if (educationLevel === "GCSE") {
@@ -244,13 +347,38 @@ export async function generateMiniQuiz(
                 else aoLevel = "AO3";
             }
 
+            // The planned type, not the declared one: short-answer quizzes skip the type check,
+            // so a stray "MULTIPLE_CHOICE" with no options must not get through
+            const type = questionTypes[index] ?? "SHORT_ANSWER";
+            const answer = q.answer?.toLowerCase();
+            let options: string[] | undefined;
+            let correctAnswer: number | undefined;
+            let correctAnswers: number[] | undefined;
+            if (type === "MULTIPLE_CHOICE" && q.options) {
+                // Counter the model's answer-position bias, same as the retrieval quiz
+                const shuffled = shuffleOptions(q.options, optionIndex(answer), random);
+                options = shuffled.options;
+                correctAnswer = shuffled.correctIndex;
+            } else if (type === "MULTI_SELECT" && q.options) {
+                const shuffled = shuffleMultiSelectOptions(q.options, parseOptionLetters(answer), random);
+                options = shuffled.options;
+                correctAnswers = shuffled.correctIndices;
+            } else if (type === "TRUE_FALSE") {
+                correctAnswer = answer === "true" ? 1 : 0;
+            }
+
             questions.push({
                 text: q.text,
-                type: q.type || "SHORT_ANSWER",
+                type,
+                ...(options && { options }),
+                ...(correctAnswer !== undefined && { correctAnswer }),
+                ...(correctAnswers && { correctAnswers }),
                 maxMarks: q.maxMarks || 1,
                 topic: result.topicName || "Mini Quiz",
                 questionNumber: index + 1,
                 aoLevel: q.aoLevel || aoLevel,
+                // Each question carries its own points so it can be edited, reordered or deleted on its own
+                markPoints: markSchemeEntries.find((entry) => entry.questionNumber === index + 1)?.markPoints ?? [],
                 markScheme: markScheme // Store mark scheme in questions array for PDF access
             });
         });
@@ -260,109 +388,269 @@ export async function generateMiniQuiz(
 }
 
 // ============================================================================
-// CONCURRENT API CALLS WORKFLOW - 3 separate calls, each returning 10 MCQs
+// PRACTICE QUIZ WORKFLOW - Assignment, Application Practice, Marks Per Point,
+// Specific Technique (single image, single API call)
 // ============================================================================
 
 /**
- * Generate 10 questions for a single topic using concurrent API calls
+ * Generate a practice quiz of the given type from one topic's images or PDF
  */
-async function generateTopicQuestions(
-    client: OpenAI,
-    image: string,
-    topicName: string,
-    topicDescription: string,
-    educationLevel: "GCSE" | "A-LEVEL"
-): Promise<{
-    name: string;
-    questions: Array<{
-        question: string;
-        options: string[];
-    }>;
-    answer_key: string[];
-}> {
+export async function generatePracticeQuiz(
+    provider: LLMProvider,
+    material: string | TopicMaterial,
+    educationLevel: "GCSE" | "A-LEVEL",
+    quizType: PracticeQuizType
+): Promise<GeneratedQuestion[]> {
+    const spec = PRACTICE_QUIZ_SPECS[quizType];
     const levelDisplay = educationLevel === "GCSE" ? "GCSE" : "A-Level";
+    const totalQuestions = getPracticeQuestionCount(spec);
 
-    const prompt = `You are generating a ready-to-use ${levelDisplay} retrieval quiz for a single topic. Treat this as a final deliverable that students can use immediately.\n\n🔹 Format Requirements\n● Generate EXACTLY 10 multiple-choice questions for ${topicName}: Use a topic name based on image\n● Plain text only (no markdown, tables, or images)\n● Base all questions on the content in the submitted revision-guide image\n\n🔹 Question Structure\n● Each topic must include:\n ○ 5 AO1 questions (recall of facts/content)\n ○ 5 AO2 questions (application/data/one-sentence cause-effect reasoning)\n● Each question must:\n ○ Be multiple choice with 1 correct answer + 3 plausible distractors\n ○ Be short and answerable in under 30 seconds\n ○ Have only one unambiguously correct answer\n ○ Use distractors that reflect real misconceptions, not obviously incorrect ideas and test their deep conceptual understanding of the topic\n\n🔹 AO2 Question Requirements\nAO2 questions (questions 6–10 in each topic) must include:\n● Application of knowledge to an unfamiliar example AND at least one other AO2 feature below\n● Interpretation of data, results, observations, or experimental outcomes\n● A cause/effect or "why" question ONLY when linked to a specific scenario, result, or change in conditions (multiple choice format)\n● Each AO2 question must involve reasoning beyond recall and require students to apply concepts in context\n● Difficulty should be hard and match real exam AO2 standards\n● No AO1 recall, definitions, or memorized facts shall be disguised as AO2 under any circumstances\n● All AO2 questions shall assess different applied concepts from the image; repetition of the same idea in different wording is not allowed\n● Avoid AO3 evaluative, opinion-based, or essay-style questions\n● If a question can be answered correctly by memorizing a single textbook sentence, it is NOT AO2\n\n❗ Do NOT:\n● Label which option is correct\n● Mention which questions are AO1/AO2 in the quiz\n● Add any explanations in the quiz\n\n📎 Requirements For Answers\n● At the very end of the document, after all 10 questions, include an answer key only\n● The position of the correct answer should be random\n● The correct answer for a particular question should never be in the same position as the previous question\n● Before generating any questions, create a random 10 letter sequence using the letters a,b,c,d. There must be roughly even amount of each letter\n● This sequence will be the answer key and determine the position of the correct answer\n● Do not show any planning steps\n● Do not list or label which answers are correct until the answer key\n\nPlease generate the quiz in a JSON structure with the following format:\n{\n "name": "${topicName}",\n "questions": [\n {"question": "", "options": ["", "", "", ""]}\n ],\n "answer_key": ["", "", "", ... 10 letters total]\n}`;
+    let questionStart = 1;
+    const sectionLines = spec.sections.map((section) => {
+        const questionEnd = questionStart + section.count - 1;
+        const line = `"${section.label}" (Questions ${questionStart}–${questionEnd}, ${section.minMarks}–${section.maxMarks} marks each)\n● ${section.guidance}`;
+        questionStart = questionEnd + 1;
+        return line;
+    }).join("\n\n");
 
-    const userContent = [
-        { type: "text" as const, text: prompt },
-        {
-            type: "image_url" as const,
-            image_url: {
-                url: image,
-                detail: "high" as const
-            }
-        }
-    ];
+    const markRules = [
+        spec.totalMarks !== undefined ? `● The marks of all questions must add up to EXACTLY ${spec.totalMarks}` : null,
+        spec.onePointPerMark
+            ? "● List EXACTLY one mark point per mark available (a 4-mark question has 4 mark points), each a distinct creditworthy idea"
+            : "● List the creditworthy points for each question; for level-marked answers describe what each level looks like",
+        "● You may finish a question's mark points with one short italic tip for students, wrapped in asterisks (*tip*); it does not count as a mark point",
+    ].filter(Boolean).join("\n");
 
-    const response = await client.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-            {
-                role: "user",
-                content: userContent,
+    const prompt = `You are generating a ready-to-use ${levelDisplay} ${spec.title} for a single topic: ${spec.brief}. Treat this as a final deliverable that students can use immediately.\n\n🔹 Format Requirements\n● Generate EXACTLY ${totalQuestions} questions for ONE topic inferred from the revision-guide image\n● Topic name must be derived from the image content\n● Plain text only (no markdown, tables, or images)\n● Base ALL questions strictly on the submitted revision-guide image\n\n🔹 Sections (in this order)\n${sectionLines}\n\n Strict Rules\n● Use ONLY the content shown in the image\n● Do NOT introduce external facts\n● Keep language clear and ${levelDisplay}-appropriate\n● Show no answers in the question text\n\n🔹 Mark Scheme Requirement\n${markRules}\n\n🔹 JSON Output Format\nRespond with ONLY valid JSON in this exact format:\n{\n  "topicName": "Topic Name from Image",\n  "questions": [\n    {\n      "text": "Question text here",\n      "section": "${spec.sections[0].label}",\n      "maxMarks": ${spec.sections[0].minMarks},\n      "markPoints": ["Point 1", "Point 2"]\n    }\n  ]\n}\n\nUse the section names exactly as written above. No extra explanations or commentary.`;
+
+    const userContent = buildMaterialContent(prompt, material);
+
+    console.log(`🚀 Generating ${spec.title}...`);
+
+    // Mock fixtures need one mark value that is valid for every section
+    const mockMarks = spec.totalMarks !== undefined
+        ? spec.totalMarks / totalQuestions
+        : Math.max(...spec.sections.map((section) => section.minMarks));
+
+    const result = await completeWithValidation<PracticeQuizResponse>(
+        provider,
+        {
+            task: "practice-quiz",
+            messages: [
+                {
+                    role: "user",
+                    content: userContent,
+                },
+            ],
+            jsonMode: true,
+            variables: {
+                questionCount: totalQuestions,
+                sectionLabels: spec.sections.map((section) => section.label).join("|"),
+                marksPerQuestion: mockMarks,
             },
-        ],
-        response_format: { type: "json_object" },
-    });
+        },
+        (data) => validatePracticeQuiz(data, spec)
+    );
 
-    const content = response.choices[0].message.content;
-    if (!content) throw new Error("No content returned from OpenAI response.");
+    console.log(`✅ ${spec.title} generated successfully`);
+
+    return result.questions.map((q, index) => ({
+        text: q.text,
+        type: spec.questionType,
+        maxMarks: q.maxMarks,
+        topic: result.topicName,
+        questionNumber: index + 1,
+        section: q.section,
+        markPoints: q.markPoints,
+    }));
+}
+
+// ============================================================================
+// CONCURRENT API CALLS WORKFLOW - one call per topic, each returning its MCQs
+// ============================================================================
 
-    const jsonContent = content.trim().replace(/```json\n?/g, '').replace(/```\n?/g, '');
-    const topicData = JSON.parse(jsonContent);
+// Per-type rules and JSON examples for retrieval topics that are not all MCQs
+function retrievalTypeRules(optionCount: number): Record<QuestionType, string> {
+    return {
+        MULTIPLE_CHOICE: `Multiple choice: ${optionCount} options, 1 correct answer + ${optionCount - 1} plausible distractors that reflect real misconceptions, answerable in under 30 seconds`,
+        MULTI_SELECT: `Select two: ${optionCount} options of which exactly ${MULTI_SELECT_ANSWER_COUNT} are correct, as in "Tick (✓) two boxes" exam questions (the tick instruction is printed for you, so leave it out of the question); the wrong options must reflect real misconceptions`,
+        TRUE_FALSE: "True/false: a single statement that is unambiguously true or false; false statements must reflect a real misconception, not an obvious error",
+        SHORT_ANSWER: `Short answer (${QUESTION_TYPE_MARKS.SHORT_ANSWER} marks): answerable in 1–2 sentences; list one mark point per mark in "markPoints"`,
+        LONG_ANSWER: `Long answer (${QUESTION_TYPE_MARKS.LONG_ANSWER} marks): a linked explanation of 4–6 sentences; list one mark point per mark in "markPoints"`,
+    };
+}
+
+function retrievalTypeFormats(optionCount: number): Record<QuestionType, string> {
+    return {
+        MULTIPLE_CHOICE: `{"question": "", "options": ${emptyOptions(optionCount)}}`,
+        MULTI_SELECT: `{"question": "Which two ...?", "type": "MULTI_SELECT", "options": ${emptyOptions(optionCount)}}`,
+        TRUE_FALSE: `{"question": "Statement to judge", "type": "TRUE_FALSE"}`,
+        SHORT_ANSWER: `{"question": "", "type": "SHORT_ANSWER", "markPoints": ["", ""]}`,
+        LONG_ANSWER: `{"question": "", "type": "LONG_ANSWER", "markPoints": ["", "", "", ""]}`,
+    };
+}
+
+/**
+ * Generate the questions for a single topic (one of the concurrent API calls)
+ */
+async function generateTopicQuestions(
+    provider: LLMProvider,
+    material: string | TopicMaterial,
+    topicName: string,
+    topicDescription: string,
+    educationLevel: "GCSE" | "A-LEVEL",
+    questionCount: number = DEFAULT_QUESTIONS_PER_TOPIC,
+    ao1Count: number = Math.ceil(questionCount / 2),
+    questionTypes: QuestionType[] = planQuestionTypes(questionCount, "MULTIPLE_CHOICE"),
+    optionCount: number = DEFAULT_OPTION_COUNT
+): Promise<RetrievalTopicResponse> {
+    const levelDisplay = educationLevel === "GCSE" ? "GCSE" : "A-Level";
+    const ao2Count = questionCount - ao1Count;
+    const ao2Range = ao2Count > 1 ? `questions ${ao1Count + 1}–${questionCount}` : `question ${questionCount}`;
+    const allMultipleChoice = questionTypes.every((type) => type === "MULTIPLE_CHOICE");
+    const usedTypes = QUESTION_TYPES.filter((type) => questionTypes.includes(type));
+
+    // All-MCQ quizzes keep the original prompt; other plans swap in per-type rules
+    const questionNoun = allMultipleChoice ? "multiple-choice questions" : "questions";
+    const questionRules = allMultipleChoice
+        ? `● Each question must:\n ○ Be multiple choice with ${optionCount} options: 1 correct answer + ${optionCount - 1} plausible distractors\n ○ Be short and answerable in under 30 seconds\n ○ Have only one unambiguously correct answer\n ○ Use distractors that reflect real misconceptions, not obviously incorrect ideas and test their deep conceptual understanding of the topic`
+        : `● Question types (follow this plan exactly):\n${formatQuestionTypePlan(questionTypes)}\n● ${usedTypes.map((type) => retrievalTypeRules(optionCount)[type]).join("\n● ")}\n● Every question must have only one unambiguously correct answer`;
+    const ao2Format = allMultipleChoice ? "multiple choice format" : "in its planned question type";
+    const answerRules = allMultipleChoice
+        ? `● The position of the correct answer should be random\n● The correct answer for a particular question should never be in the same position as the previous question\n● Before generating any questions, create a random ${questionCount} letter sequence using the letters ${optionLetters(optionCount).join(",")}. There must be roughly even amount of each letter\n● This sequence will be the answer key and determine the position of the correct answer`
+        : `● The answer key has one entry per question, in question order\n● Multiple choice: the letter ${describeOptionLetters(optionCount)} of the correct option. Positions must be random, roughly even, and never the same letter as the previous multiple-choice question\n● Select two: both correct letters in letter order, separated by a comma, e.g. "a,c"\n● True/false: "true" or "false", with a mix of both\n● Short and long answer: "-" (their answers go in "markPoints")`;
+    const questionFormat = allMultipleChoice
+        ? retrievalTypeFormats(optionCount).MULTIPLE_CHOICE
+        : usedTypes.map((type) => retrievalTypeFormats(optionCount)[type]).join(",\n ");
+
+    const prompt = `You are generating a ready-to-use ${levelDisplay} retrieval quiz for a single topic. Treat this as a final deliverable that students can use immediately.\n\n🔹 Format Requirements\n● Generate EXACTLY ${questionCount} ${questionNoun} for ${topicName}: Use a topic name based on image\n● Plain text only (no markdown, tables, or images)\n● Base all questions on the content in the submitted revision-guide image\n\n🔹 Question Structure\n● Each topic must include:\n ○ ${ao1Count} AO1 questions (recall of facts/content)\n ○ ${ao2Count} AO2 questions (application/data/one-sentence cause-effect reasoning)\n${questionRules}\n\n🔹 AO2 Question Requirements\nAO2 questions (${ao2Range} in each topic) must include:\n● Application of knowledge to an unfamiliar example AND at least one other AO2 feature below\n● Interpretation of data, results, observations, or experimental outcomes\n● A cause/effect or "why" question ONLY when linked to a specific scenario, result, or change in conditions (${ao2Format})\n● Each AO2 question must involve reasoning beyond recall and require students to apply concepts in context\n● Difficulty should be hard and match real exam AO2 standards\n● No AO1 recall, definitions, or memorized facts shall be disguised as AO2 under any circumstances\n● All AO2 questions shall assess different applied concepts from the image; repetition of the same idea in different wording is not allowed\n● Avoid AO3 evaluative, opinion-based, or essay-style questions\n● If a question can be answered correctly by memorizing a single textbook sentence, it is NOT AO2\n\n❗ Do NOT:\n● Label which option is correct\n● Mention which questions are AO1/AO2 in the quiz\n● Add any explanations in the quiz\n\n📎 Requirements For Answers\n● At the very end of the document, after all ${questionCount} questions, include an answer key only\n${answerRules}\n● Do not show any planning steps\n● Do not list or label which answers are correct until the answer key\n\nPlease generate the quiz in a JSON structure with the following format:\n{\n "name": "${topicName}",\n "questions": [\n ${questionFormat}\n ],\n "answer_key": ["", "", "", ... ${questionCount} ${allMultipleChoice ? "letters" : "entries"} total]\n}`;
+
+    const userContent = buildMaterialContent(prompt, material);
+
+    const topicData = await completeWithValidation<RetrievalTopicResponse>(
+        provider,
+        {
+            task: "retrieval-topic",
+            messages: [
+                {
+                    role: "user",
+                    content: userContent,
+                },
+            ],
+            jsonMode: true,
+            variables: { topicName, questionCount, optionCount, questionTypes: questionTypes.join("|") },
+        },
+        (data) => validateRetrievalTopic(data, { questionCount, optionCount, questionTypes })
+    );
 
     return topicData;
 }
 
 /**
- * Generate a complete 30-question retrieval quiz from 3 images using concurrent API calls
+ * Generate a complete retrieval quiz (one image, set of pages or PDF per topic) using concurrent API calls.
+ * Defaults to 3 topics × 10 MCQs; every topic follows the same question type plan.
+ * Each topic is retried with backoff on its own; topics that still fail are reported in
+ * failedTopics and left out, so the topics that did complete are never thrown away.
  */
 export async function generateCompleteRetrievalQuiz(
-    apiKey: string,
-    images: [string, string, string],
-    educationLevel: "GCSE" | "A-LEVEL"
+    provider: LLMProvider,
+    materials: Array<string | TopicMaterial>,
+    educationLevel: "GCSE" | "A-LEVEL",
+    shape: RetrievalQuizShape = {
+        questionsPerTopic: DEFAULT_QUESTIONS_PER_TOPIC,
+        topics: buildDefaultRetrievalTopics(materials.length),
+    },
+    questionType: QuizConfig["questionType"] = "MULTIPLE_CHOICE",
+    questionTypeMix?: QuestionTypeMix,
+    onProgress?: (event: GenerationProgressEvent) => void,
+    onTopicComplete?: (topic: RetrievalTopicResponse & { index: number }) => void,
+    distractorMode: DistractorAnalysisMode = "warn"
 ): Promise<{
     title: string;
     topics: Array<{
+        index: number;
         name: string;
-        questions: Array<{
-            question: string;
-            options: string[];
-        }>;
+        questions: RetrievalTopicResponse["questions"];
     }>;
     answer_key: string[];
+    failedTopics: RetrievalTopicFailure[];
 }> {
-    const client = new OpenAI({
-        apiKey,
-        baseURL: "https://api.openai.com/v1",
-    });
+    if (shape.topics.length !== materials.length) {
+        throw new Error(`Expected material for ${shape.topics.length} topics, got ${materials.length}`);
+    }
+
+    const topicCount = materials.length;
+    const questionTypes = planQuestionTypes(shape.questionsPerTopic, questionType, questionTypeMix);
+    console.log(`🚀 Starting concurrent API calls for ${topicCount} topics (${shape.questionsPerTopic} questions each)...`);
+    console.log(`🧮 Question types: ${questionType === "MIXED" ? questionTypes.join(", ") : QUESTION_TYPE_LABELS[questionType]}`);
+
+    // Make concurrent API calls for all topics
+    const topicPromises = materials.map((material, index) =>
+        withRetries(
+            () => generateTopicQuestions(
+                provider,
+                material,
+                shape.topics[index].name,
+                `${shape.topics[index].revisionLabel}, picture ${index + 1}`,
+                educationLevel,
+                shape.questionsPerTopic,
+                shape.topics[index].ao1Count,
+                questionTypes,
+                shape.optionCount ?? DEFAULT_OPTION_COUNT
+            ),
+            {
+                ...TOPIC_RETRY_OPTIONS,
+                label: shape.topics[index].name,
+                onRetry: (attempt, error) => onProgress?.({
+                    type: "topic-retry",
+                    index,
+                    name: shape.topics[index].name,
+                    attempt,
+                    error: error instanceof Error ? error.message : String(error),
+                }),
+            }
+        ).then(async (generated) => {
+            // Check the distractors before anything is shuffled, so a repair keeps the answer key
+            if (distractorMode === "off") return generated;
+            onProgress?.({ type: "stage", stage: "review", message: `Checking the answer options for ${generated.name}` });
+            return analyzeTopicDistractors(provider, generated, distractorMode);
+        }).then((topic) => {
+            // Report each topic as soon as it lands rather than waiting for the slowest one
+            onTopicComplete?.({ ...topic, index });
+            return topic;
+        })
+    );
 
-    console.log("🚀 Starting concurrent API calls for 3 topics...");
+    console.log(`⏳ Waiting for all ${topicCount} API calls to complete...`);
+    const settled = await Promise.allSettled(topicPromises);
 
-    // Define topic information
-    const topicInfo = [
-        { name: "Topic A", description: "revised last week, first picture" },
-        { name: "Topic B", description: "revised 2–3 weeks ago, second picture" },
-        { name: "Topic C", description: "revised 4+ weeks ago, third picture" }
-    ];
+    const topicResults: Array<RetrievalTopicResponse & { index: number }> = [];
+    const failedTopics: RetrievalTopicFailure[] = [];
+    settled.forEach((outcome, index) => {
+        if (outcome.status === "fulfilled") {
+            topicResults.push({ ...outcome.value, index });
+            return;
+        }
 
-    // Make concurrent API calls for all 3 topics
-    const topicPromises = images.map((image, index) =>
-        generateTopicQuestions(
-            client,
-            image,
-            topicInfo[index].name,
-            topicInfo[index].description,
-            educationLevel
-        )
-    );
+        const retryError = outcome.reason instanceof RetryError ? outcome.reason : null;
+        const cause = retryError ? retryError.cause : outcome.reason;
+        failedTopics.push({
+            index,
+            name: shape.topics[index].name,
+            error: cause instanceof Error ? cause.message : String(cause),
+            validationErrors: cause instanceof LLMValidationError ? cause.errors : undefined,
+            attempts: retryError?.attempts ?? 1,
+        });
+        console.error(`❌ ${shape.topics[index].name} failed after ${retryError?.attempts ?? 1} attempt(s):`, cause);
+        onProgress?.({ type: "topic-failed", failure: failedTopics[failedTopics.length - 1] });
+    });
 
-    console.log("⏳ Waiting for all 3 API calls to complete...");
-    const topicResults = await Promise.all(topicPromises);
-    console.log("✅ All 3 API calls completed successfully");
+    if (topicResults.length === 0) {
+        throw new Error(`All ${topicCount} topics failed: ${failedTopics.map((failure) => `${failure.name}: ${failure.error}`).join("; ")}`);
+    }
+    console.log(`✅ ${topicResults.length} of ${topicCount} API calls completed successfully`);
 
-    // Combine all answer keys into a single 30-letter sequence
+    // Combine all answer keys into a single sequence
     const combinedAnswerKey: string[] = [];
     topicResults.forEach(topic => {
         combinedAnswerKey.push(...topic.answer_key);
@@ -372,73 +660,56 @@ export async function generateCompleteRetrievalQuiz(
     const quiz = {
         title: `Retrieval Quiz – ${new Date().toLocaleDateString()}`,
         topics: topicResults.map(topic => ({
+            index: topic.index,
             name: topic.name,
             questions: topic.questions
         })),
-        answer_key: combinedAnswerKey
+        answer_key: combinedAnswerKey,
+        failedTopics
     };
 
     console.log(`📊 Combined quiz: ${quiz.topics.length} topics, ${combinedAnswerKey.length} total questions`);
 
-    // AFTER quiz completion: Extract text from first image for analysis (non-blocking)
-    // console.log("📝 Starting text extraction analysis (after quiz completion)...");
-    // extractTextFromImage(apiKey, images[0])
-    //     .then(textExtraction => {
-    //         console.log("\n" + "=".repeat(80));
-    //         console.log("📊 TEXT EXTRACTION METRICS FOR IMAGE 1:");
-    //         console.log("=".repeat(80));
-    //         console.log("📄 EXTRACTED TEXT:");
-    //         console.log(textExtraction.extractedText);
-    //         console.log("\n📈 ANALYSIS METRICS:");
-    //         console.log(`   • Extraction Percentage: ${textExtraction.extractionPercentage}%`);
-    //         console.log(`   • Total Words Extracted: ${textExtraction.totalWords}`);
-    //         console.log(`   • Confidence Level: ${textExtraction.confidence}`);
-    //         console.log(`   • Readability Score: ${textExtraction.readabilityScore}`);
-    //         console.log("🚨 UNCLEAR AREAS:");
-    //         textExtraction.unclearAreas.forEach((area, index) => {
-    //             console.log(`   ${index + 1}. ${area}`);
-    //         });
-    //         console.log("=".repeat(80) + "\n");
-    //     })
-    //     .catch(error => {
-    //         console.error("❌ Text extraction failed:", error);
-    //     });
-
     return quiz;
 }
 
 /**
  * Convert demo quiz format to GeneratedQuestion format for PDF generation
+ * (topicConfigs supplies each topic's AO1/AO2 split)
  */
 function convertQuizToGeneratedQuestions(quiz: {
     title: string;
     topics: Array<{
         name: string;
-        questions: Array<{
-            question: string;
-            options: string[];
-        }>;
+        questions: RetrievalTopicResponse["questions"];
     }>;
     answer_key: string[];
-}): GeneratedQuestion[] {
+}, topicConfigs: RetrievalTopicConfig[]): GeneratedQuestion[] {
     const questions: GeneratedQuestion[] = [];
     let questionIndex = 0;
 
-    const letterToIndex = { a: 0, b: 1, c: 2, d: 3 } as const;
+    quiz.topics.forEach((topic, topicIndex) => {
+        const ao1Count = topicConfigs[topicIndex]?.ao1Count ?? Math.ceil(topic.questions.length / 2);
 
-    quiz.topics.forEach((topic) => {
         topic.questions.forEach((question, qIndex) => {
-            const answerLetter = quiz.answer_key[questionIndex];
-            const correctAnswer = letterToIndex[answerLetter as keyof typeof letterToIndex];
+            const type = question.type ?? "MULTIPLE_CHOICE";
+            const answer = quiz.answer_key[questionIndex]?.toLowerCase();
+            const correctAnswer = type === "MULTIPLE_CHOICE"
+                ? optionIndex(answer)
+                : type === "TRUE_FALSE" ? (answer === "true" ? 1 : 0) : undefined;
 
             questions.push({
                 text: question.question,
-                type: "MULTIPLE_CHOICE" as const,
-                options: question.options,
+                type,
+                ...(hasOptions(type) && { options: question.options }),
                 correctAnswer,
-                maxMarks: 1,
+                ...(type === "MULTI_SELECT" && { correctAnswers: parseOptionLetters(answer).sort((a, b) => a - b) }),
+                maxMarks: QUESTION_TYPE_MARKS[type],
                 topic: topic.name,
-                questionNumber: qIndex + 1
+                questionNumber: qIndex + 1,
+                aoLevel: qIndex < ao1Count ? "AO1" : "AO2",
+                ...(question.markPoints && { markPoints: question.markPoints }),
+                ...(question.distractorWarnings && { distractorWarnings: question.distractorWarnings })
             });
 
             questionIndex++;
@@ -450,32 +721,680 @@ function convertQuizToGeneratedQuestions(quiz: {
 
 /**
  * Generate and shuffle a complete retrieval quiz using concurrent API calls
+ * (failedTopics lists any topic that could not be generated; the rest are returned).
+ * Each topic is shuffled as soon as it arrives so onProgress can stream its final questions.
  */
 export async function generateAndShuffleRetrievalQuiz(
-    apiKey: string,
-    images: [string, string, string],
-    educationLevel: "GCSE" | "A-LEVEL"
+    provider: LLMProvider,
+    materials: Array<string | TopicMaterial>,
+    educationLevel: "GCSE" | "A-LEVEL",
+    shape: RetrievalQuizShape = {
+        questionsPerTopic: DEFAULT_QUESTIONS_PER_TOPIC,
+        topics: buildDefaultRetrievalTopics(materials.length),
+    },
+    questionType: QuizConfig["questionType"] = "MULTIPLE_CHOICE",
+    questionTypeMix?: QuestionTypeMix,
+    onProgress?: (event: GenerationProgressEvent) => void,
+    distractorMode: DistractorAnalysisMode = "warn",
+    seed?: string
 ): Promise<{
     questions: GeneratedQuestion[];
+    topics: Array<{ index: number; questions: GeneratedQuestion[] }>; // Completed topics, by material index
     originalAnswerKey: string[];
     shuffledAnswerKey: string[];
+    failedTopics: RetrievalTopicFailure[];
 }> {
-    // Import the shuffle function
-    const { shuffleQuiz } = await import('./shuffle-quiz');
+    // Apply shuffling using the exact demo logic (only MCQ options move), one topic at a time
+    const shuffledTopics = new Map<number, { questions: GeneratedQuestion[]; answerKey: string[] }>();
+    const shuffleTopic = (topic: RetrievalTopicResponse & { index: number }) => {
+        onProgress?.({ type: "stage", stage: "shuffle", message: `Shuffling answer options for ${topic.name}` });
+        // Topics land in any order, so each gets its own generator derived from the quiz seed
+        const shuffled = shuffleQuiz({
+            title: topic.name,
+            topics: [{ name: topic.name, questions: topic.questions }],
+            answer_key: topic.answer_key,
+        }, seed ? createSeededRandom(`${seed}:${topic.index}`) : Math.random);
+
+        // Convert to GeneratedQuestion format for PDF generation
+        const questions = convertQuizToGeneratedQuestions(shuffled, [shape.topics[topic.index]])
+            .map((question) => ({ ...question, topicIndex: topic.index }));
+        shuffledTopics.set(topic.index, { questions, answerKey: shuffled.answer_key });
+        onProgress?.({ type: "topic-done", index: topic.index, name: topic.name, questions });
+    };
 
     // Generate the original quiz using concurrent API calls
-    const originalQuiz = await generateCompleteRetrievalQuiz(apiKey, images, educationLevel);
+    const originalQuiz = await generateCompleteRetrievalQuiz(
+        provider,
+        materials,
+        educationLevel,
+        shape,
+        questionType,
+        questionTypeMix,
+        onProgress,
+        shuffleTopic,
+        distractorMode
+    );
     console.log(originalQuiz);
 
-    // Apply shuffling using the exact demo logic
-    const shuffledQuiz = shuffleQuiz(originalQuiz);
-
-    // Convert to GeneratedQuestion format for PDF generation
-    const questions = convertQuizToGeneratedQuestions(shuffledQuiz);
+    const completed = originalQuiz.topics.map((topic) => shuffledTopics.get(topic.index)!);
 
     return {
-        questions,
+        questions: completed.flatMap((topic) => topic.questions),
+        topics: originalQuiz.topics.map((topic, i) => ({ index: topic.index, questions: completed[i].questions })),
         originalAnswerKey: originalQuiz.answer_key,
-        shuffledAnswerKey: shuffledQuiz.answer_key
+        shuffledAnswerKey: completed.flatMap((topic) => topic.answerKey),
+        failedTopics: originalQuiz.failedTopics
     };
-}
\ No newline at end of file
+}
+
+// ============================================================================
+// DISTRACTOR ANALYSIS - flag (and optionally repair) weak MCQ options per topic
+// ============================================================================
+
+/**
+ * Ask the model which distractors are also correct or contradict their stem; in repair mode it also
+ * rewrites the options of every question with a problem, including the ones the local checks found
+ */
+async function reviewDistractors(
+    provider: LLMProvider,
+    topicName: string,
+    reviewed: Array<{ questionNumber: number; stem: string; options: string[]; correctIndex: number; warnings: DistractorWarning[] }>,
+    repair: boolean
+): Promise<DistractorReviewResponse> {
+    const questionList = reviewed.map((question) => {
+        const options = question.options.map((option, i) => `   ${optionLetter(i)}) ${option}`).join("\n");
+        const found = question.warnings.length > 0
+            ? `\n   Already found: ${question.warnings.map((warning) => warning.message).join("; ")}`
+            : "";
+        return `${question.questionNumber}. ${question.stem}\n${options}\n   Correct: ${optionLetter(question.correctIndex)}${found}`;
+    }).join("\n\n");
+
+    const repairRules = repair
+        ? `\n\n🔹 REPAIR:\n● For every question with a problem (one you found or one listed under "Already found"), give "replacementOptions": all ${reviewed[0]?.options.length ?? DEFAULT_OPTION_COUNT} options in order\n● Copy the correct option into its position character for character; rewrite only the distractors that cause the problem\n● New distractors must be plausible, reflect real misconceptions, be clearly wrong, be similar in length and grammar to the correct option, and never be "all/none of the above"\n● Leave "replacementOptions" out for questions without a problem`
+        : "";
+
+    const prompt = `You are reviewing the answer options of multiple-choice questions from a retrieval quiz on ${topicName}. Students must be able to find the correct answer only by knowing the science.
+
+🔹 QUESTIONS:
+${questionList}
+
+🔹 FOR EACH QUESTION, LIST:
+● "alsoCorrect": letters of distractors that are also a correct answer to the question as written (even partly, or under a reasonable reading)
+● "contradictsStem": letters of distractors that contradict information given in the question itself, so they can be ruled out without any knowledge
+● Never list the correct option's letter; use [] when there is nothing to report${repairRules}
+
+🔹 OUTPUT FORMAT:
+Respond with ONLY valid JSON in this exact format:
+{
+  "questions": [
+    {"questionNumber": ${reviewed[0]?.questionNumber ?? 1}, "alsoCorrect": [], "contradictsStem": []${repair ? `, "replacementOptions": ${emptyOptions(reviewed[0]?.options.length ?? DEFAULT_OPTION_COUNT)}` : ""}}
+  ]
+}
+Include exactly ${reviewed.length} entries, one per question above, using the question numbers shown.`;
+
+    return completeWithValidation<DistractorReviewResponse>(
+        provider,
+        {
+            task: "distractor-review",
+            messages: [
+                {
+                    role: "user",
+                    content: prompt,
+                },
+            ],
+            jsonMode: true,
+            temperature: 0,
+            variables: { topicName, questionNumbers: reviewed.map((question) => question.questionNumber).join("|") },
+        },
+        (data) => validateDistractorReview(data, reviewed, repair)
+    );
+}
+
+/**
+ * Check one generated topic's MCQ distractors and attach the warnings to its questions.
+ * Local checks catch near-duplicates, catch-all options and length/grammar giveaways; the model
+ * catches distractors that are also correct or contradict the stem. In repair mode flagged
+ * questions get rewritten distractors - the correct option keeps its text and letter, so the
+ * answer key is unchanged. If the model review fails, the local warnings are still attached.
+ */
+async function analyzeTopicDistractors(
+    provider: LLMProvider,
+    topic: RetrievalTopicResponse,
+    mode: DistractorAnalysisMode
+): Promise<RetrievalTopicResponse> {
+    const reviewed = topic.questions.flatMap((question, index) => {
+        const correctIndex = optionIndex(topic.answer_key[index]);
+        if ((question.type ?? "MULTIPLE_CHOICE") !== "MULTIPLE_CHOICE" || !question.options || correctIndex === -1 || correctIndex >= question.options.length) return [];
+        const warnings = analyzeOptions(question.question, question.options, correctIndex);
+        return [{ questionNumber: index + 1, stem: question.question, options: question.options, correctIndex, warnings }];
+    });
+    if (reviewed.length === 0) return topic;
+
+    let reviews: DistractorReviewResponse["questions"] = [];
+    try {
+        reviews = (await reviewDistractors(provider, topic.name, reviewed, mode === "repair")).questions;
+    } catch (error) {
+        console.error(`❌ Distractor review failed for ${topic.name} - keeping the local checks only:`, error);
+    }
+
+    const questions = topic.questions.map((question, index) => {
+        const local = reviewed.find((r) => r.questionNumber === index + 1);
+        if (!local) return question;
+        const review = reviews.find((r) => r.questionNumber === index + 1);
+
+        const quoteOption = (letter: string) => `"${local.options[optionIndex(letter)]}"`;
+        const warnings: DistractorWarning[] = [
+            ...local.warnings,
+            ...(review?.alsoCorrect ?? []).map((letter): DistractorWarning => ({
+                issue: "also-correct",
+                message: `${quoteOption(letter)} is also a correct answer`,
+                repaired: false,
+            })),
+            ...(review?.contradictsStem ?? []).map((letter): DistractorWarning => ({
+                issue: "contradicts-stem",
+                message: `${quoteOption(letter)} contradicts the question`,
+                repaired: false,
+            })),
+        ];
+
+        if (mode !== "repair" || !review?.replacementOptions) {
+            return warnings.length > 0 ? { ...question, distractorWarnings: warnings } : question;
+        }
+
+        // Whatever the local checks still find in the rewritten options stays open; the rest count as fixed
+        const remaining = analyzeOptions(question.question, review.replacementOptions, local.correctIndex);
+        const fixed = warnings.filter((warning) => !remaining.some((r) => r.issue === warning.issue));
+        return {
+            ...question,
+            options: review.replacementOptions,
+            distractorWarnings: [...fixed.map((warning) => ({ ...warning, repaired: true })), ...remaining],
+        };
+    });
+
+    const flagged = questions.filter((question) => question.distractorWarnings?.some((warning) => !warning.repaired)).length;
+    const repaired = questions.filter((question, index) => question.options !== topic.questions[index].options).length;
+    console.log(`🧐 ${topic.name}: distractor problems in ${flagged} of ${reviewed.length} MCQs${mode === "repair" ? `, ${repaired} repaired` : ""}`);
+
+    return { ...topic, questions };
+}
+
+// ============================================================================
+// PARTIAL REGENERATION - one retrieval question, or one topic from its image
+// ============================================================================
+
+const RETRIEVAL_AO_DESCRIPTIONS: Record<string, string> = {
+    AO1: "AO1 question (recall of facts/content)",
+    AO2: "AO2 question (application/data/one-sentence cause-effect reasoning). It must apply knowledge to an unfamiliar example and require reasoning beyond recall; no AO1 recall disguised as AO2",
+};
+
+/**
+ * Replace one retrieval question with a fresh one of the same topic, type and AO level.
+ * A multiple-choice replacement keeps the original answer letter so the answer sequence is unchanged.
+ */
+export async function regenerateRetrievalQuestion(
+    provider: LLMProvider,
+    material: string | TopicMaterial,
+    questions: GeneratedQuestion[],
+    index: number,
+    educationLevel: "GCSE" | "A-LEVEL",
+    random: RandomSource = Math.random
+): Promise<GeneratedQuestion> {
+    const target = questions[index];
+    if (!target) {
+        throw new Error(`Question ${index + 1} does not exist`);
+    }
+
+    const levelDisplay = educationLevel === "GCSE" ? "GCSE" : "A-Level";
+    const topicName = target.topic ?? "the topic";
+    const aoDescription = RETRIEVAL_AO_DESCRIPTIONS[target.aoLevel ?? "AO1"] ?? RETRIEVAL_AO_DESCRIPTIONS.AO1;
+    const otherQuestions = questions
+        .filter((q, i) => i !== index && q.topic === target.topic)
+        .map((q) => `● ${q.text}`)
+        .join("\n");
+    // A replacement keeps the option count of the question it replaces
+    const optionCount = target.options?.length ?? DEFAULT_OPTION_COUNT;
+    const answerRule = target.type === "MULTIPLE_CHOICE"
+        ? `Give the letter ${describeOptionLetters(optionCount)} of the correct option in "answer"`
+        : target.type === "MULTI_SELECT"
+        ? `Give the letters of both correct options in "answer", in letter order and separated by a comma, e.g. "a,c"`
+        : target.type === "TRUE_FALSE" ? `Give "true" or "false" in "answer"` : `Set "answer" to "-"`;
+    const questionFormat = retrievalTypeFormats(optionCount)[target.type].replace(/}$/, `, "answer": ""}`);
+
+    const prompt = `You are replacing ONE question in a ready-to-use ${levelDisplay} retrieval quiz on ${topicName}. Treat this as a final deliverable that students can use immediately.\n\n🔹 Requirements\n● Write exactly 1 ${aoDescription}\n● ${retrievalTypeRules(optionCount)[target.type]}\n● Base the question on the content in the submitted revision-guide image\n● Plain text only (no markdown, tables, or images)\n● It must test a different idea from the question it replaces and from every other question in this topic\n\n🔹 Question Being Replaced\n● ${target.text}\n\n🔹 Other Questions In This Topic (do not repeat them)\n${otherQuestions || "● None"}\n\n📎 Answer\n● ${answerRule}\n\nRespond with ONLY valid JSON in this exact format:\n${questionFormat}`;
+
+    const userContent = buildMaterialContent(prompt, material);
+
+    console.log(`🔁 Regenerating question ${index + 1} (${topicName}, ${target.aoLevel ?? "AO1"}, ${QUESTION_TYPE_LABELS[target.type]})...`);
+
+    const result = await completeWithValidation<RetrievalQuestionResponse>(
+        provider,
+        {
+            task: "retrieval-question",
+            messages: [
+                {
+                    role: "user",
+                    content: userContent,
+                },
+            ],
+            jsonMode: true,
+            variables: { topicName, optionCount, questionType: target.type },
+        },
+        (data) => validateRetrievalQuestion(data, { questionType: target.type, optionCount })
+    );
+
+    const answer = result.answer.toLowerCase();
+    const replacement: GeneratedQuestion = { ...target, text: result.question };
+    // Verdicts from the grounding check, distractor analysis and AO audit described the old question
+    delete replacement.grounding;
+    delete replacement.distractorWarnings;
+    delete replacement.aoAudit;
+
+    if (target.type === "MULTIPLE_CHOICE" && result.options) {
+        // Shuffle, then move the correct option back into the original answer slot
+        const shuffled = shuffleOptions(result.options, optionIndex(answer), random);
+        const placed = moveCorrectOption(shuffled.options, shuffled.correctIndex, target.correctAnswer ?? shuffled.correctIndex);
+        replacement.options = placed.options;
+        replacement.correctAnswer = placed.correctIndex;
+    } else if (target.type === "MULTI_SELECT" && result.options) {
+        const shuffled = shuffleMultiSelectOptions(result.options, parseOptionLetters(answer), random);
+        replacement.options = shuffled.options;
+        replacement.correctAnswers = shuffled.correctIndices;
+    } else if (target.type === "TRUE_FALSE") {
+        replacement.correctAnswer = answer === "true" ? 1 : 0;
+    } else {
+        replacement.markPoints = result.markPoints;
+    }
+
+    console.log(`✅ Question ${index + 1} regenerated`);
+    return replacement;
+}
+
+// Shuffle one freshly generated topic's options and convert it to quiz questions (tagged with the
+// topic's upload position when it is known)
+function shuffleTopic(
+    topicData: RetrievalTopicResponse,
+    topicName: string,
+    config: RetrievalTopicConfig,
+    random: RandomSource,
+    topicIndex?: number
+): GeneratedQuestion[] {
+    const shuffled = shuffleQuiz({
+        title: topicName,
+        topics: [{ name: topicName, questions: topicData.questions }],
+        answer_key: topicData.answer_key,
+    }, random);
+    const questions = convertQuizToGeneratedQuestions(shuffled, [config]);
+    return topicIndex === undefined ? questions : questions.map((question) => ({ ...question, topicIndex }));
+}
+
+/**
+ * Shuffle a freshly generated topic's options, merge it into the quiz and place its correct answers
+ * around the letters already in the quiz so the combined answer sequence validates. Every question
+ * merge keeps from the quiz stays the same object with the same answer; the same random source
+ * always gives the same letters.
+ */
+function fitTopicIntoQuiz(
+    topicData: RetrievalTopicResponse,
+    topicName: string,
+    config: RetrievalTopicConfig,
+    questions: GeneratedQuestion[],
+    merge: (topicQuestions: GeneratedQuestion[]) => GeneratedQuestion[],
+    random: RandomSource = Math.random,
+    topicIndex?: number
+): { questions: GeneratedQuestion[]; answerSequenceErrors: string[] } {
+    const existing = new Set(questions);
+    const merged = merge(shuffleTopic(topicData, topicName, config, random, topicIndex));
+
+    const fitted = fitAnswerSequence(merged, (question) => !existing.has(question), random);
+    if (!fitted.isValid) {
+        console.warn(`⚠️ Combined answer sequence has ${fitted.errors.length} issue(s): ${fitted.errors.join("; ")}`);
+    }
+
+    return { questions: fitted.questions, answerSequenceErrors: fitted.errors };
+}
+
+/**
+ * Re-run generateTopicQuestions for one topic's material and merge the new questions back in place.
+ * The topic keeps its name, length, AO split, question types and option count; its correct answers are placed
+ * around the rest of the quiz's letters so the combined answer sequence validates (any errors left are returned).
+ */
+export async function regenerateRetrievalTopic(
+    provider: LLMProvider,
+    material: string | TopicMaterial,
+    questions: GeneratedQuestion[],
+    topicName: string,
+    educationLevel: "GCSE" | "A-LEVEL",
+    topicConfig?: RetrievalTopicConfig,
+    random: RandomSource = Math.random
+): Promise<{ questions: GeneratedQuestion[]; answerSequenceErrors: string[] }> {
+    const positions = questions
+        .map((q, i) => (q.topic === topicName ? i : -1))
+        .filter((i) => i !== -1);
+    if (positions.length === 0) {
+        throw new Error(`Topic '${topicName}' is not in this quiz`);
+    }
+
+    const topicQuestions = positions.map((i) => questions[i]);
+    const questionTypes = topicQuestions.map((q) => q.type);
+    const ao1Count = topicQuestions.filter((q) => (q.aoLevel ?? "AO1") === "AO1").length;
+    const optionCount = topicQuestions.find((q) => hasOptions(q.type) && q.options)?.options?.length ?? DEFAULT_OPTION_COUNT;
+    const config: RetrievalTopicConfig = {
+        name: topicConfig?.name ?? topicName,
+        revisionLabel: topicConfig?.revisionLabel ?? "",
+        ao1Count,
+    };
+
+    console.log(`🔁 Regenerating topic '${topicName}' (${positions.length} questions)...`);
+
+    const topicData = await generateTopicQuestions(
+        provider,
+        material,
+        config.name,
+        config.revisionLabel,
+        educationLevel,
+        positions.length,
+        ao1Count,
+        questionTypes,
+        optionCount
+    );
+
+    const result = fitTopicIntoQuiz(topicData, topicName, config, questions, (regenerated) => {
+        const merged = [...questions];
+        positions.forEach((position, i) => {
+            merged[position] = regenerated[i];
+        });
+        return merged;
+    }, random, topicQuestions[0].topicIndex);
+    console.log(`✅ Topic '${topicName}' regenerated`);
+
+    return result;
+}
+
+/**
+ * Retry a topic that failed during generation and insert it at `insertAt`, following the quiz's
+ * original shape and question type plan (the topic takes the name the model gives it, and its
+ * questions record `topicIndex` as their upload position).
+ * In a shuffled or interleaved quiz the topic takes its place in that order; every other question
+ * keeps its position and answer.
+ */
+export async function retryRetrievalTopic(
+    provider: LLMProvider,
+    material: string | TopicMaterial,
+    questions: GeneratedQuestion[],
+    insertAt: number,
+    educationLevel: "GCSE" | "A-LEVEL",
+    topicConfig: RetrievalTopicConfig,
+    questionsPerTopic: number,
+    questionType: QuizConfig["questionType"] = "MULTIPLE_CHOICE",
+    questionTypeMix?: QuestionTypeMix,
+    random: RandomSource = Math.random,
+    optionCount: number = DEFAULT_OPTION_COUNT,
+    questionOrder: QuestionOrderMode = "keep",
+    topicIndex?: number
+): Promise<{ questions: GeneratedQuestion[]; answerSequenceErrors: string[] }> {
+    console.log(`🔁 Retrying failed topic '${topicConfig.name}' (${questionsPerTopic} questions)...`);
+
+    const topicData = await withRetries(
+        () => generateTopicQuestions(
+            provider,
+            material,
+            topicConfig.name,
+            topicConfig.revisionLabel,
+            educationLevel,
+            questionsPerTopic,
+            topicConfig.ao1Count,
+            planQuestionTypes(questionsPerTopic, questionType, questionTypeMix),
+            optionCount
+        ),
+        { ...TOPIC_RETRY_OPTIONS, label: topicConfig.name }
+    );
+
+    const result = fitTopicIntoQuiz(topicData, topicData.name, topicConfig, questions, (generated) =>
+        insertTopicQuestions(questions, generated, insertAt, questionOrder, random, topicIndex), random, topicIndex);
+    console.log(`✅ Topic '${topicConfig.name}' generated as '${topicData.name}' (${questionOrder} order)`);
+
+    return result;
+}
+
+// ============================================================================
+// SOURCE GROUNDING - verify each question against the text of its material
+// ============================================================================
+
+// The correct answer as the grounding check reads it
+function describeCorrectAnswer(question: GeneratedQuestion): string {
+    if (question.type === "MULTIPLE_CHOICE") {
+        return question.options?.[question.correctAnswer ?? -1] ?? "(not set)";
+    }
+    if (question.type === "MULTI_SELECT") {
+        const correct = (question.correctAnswers ?? []).map((index) => question.options?.[index]).filter(Boolean);
+        return correct.length > 0 ? correct.join(" AND ") : "(not set)";
+    }
+    if (question.type === "TRUE_FALSE") {
+        return question.correctAnswer === 1 ? "True" : "False";
+    }
+    return question.markPoints && question.markPoints.length > 0 ? question.markPoints.join("; ") : "(open answer)";
+}
+
+/**
+ * Gather the text of one topic's material: PDF text as extracted, plus the text the model reads off
+ * each page image (the same extraction as the readability pre-check)
+ */
+async function readMaterialText(provider: LLMProvider, material: string | TopicMaterial): Promise<string> {
+    const { images, text } = typeof material === "string" ? { images: [material], text: undefined } : material;
+
+    const extractions = await Promise.all(images.map((image) => extractTextFromImage(provider, image)));
+    const imageText = extractions.map((extraction, index) =>
+        images.length > 1 ? `--- Image ${index + 1} ---\n${extraction.extractedText}` : extraction.extractedText
+    );
+
+    return [...imageText, ...(text ? [text] : [])].join("\n\n").trim();
+}
+
+/**
+ * Score how well the source text supports each question and its correct answer
+ */
+async function checkQuestionGrounding(
+    provider: LLMProvider,
+    sourceText: string,
+    questions: GeneratedQuestion[]
+): Promise<GroundingCheckResponse> {
+    const questionList = questions.map((question, index) => {
+        const options = hasOptions(question.type) && question.options
+            ? `\n   Options: ${question.options.map((option, i) => `${String.fromCharCode(65 + i)}) ${option}`).join(" | ")}`
+            : "";
+        return `${index + 1}. [${QUESTION_TYPE_LABELS[question.type]}] ${question.text}${options}\n   Correct answer: ${describeCorrectAnswer(question)}`;
+    }).join("\n");
+
+    const prompt = `You are checking quiz questions for facts that are not in the source material. Students will be tested on these questions, so every question and its correct answer must come from the source.
+
+🔹 SOURCE MATERIAL (text read from the submitted revision guide):
+"""
+${sourceText || "(no readable text)"}
+"""
+
+🔹 QUESTIONS:
+${questionList}
+
+🔹 FOR EACH QUESTION:
+● Decide whether the source supports both the question's premise and its correct answer:
+  - "supported": the source states or directly implies them
+  - "partial": the topic is in the source, but some detail of the question or answer is not
+  - "unsupported": the question or answer relies on facts the source does not contain
+● Give a score from 0 (nothing in the source) to 100 (stated outright)
+● Quote the shortest passage of the source that supports it, copied exactly ("" if there is none)
+● List each fact in the question or correct answer that the source does not contain
+● Application questions may use a new scenario; judge whether the science they apply is in the source, not the scenario itself
+● The source text was read from images, so diagrams and labels may appear as fragments; give credit where the fragments clearly cover the fact
+
+🔹 OUTPUT FORMAT:
+Respond with ONLY valid JSON in this exact format:
+{
+  "questions": [
+    {
+      "questionNumber": 1,
+      "support": "supported|partial|unsupported",
+      "score": 90,
+      "snippet": "exact quote from the source",
+      "unsupportedClaims": []
+    }
+  ]
+}
+Include exactly ${questions.length} entries, one per question, in question order.`;
+
+    return completeWithValidation<GroundingCheckResponse>(
+        provider,
+        {
+            task: "grounding-check",
+            messages: [
+                {
+                    role: "user",
+                    content: prompt,
+                },
+            ],
+            jsonMode: true,
+            temperature: 0,
+            variables: { questionCount: questions.length },
+        },
+        (data) => validateGroundingCheck(data, questions.length)
+    );
+}
+
+/**
+ * Post-generation check that the questions only use what the material says: attaches a grounding
+ * verdict (support, score, supporting snippet, unsupported claims) to each question.
+ * A failed check is logged and the questions come back unchanged - it never costs the quiz.
+ */
+export async function verifyQuestionGrounding(
+    provider: LLMProvider,
+    material: string | TopicMaterial,
+    questions: GeneratedQuestion[]
+): Promise<GeneratedQuestion[]> {
+    if (questions.length === 0) return questions;
+
+    try {
+        console.log(`🔎 Checking ${questions.length} questions against the source material...`);
+        const sourceText = await readMaterialText(provider, material);
+        const { questions: verdicts } = await checkQuestionGrounding(provider, sourceText, questions);
+
+        const grounded = questions.map((question, index) => {
+            const verdict = verdicts.find((v) => v.questionNumber === index + 1);
+            if (!verdict) return question;
+            const { support, score, snippet, unsupportedClaims } = verdict;
+            return { ...question, grounding: { support, score, snippet, unsupportedClaims } };
+        });
+
+        const flagged = grounded.filter((question) => question.grounding && question.grounding.support !== "supported").length;
+        console.log(`✅ Grounding check complete: ${flagged} of ${questions.length} questions flagged`);
+        return grounded;
+    } catch (error) {
+        console.error("❌ Grounding check failed - returning the questions unchecked:", error);
+        return questions;
+    }
+}
+
+// ============================================================================
+// AO AUDIT - classify each question's cognitive demand against its AO slot
+// ============================================================================
+
+/**
+ * Ask the model which assessment objective each question actually assesses, without telling it
+ * which slot the question was written for
+ */
+async function classifyAoLevels(
+    provider: LLMProvider,
+    audited: Array<{ questionNumber: number; question: GeneratedQuestion }>,
+    educationLevel: "GCSE" | "A-LEVEL"
+): Promise<AoClassificationResponse> {
+    const levelDisplay = educationLevel === "GCSE" ? "GCSE" : "A-Level";
+    const questionList = audited.map(({ questionNumber, question }) => {
+        const options = hasOptions(question.type) && question.options
+            ? `\n   Options: ${question.options.map((option, i) => `${String.fromCharCode(65 + i)}) ${option}`).join(" | ")}`
+            : "";
+        return `${questionNumber}. [${QUESTION_TYPE_LABELS[question.type]}] ${question.text}${options}`;
+    }).join("\n");
+
+    const prompt = `You are an experienced ${levelDisplay} examiner classifying quiz questions by the assessment objective they really assess. Judge the thinking a student must do to answer, not the question's format or length.
+
+🔹 ASSESSMENT OBJECTIVES:
+● AO1 – Knowledge & understanding: recall of facts, definitions, names, labels or a described process. A question that can be answered by remembering one textbook sentence is AO1, even when it is set in a scenario or starts "explain"
+● AO2 – Apply & analyse: applying knowledge to an unfamiliar situation, interpreting data or results, calculations, or linked cause-effect reasoning about a specific change
+● AO3 – Evaluate & create: judging, evaluating evidence or methods, drawing and justifying conclusions, designing or improving investigations
+
+🔹 QUESTIONS:
+${questionList}
+
+🔹 OUTPUT FORMAT:
+Respond with ONLY valid JSON in this exact format:
+{
+  "questions": [
+    {"questionNumber": ${audited[0]?.questionNumber ?? 1}, "aoLevel": "AO1|AO2|AO3", "reason": "One sentence on what the student has to do"}
+  ]
+}
+Include exactly ${audited.length} entries, one per question above, using the question numbers shown.`;
+
+    return completeWithValidation<AoClassificationResponse>(
+        provider,
+        {
+            task: "ao-classification",
+            messages: [
+                {
+                    role: "user",
+                    content: prompt,
+                },
+            ],
+            jsonMode: true,
+            temperature: 0,
+            variables: {
+                questionNumbers: audited.map(({ questionNumber }) => questionNumber).join("|"),
+                aoLevels: audited.map(({ question }) => question.aoLevel).join("|"),
+            },
+        },
+        (data) => validateAoClassification(data, audited.map(({ questionNumber }) => questionNumber))
+    );
+}
+
+/**
+ * Audit the AO level of every question that has one: command-word rules, or in model mode an
+ * independent classification by the model (falling back to the rules if that call fails).
+ * Each question gets an aoAudit with the level it looks like and any mismatch with its slot.
+ */
+export async function auditAoLevels(
+    provider: LLMProvider,
+    questions: GeneratedQuestion[],
+    educationLevel: "GCSE" | "A-LEVEL",
+    mode: AoAuditMode
+): Promise<GeneratedQuestion[]> {
+    if (mode === "off") return questions;
+
+    let audited = questions.map((question) => {
+        const aoAudit = auditByRules(question);
+        return aoAudit ? { ...question, aoAudit } : question;
+    });
+
+    const toClassify = questions.flatMap((question, index) =>
+        isAuditedAoLevel(question.aoLevel) ? [{ questionNumber: index + 1, question }] : []
+    );
+    if (mode === "model" && toClassify.length > 0) {
+        try {
+            console.log(`🎓 Classifying ${toClassify.length} questions by AO with the model...`);
+            const { questions: classifications } = await classifyAoLevels(provider, toClassify, educationLevel);
+            audited = audited.map((question, index) => {
+                const classification = classifications.find((c) => c.questionNumber === index + 1);
+                if (!classification || !isAuditedAoLevel(question.aoLevel)) return question;
+                const aoAudit: AoAudit = {
+                    classified: classification.aoLevel,
+                    source: "model",
+                    reason: classification.reason,
+                    mismatch: describeAoMismatch(question.aoLevel, classification.aoLevel),
+                };
+                return { ...question, aoAudit };
+            });
+        } catch (error) {
+            console.error("❌ AO classification failed - using the command-word rules:", error);
+        }
+    }
+
+    const { audited: count, mismatched } = summarizeAoAudit(audited);
+    console.log(`🎓 AO audit (${mode}): ${mismatched} of ${count} questions do not match their AO slot`);
+    return audited;
+}
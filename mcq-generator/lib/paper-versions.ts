@@ -0,0 +1,100 @@
+import { GeneratedQuestion } from './types';
+import { enforceAnswerSequence, validateQuizAnswerSequence } from './answer-randomization';
+import { hasGroupedOrder } from './question-order';
+import { createSeededRandom, generateSeed, RandomSource } from './seeded-random';
+import { shuffleArray, shuffleMultiSelectOptions, shuffleOptions } from './shuffle-quiz';
+
+export const PAPER_VERSION_CODES = ['A', 'B', 'C', 'D', 'E', 'F'] as const;
+
+export const MAX_PAPER_VERSIONS = PAPER_VERSION_CODES.length;
+
+export interface PaperVersion {
+  code: string;
+  questions: GeneratedQuestion[];
+  // Problems with this version's MCQ answer letters (repeats, uneven use) - empty when it passes
+  answerSequenceErrors: string[];
+}
+
+export interface PaperVersionOptions {
+  // Also reorder questions within each topic's AO section, or within each topic when its questions are mixed
+  shuffleQuestions?: boolean;
+  // Each version shuffles from `${seed}:${code}`, so the same seed rebuilds the same papers
+  seed?: string;
+}
+
+// Swap questions only with others in the same slot group: their topic's AO section when the quiz
+// is grouped under headings, otherwise their topic - so an interleaved pattern stays interleaved
+function shuffleWithinSlots(questions: GeneratedQuestion[], random: RandomSource): GeneratedQuestion[] {
+  const grouped = hasGroupedOrder(questions);
+  const slots = new Map<string, number[]>();
+  questions.forEach((question, i) => {
+    const key = grouped ? `${question.topic ?? ''}|${question.aoLevel ?? ''}` : question.topic ?? '';
+    slots.set(key, [...(slots.get(key) ?? []), i]);
+  });
+
+  const ordered = [...questions];
+  slots.forEach(positions => {
+    shuffleArray(positions, random).forEach((from, i) => {
+      ordered[positions[i]] = questions[from];
+    });
+  });
+  return ordered;
+}
+
+/**
+ * Build N papers from one retrieval quiz. Version A is the quiz as it stands (so it matches
+ * the answer key on screen); every later version shuffles each MCQ's and multi-select question's options and, optionally,
+ * the question order within each topic's AO section (or topic, for mixed quizzes), then places its
+ * MCQ answers on a fresh letter sequence so its key follows the same rules as the original's.
+ * True/false and written questions keep their answers.
+ */
+export function buildPaperVersions(
+  questions: GeneratedQuestion[],
+  count: number,
+  { shuffleQuestions = false, seed = generateSeed() }: PaperVersionOptions = {}
+): PaperVersion[] {
+  if (!Number.isInteger(count) || count < 1 || count > MAX_PAPER_VERSIONS) {
+    throw new Error(`Number of versions must be between 1 and ${MAX_PAPER_VERSIONS}`);
+  }
+
+  return PAPER_VERSION_CODES.slice(0, count).map((code, versionIndex) => {
+    if (versionIndex === 0) return { code, questions, answerSequenceErrors: validateQuizAnswerSequence(questions).errors };
+
+    const random = createSeededRandom(`${seed}:${code}`);
+    const ordered = shuffleQuestions
+      ? shuffleWithinSlots(questions, random)
+      : questions;
+
+    const withShuffledOptions = ordered.map(question => {
+      if (question.type === 'MULTI_SELECT' && question.options && question.correctAnswers) {
+        const shuffled = shuffleMultiSelectOptions(question.options, question.correctAnswers, random);
+        return { ...question, options: shuffled.options, correctAnswers: shuffled.correctIndices };
+      }
+      if (question.type !== 'MULTIPLE_CHOICE' || !question.options || question.correctAnswer === undefined) {
+        return question;
+      }
+      const shuffled = shuffleOptions(question.options, question.correctAnswer, random);
+      return { ...question, options: shuffled.options, correctAnswer: shuffled.correctIndex };
+    });
+
+    const placed = enforceAnswerSequence(withShuffledOptions, random);
+    return { code, questions: placed.questions, answerSequenceErrors: placed.errors };
+  });
+}
+
+/**
+ * The answer as printed in a combined key: the option letter (A+C for multi-select), T/F, or a dash
+ * for written answers
+ */
+export function formatVersionAnswer(question: GeneratedQuestion): string {
+  if (question.type === 'MULTI_SELECT' && question.correctAnswers) {
+    return [...question.correctAnswers].sort((a, b) => a - b).map(index => String.fromCharCode(65 + index)).join('+');
+  }
+  if (question.type === 'MULTIPLE_CHOICE' && question.correctAnswer !== undefined) {
+    return String.fromCharCode(65 + question.correctAnswer);
+  }
+  if (question.type === 'TRUE_FALSE' && question.correctAnswer !== undefined) {
+    return question.correctAnswer === 1 ? 'T' : 'F';
+  }
+  return '-';
+}
@@ -1,5 +1,34 @@
 import jsPDF from 'jspdf';
-import { GeneratedQuestion } from './types';
+import { GeneratedQuestion, MiniQuizResponse, PracticeQuizType, QuizConfig } from './types';
+import { isPracticeQuizType, PRACTICE_QUIZ_SPECS } from './practice-quiz';
+import { formatVersionAnswer, PaperVersion } from './paper-versions';
+import { hasGroupedOrder } from './question-order';
+import { MULTI_SELECT_ANSWER_COUNT, tickBoxesInstruction } from './question-types';
+
+/**
+ * AO section of a retrieval question - falls back to the classic 5 AO1 + 5 AO2 split
+ * for questions generated before aoLevel was recorded
+ */
+function getRetrievalAoLevel(question: GeneratedQuestion, questionNumberInTopic: number): string {
+  if (question.aoLevel) return question.aoLevel;
+  return questionNumberInTopic <= 5 ? "AO1" : "AO2";
+}
+
+/**
+ * Small "Topic - AO1" line above a question, for quizzes whose topics or AO levels are mixed
+ * together so there are no headings to group them under. Returns the new y position.
+ */
+function renderQuestionLabel(doc: jsPDF, question: GeneratedQuestion, x: number, y: number): number {
+  const label = [question.topic, getRetrievalAoLevel(question, question.questionNumber ?? 1)].filter(Boolean).join(" - ");
+  doc.setFontSize(9);
+  doc.setFont("helvetica", "italic");
+  doc.setTextColor(110, 110, 110);
+  doc.text(label, x, y);
+  doc.setTextColor(0, 0, 0);
+  doc.setFontSize(11);
+  doc.setFont("helvetica", "normal");
+  return y + 5;
+}
 
 /**
  * Enhanced text rendering with superscripts, subscripts, and symbols
@@ -408,7 +437,128 @@ function renderFormattedLine(
   doc.setFont("helvetica", "normal");
 }
 
-export function generatePDF(questions: GeneratedQuestion[], title: string = "Generated Quiz"): jsPDF {
+const MINI_QUIZ_SECTIONS = [
+  { aoLevel: "AO1", title: "AO1 – Remember & Understand" },
+  { aoLevel: "AO2", title: "AO2 – Apply & Analyse" },
+  { aoLevel: "AO3", title: "AO3 – Evaluate & Create" },
+] as const;
+
+function getMiniQuizSection(question: GeneratedQuestion): "AO1" | "AO2" | "AO3" {
+  return question.aoLevel === "AO2" || question.aoLevel === "AO3" ? question.aoLevel : "AO1";
+}
+
+/**
+ * Mark points for a mini quiz question - its own list, or the quiz-wide mark scheme entry
+ * for quizzes saved before questions carried their mark points
+ */
+function getMiniQuizMarkPoints(question: GeneratedQuestion): string[] {
+  if (question.markPoints) return question.markPoints;
+
+  const markScheme = question.markScheme as MiniQuizResponse["markScheme"] | undefined;
+  if (!markScheme) return [];
+  const entry = [...(markScheme.ao1 || []), ...(markScheme.ao2 || []), ...(markScheme.ao3 || [])]
+    .find(item => item.questionNumber === question.questionNumber);
+  return entry?.markPoints ?? [];
+}
+
+/**
+ * "Tick (✓) two boxes." - the built-in fonts have no ✓, so the tick is drawn
+ */
+function renderTickInstruction(doc: jsPDF, count: number, x: number, y: number): void {
+  const [before, after] = tickBoxesInstruction(count).split("✓");
+  doc.text(before, x, y);
+  const tickX = x + doc.getTextWidth(before);
+  doc.lines([[1, 1.3], [2.2, -3]], tickX + 0.4, y - 1.4);
+  doc.text(after, tickX + 3, y);
+}
+
+/**
+ * Render what the student answers on below the question text: MCQ options, tick boxes for a
+ * multi-select question, a True / False choice, or (when answerLines is set) ruled lines for
+ * written answers. Returns the new y position.
+ */
+function renderAnswerFormat(
+  doc: jsPDF,
+  question: GeneratedQuestion,
+  yPosition: number,
+  margin: number,
+  pageWidth: number,
+  answerLines: boolean
+): number {
+  const lineHeight = 7;
+
+  if (question.type === "MULTIPLE_CHOICE" && question.options) {
+    yPosition += 5;
+    question.options.forEach((option, optIndex) => {
+      const optionLabel = String.fromCharCode(65 + optIndex); // A, B, C, D (uppercase)
+      const processedOption = preprocessScientificText(option);
+      const optionResult = renderFormattedText(
+        doc,
+        `  ${optionLabel}) ${processedOption}`,
+        margin + 5,
+        yPosition,
+        pageWidth - margin * 2 - 15,
+        11
+      );
+      yPosition += optionResult.height + 2;
+    });
+  } else if (question.type === "MULTI_SELECT" && question.options) {
+    yPosition += 5;
+    renderTickInstruction(doc, question.correctAnswers?.length ?? MULTI_SELECT_ANSWER_COUNT, margin + 5, yPosition);
+    yPosition += lineHeight;
+    question.options.forEach((option, optIndex) => {
+      const optionLabel = String.fromCharCode(65 + optIndex);
+      doc.rect(margin + 7, yPosition - 3.5, 4, 4);
+      const optionResult = renderFormattedText(
+        doc,
+        `${optionLabel}) ${preprocessScientificText(option)}`,
+        margin + 14,
+        yPosition,
+        pageWidth - margin * 2 - 20,
+        11
+      );
+      yPosition += Math.max(optionResult.height, 5) + 2;
+    });
+  } else if (question.type === "TRUE_FALSE") {
+    yPosition += 5;
+    doc.text("  True  /  False  (circle one)", margin + 5, yPosition);
+    yPosition += lineHeight;
+  } else if (answerLines && (question.type === "SHORT_ANSWER" || question.type === "LONG_ANSWER")) {
+    yPosition += 8;
+    const lines = question.type === "LONG_ANSWER" ? 5 : 2;
+    for (let i = 0; i < lines; i++) {
+      doc.line(margin, yPosition, pageWidth - margin, yPosition);
+      yPosition += lineHeight;
+    }
+  }
+
+  return yPosition;
+}
+
+/**
+ * Print the paper's version code in the top-right corner of every page, so loose sheets
+ * can be matched to the right column of the combined answer key
+ */
+function stampVersionCode(doc: jsPDF, versionCode: string, margin: number): void {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "bold");
+  for (let page = 1; page <= doc.getNumberOfPages(); page++) {
+    doc.setPage(page);
+    doc.text(`Version ${versionCode}`, pageWidth - margin, margin - 10, { align: "right" });
+  }
+}
+
+export function generatePDF(
+  questions: GeneratedQuestion[],
+  title: string = "Generated Quiz",
+  quizType?: QuizConfig["quizType"],
+  versionCode?: string
+): jsPDF {
+  if (quizType && isPracticeQuizType(quizType)) {
+    return generatePracticeQuizPDF(questions, quizType);
+  }
+
   const doc = new jsPDF();
   const pageWidth = doc.internal.pageSize.getWidth();
   const pageHeight = doc.internal.pageSize.getHeight();
@@ -416,32 +566,17 @@ export function generatePDF(questions: GeneratedQuestion[], title: string = "Gen
   const lineHeight = 7;
   let yPosition = margin;
 
-  // Check if this is a Mini Quiz (has aoLevel property)
-  const isMiniQuiz = questions.some(q => q.aoLevel);
+  // Check if this is a Mini Quiz (retrieval questions carry no mark scheme)
+  const isMiniQuiz = quizType ? quizType === "mini" : questions.some(q => q.markScheme);
   
   if (isMiniQuiz) {
-    // Mini Quiz Format
+    // Mini Quiz Format - sections follow each question's AO level, so edited quizzes
+    // (questions added, removed or reordered) still print correctly
     const topicName = questions[0]?.topic || "Mini Quiz";
-    
-    // Determine education level and question counts from the questions array
-    const totalQuestions = questions.length;
-    let ao1Count: number, ao2Count: number, ao3Count: number;
-    let isGCSE = false;
-    
-    // Determine if this is GCSE or A-Level based on total questions
-    if (totalQuestions === 19) {
-      // GCSE
-      isGCSE = true;
-      ao1Count = 10;
-      ao2Count = 6;
-      ao3Count = 3;
-    } else {
-      // A-Level (24 questions)
-      isGCSE = false;
-      ao1Count = 8;
-      ao2Count = 10;
-      ao3Count = 6;
-    }
+    const sections = MINI_QUIZ_SECTIONS.map(section => ({
+      ...section,
+      questions: questions.filter(q => getMiniQuizSection(q) === section.aoLevel),
+    })).filter(section => section.questions.length > 0);
     
     // Title
     doc.setFontSize(16);
@@ -449,106 +584,46 @@ export function generatePDF(questions: GeneratedQuestion[], title: string = "Gen
     doc.text(`${topicName} – Mini Quiz`, margin, yPosition);
     yPosition += lineHeight * 2;
 
-    // AO1 Section
-    doc.setFontSize(12);
-    doc.setFont("helvetica", "bold");
-    doc.text(`AO1 – Remember & Understand (${ao1Count} questions)`, margin, yPosition);
-    yPosition += lineHeight * 1.5;
-
-    // AO1 Questions
-    doc.setFontSize(11);
-    doc.setFont("helvetica", "normal");
-    questions.slice(0, ao1Count).forEach((question, index) => {
-      if (yPosition > pageHeight - 40) {
-        doc.addPage();
-        yPosition = margin;
-      }
-
-      const questionText = `${index + 1}. ${preprocessScientificText(question.text)}`;
-      const questionResult = renderFormattedText(
-        doc, 
-        questionText, 
-        margin, 
-        yPosition, 
-        pageWidth - margin * 2,
-        11
-      );
-      yPosition += questionResult.height + 5;
-    });
-
-    yPosition += lineHeight;
-
-    // AO2 Section
-    if (yPosition > pageHeight - 60) {
-      doc.addPage();
-      yPosition = margin;
-    }
-    
-    doc.setFontSize(12);
-    doc.setFont("helvetica", "bold");
-    doc.text(`AO2 – Apply & Analyse (${ao2Count} questions)`, margin, yPosition);
-    yPosition += lineHeight * 1.5;
-
-    // AO2 Questions
-    doc.setFontSize(11);
-    doc.setFont("helvetica", "normal");
-    questions.slice(ao1Count, ao1Count + ao2Count).forEach((question, index) => {
-      if (yPosition > pageHeight - 40) {
-        doc.addPage();
-        yPosition = margin;
+    let questionNumber = 0;
+    sections.forEach((section, sectionIndex) => {
+      if (sectionIndex > 0) {
+        yPosition += lineHeight;
+        if (yPosition > pageHeight - 60) {
+          doc.addPage();
+          yPosition = margin;
+        }
       }
 
-      const questionText = `${index + ao1Count + 1}. ${preprocessScientificText(question.text)}`;
-      const questionResult = renderFormattedText(
-        doc, 
-        questionText, 
-        margin, 
-        yPosition, 
-        pageWidth - margin * 2,
-        11
-      );
-      yPosition += questionResult.height + 5;
-    });
-
-    yPosition += lineHeight;
-
-    // AO3 Section
-    if (yPosition > pageHeight - 60) {
-      doc.addPage();
-      yPosition = margin;
-    }
-    
-    doc.setFontSize(12);
-    doc.setFont("helvetica", "bold");
-    doc.text(`AO3 – Evaluate & Create (${ao3Count} questions)`, margin, yPosition);
-    yPosition += lineHeight * 1.5;
+      doc.setFontSize(12);
+      doc.setFont("helvetica", "bold");
+      doc.text(`${section.title} (${section.questions.length} questions)`, margin, yPosition);
+      yPosition += lineHeight * 1.5;
 
-    // AO3 Questions
-    doc.setFontSize(11);
-    doc.setFont("helvetica", "normal");
-    questions.slice(ao1Count + ao2Count, ao1Count + ao2Count + ao3Count).forEach((question, index) => {
-      if (yPosition > pageHeight - 40) {
-        doc.addPage();
-        yPosition = margin;
-      }
+      doc.setFontSize(11);
+      doc.setFont("helvetica", "normal");
+      section.questions.forEach(question => {
+        if (yPosition > pageHeight - 40) {
+          doc.addPage();
+          yPosition = margin;
+        }
 
-      const questionText = `${index + ao1Count + ao2Count + 1}. ${preprocessScientificText(question.text)}`;
-      const questionResult = renderFormattedText(
-        doc, 
-        questionText, 
-        margin, 
-        yPosition, 
-        pageWidth - margin * 2,
-        11
-      );
-      yPosition += questionResult.height + 5;
+        questionNumber++;
+        const questionText = `${questionNumber}. ${preprocessScientificText(question.text)}`;
+        const questionResult = renderFormattedText(
+          doc, 
+          questionText, 
+          margin, 
+          yPosition, 
+          pageWidth - margin * 2,
+          11
+        );
+        yPosition = renderAnswerFormat(doc, question, yPosition + questionResult.height, margin, pageWidth, false) + 5;
+      });
     });
 
     yPosition += lineHeight;
 
     // Add Student-Friendly Mark Scheme
-    yPosition += lineHeight * 2;
-    
     // Always start mark scheme on a new page for better visibility
     doc.addPage();
     yPosition = margin;
@@ -558,159 +633,78 @@ export function generatePDF(questions: GeneratedQuestion[], title: string = "Gen
     doc.text("Student-Friendly Mark Scheme", margin, yPosition);
     yPosition += lineHeight * 2;
 
-    // Get mark scheme from first question (they all have the same mark scheme)
-    const markScheme = questions[0]?.markScheme;
-    
-    if (markScheme) {
-      // AO1 Mark Scheme
-      doc.setFontSize(12);
-      doc.setFont("helvetica", "bold");
-      doc.text("AO1 – Remember & Understand", margin, yPosition);
-      yPosition += lineHeight * 1.5;
-
-      doc.setFontSize(11);
-      doc.setFont("helvetica", "normal");
-      
-      if (markScheme.ao1 && Array.isArray(markScheme.ao1)) {
-        markScheme.ao1.forEach((item: any) => {
-          if (yPosition > pageHeight - 40) {
-            doc.addPage();
-            yPosition = margin;
-          }
-          
-          doc.setFont("helvetica", "bold");
-          doc.text(`Q${item.questionNumber}`, margin, yPosition);
-          doc.setFont("helvetica", "normal");
-          
-          if (item.markPoints && Array.isArray(item.markPoints)) {
-            item.markPoints.forEach((point: string) => {
-              const pointText = `• ${point}`;
-              // Use simple text rendering for mark scheme to avoid character encoding issues
-              const textWidth = doc.getTextWidth(pointText);
-              const maxWidth = pageWidth - margin * 2 - 15;
-              
-              if (textWidth > maxWidth) {
-                // Simple line wrapping for long text
-                const words = pointText.split(' ');
-                let currentLine = '';
-                
-                words.forEach(word => {
-                  const testLine = currentLine + (currentLine ? ' ' : '') + word;
-                  if (doc.getTextWidth(testLine) > maxWidth && currentLine) {
-                    doc.text(currentLine, margin + 10, yPosition);
-                    yPosition += 6;
-                    currentLine = word;
-                  } else {
-                    currentLine = testLine;
-                  }
-                });
-                
-                if (currentLine) {
-                  doc.text(currentLine, margin + 10, yPosition);
-                  yPosition += 6;
-                }
-              } else {
-                doc.text(pointText, margin + 10, yPosition);
-                yPosition += 6;
-              }
-            });
-          }
-          yPosition += 3;
-        });
+    questionNumber = 0;
+    sections.forEach((section, sectionIndex) => {
+      if (sectionIndex > 0) {
+        yPosition += lineHeight;
+        if (yPosition > pageHeight - 60) {
+          doc.addPage();
+          yPosition = margin;
+        }
       }
 
-      yPosition += lineHeight;
-
-      // AO2 Mark Scheme
-      if (yPosition > pageHeight - 60) {
-        doc.addPage();
-        yPosition = margin;
-      }
-      
       doc.setFontSize(12);
       doc.setFont("helvetica", "bold");
-      doc.text("AO2 – Apply & Analyse", margin, yPosition);
+      doc.text(section.title, margin, yPosition);
       yPosition += lineHeight * 1.5;
 
       doc.setFontSize(11);
       doc.setFont("helvetica", "normal");
-      
-      if (markScheme.ao2 && Array.isArray(markScheme.ao2)) {
-        markScheme.ao2.forEach((item: any) => {
-          if (yPosition > pageHeight - 40) {
-            doc.addPage();
-            yPosition = margin;
-          }
-          
-          doc.setFont("helvetica", "bold");
-          doc.text(`Q${item.questionNumber}`, margin, yPosition);
-          doc.setFont("helvetica", "normal");
-          
-          if (item.markPoints && Array.isArray(item.markPoints)) {
-            item.markPoints.forEach((point: string) => {
-              const pointText = `• ${point}`;
-              // Use italic-aware text rendering for AO2 mark scheme
-              const textResult = renderTextWithItalics(
-                doc,
-                pointText,
-                margin + 10,
-                yPosition,
-                pageWidth - margin * 2 - 15,
-                11
-              );
-              yPosition += textResult.height + 2;
-            });
-          }
-          yPosition += 3;
-        });
-      }
 
-      yPosition += lineHeight;
+      section.questions.forEach(question => {
+        questionNumber++;
+        const markPoints = getMiniQuizMarkPoints(question);
+        if (markPoints.length === 0) return;
 
-      // AO3 Mark Scheme
-      if (yPosition > pageHeight - 60) {
-        doc.addPage();
-        yPosition = margin;
-      }
-      
-      doc.setFontSize(12);
-      doc.setFont("helvetica", "bold");
-      doc.text("AO3 – Evaluate & Create", margin, yPosition);
-      yPosition += lineHeight * 1.5;
+        if (yPosition > pageHeight - 40) {
+          doc.addPage();
+          yPosition = margin;
+        }
+        
+        doc.setFont("helvetica", "bold");
+        doc.text(`Q${questionNumber}`, margin, yPosition);
+        doc.setFont("helvetica", "normal");
+        
+        markPoints.forEach((point: string) => {
+          const pointText = `• ${point}`;
 
-      doc.setFontSize(11);
-      doc.setFont("helvetica", "normal");
-      
-      if (markScheme.ao3 && Array.isArray(markScheme.ao3)) {
-        markScheme.ao3.forEach((item: any) => {
-          if (yPosition > pageHeight - 40) {
-            doc.addPage();
-            yPosition = margin;
-          }
-          
-          doc.setFont("helvetica", "bold");
-          doc.text(`Q${item.questionNumber}`, margin, yPosition);
-          doc.setFont("helvetica", "normal");
-          
-          if (item.markPoints && Array.isArray(item.markPoints)) {
-            item.markPoints.forEach((point: string) => {
-              const pointText = `• ${point}`;
-              // Use italic-aware text rendering for AO3 mark scheme
-              const textResult = renderTextWithItalics(
-                doc,
-                pointText,
-                margin + 10,
-                yPosition,
-                pageWidth - margin * 2 - 15,
-                11
-              );
-              yPosition += textResult.height + 2;
+          if (section.aoLevel === "AO1") {
+            // Use simple text rendering for AO1 to avoid character encoding issues
+            const maxWidth = pageWidth - margin * 2 - 15;
+            const words = pointText.split(' ');
+            let currentLine = '';
+            
+            words.forEach(word => {
+              const testLine = currentLine + (currentLine ? ' ' : '') + word;
+              if (doc.getTextWidth(testLine) > maxWidth && currentLine) {
+                doc.text(currentLine, margin + 10, yPosition);
+                yPosition += 6;
+                currentLine = word;
+              } else {
+                currentLine = testLine;
+              }
             });
+            
+            if (currentLine) {
+              doc.text(currentLine, margin + 10, yPosition);
+              yPosition += 6;
+            }
+          } else {
+            // Use italic-aware text rendering for the AO2/AO3 explanations
+            const textResult = renderTextWithItalics(
+              doc,
+              pointText,
+              margin + 10,
+              yPosition,
+              pageWidth - margin * 2 - 15,
+              11
+            );
+            yPosition += textResult.height + 2;
           }
-          yPosition += 3;
         });
-      }
-    }
+        yPosition += 3;
+      });
+    });
 
     return doc;
   }
@@ -733,9 +727,11 @@ export function generatePDF(questions: GeneratedQuestion[], title: string = "Gen
   doc.text("Answer all questions in the spaces provided.", margin, yPosition);
   yPosition += lineHeight * 3;
 
-  // Group questions by topic
+  // Group questions by topic - shuffled or interleaved quizzes label each question instead
+  const grouped = hasGroupedOrder(questions);
   let currentTopic = "";
   let questionNumberInTopic = 0;
+  let currentAoLevel = "";
 
   // Questions
   questions.forEach((question, index) => {
@@ -745,10 +741,15 @@ export function generatePDF(questions: GeneratedQuestion[], title: string = "Gen
       yPosition = margin;
     }
 
+    if (!grouped) {
+      yPosition = renderQuestionLabel(doc, question, margin, yPosition);
+    }
+
     // Add topic header when topic changes
-    if (question.topic && question.topic !== currentTopic) {
+    if (grouped && question.topic && question.topic !== currentTopic) {
       currentTopic = question.topic;
       questionNumberInTopic = 0;
+      currentAoLevel = "";
       
       // Add extra spacing before new topic (except for first topic)
       if (index > 0) {
@@ -772,18 +773,16 @@ export function generatePDF(questions: GeneratedQuestion[], title: string = "Gen
 
     questionNumberInTopic++;
 
-    // Add AO1/AO2 label for retrieval quizzes (questions 1-5 are AO1, 6-10 are AO2)
-    if (question.topic && questionNumberInTopic === 1) {
-      doc.setFontSize(12);
-      doc.setFont("helvetica", "bold");
-      doc.text("AO1 Questions", margin, yPosition);
-      yPosition += lineHeight * 1.5;
-      doc.setFontSize(11);
-    } else if (question.topic && questionNumberInTopic === 6) {
-      yPosition += lineHeight * 2;
+    // Add AO1/AO2 label for retrieval quizzes whenever the AO section changes within a topic
+    const aoLevel = getRetrievalAoLevel(question, questionNumberInTopic);
+    if (grouped && question.topic && aoLevel !== currentAoLevel) {
+      if (questionNumberInTopic > 1) {
+        yPosition += lineHeight * 2;
+      }
+      currentAoLevel = aoLevel;
       doc.setFontSize(12);
       doc.setFont("helvetica", "bold");
-      doc.text("AO2 Questions", margin, yPosition);
+      doc.text(`${aoLevel} Questions`, margin, yPosition);
       yPosition += lineHeight * 1.5;
       doc.setFontSize(11);
     }
@@ -805,37 +804,14 @@ export function generatePDF(questions: GeneratedQuestion[], title: string = "Gen
     );
     yPosition += questionResult.height;
 
-    // Options for MCQ
-    if (question.type === "MULTIPLE_CHOICE" && question.options) {
-      yPosition += 5;
-      question.options.forEach((option, optIndex) => {
-        const optionLabel = String.fromCharCode(65 + optIndex); // A, B, C, D (uppercase)
-        const processedOption = preprocessScientificText(option);
-        const optionResult = renderFormattedText(
-          doc,
-          `  ${optionLabel}) ${processedOption}`,
-          margin + 5,
-          yPosition,
-          pageWidth - margin * 2 - 15,
-          11
-        );
-        yPosition += optionResult.height + 2;
-      });
-    }
-
-    // Answer space
-    if (question.type === "SHORT_ANSWER" || question.type === "LONG_ANSWER") {
-      yPosition += 8;
-      const lines = question.type === "LONG_ANSWER" ? 5 : 2;
-      for (let i = 0; i < lines; i++) {
-        doc.line(margin, yPosition, pageWidth - margin, yPosition);
-        yPosition += lineHeight;
-      }
-    }
+    // Options, True/False choice or answer lines depending on the question type
+    yPosition = renderAnswerFormat(doc, question, yPosition, margin, pageWidth, true);
 
     yPosition += lineHeight * 1.5;
   });
 
+  if (versionCode) stampVersionCode(doc, versionCode, margin);
+
   return doc;
 }
 
@@ -860,9 +836,11 @@ export function generateAnswerKey(questions: GeneratedQuestion[]): jsPDF {
   doc.setFontSize(11);
   doc.setFont("helvetica", "normal");
 
-  // Group questions by topic
+  // Group questions by topic - shuffled or interleaved quizzes label each answer instead
+  const grouped = hasGroupedOrder(questions);
   let currentTopic = "";
   let questionNumberInTopic = 0;
+  let currentAoLevel = "";
 
   questions.forEach((question, index) => {
     if (yPosition > 270) {
@@ -870,10 +848,15 @@ export function generateAnswerKey(questions: GeneratedQuestion[]): jsPDF {
       yPosition = margin;
     }
 
+    if (!grouped) {
+      yPosition = renderQuestionLabel(doc, question, margin, yPosition);
+    }
+
     // Add topic header when topic changes
-    if (question.topic && question.topic !== currentTopic) {
+    if (grouped && question.topic && question.topic !== currentTopic) {
       currentTopic = question.topic;
       questionNumberInTopic = 0;
+      currentAoLevel = "";
       
       // Add extra spacing before new topic (except for first topic)
       if (index > 0) {
@@ -899,18 +882,15 @@ export function generateAnswerKey(questions: GeneratedQuestion[]): jsPDF {
     questionNumberInTopic++;
 
     // Add AO1/AO2 section labels
-    if (question.topic && questionNumberInTopic === 1) {
-      doc.setFontSize(11);
-      doc.setFont("helvetica", "bold");
-      doc.text("AO1 Questions:", margin, yPosition);
-      yPosition += lineHeight * 1.5;
-      doc.setFontSize(11);
-      doc.setFont("helvetica", "normal");
-    } else if (question.topic && questionNumberInTopic === 6) {
-      yPosition += lineHeight * 2;
+    const aoLevel = getRetrievalAoLevel(question, questionNumberInTopic);
+    if (grouped && question.topic && aoLevel !== currentAoLevel) {
+      if (questionNumberInTopic > 1) {
+        yPosition += lineHeight * 2;
+      }
+      currentAoLevel = aoLevel;
       doc.setFontSize(11);
       doc.setFont("helvetica", "bold");
-      doc.text("AO2 Questions:", margin, yPosition);
+      doc.text(`${aoLevel} Questions:`, margin, yPosition);
       yPosition += lineHeight * 1.5;
       doc.setFontSize(11);
       doc.setFont("helvetica", "normal");
@@ -922,8 +902,16 @@ export function generateAnswerKey(questions: GeneratedQuestion[]): jsPDF {
       const letter = String.fromCharCode(65 + question.correctAnswer); // uppercase A, B, C, D
       const processedAnswer = preprocessScientificText(question.options[question.correctAnswer]);
       answerText += `${letter}) ${processedAnswer}`;
+    } else if (question.type === "MULTI_SELECT" && question.correctAnswers && question.options) {
+      const options = question.options;
+      answerText += [...question.correctAnswers]
+        .sort((a, b) => a - b)
+        .map(correct => `${String.fromCharCode(65 + correct)}) ${preprocessScientificText(options[correct] ?? "")}`)
+        .join("; ");
     } else if (question.type === "TRUE_FALSE" && question.correctAnswer !== undefined) {
       answerText += question.correctAnswer === 1 ? "True" : "False";
+    } else if (question.markPoints && question.markPoints.length > 0) {
+      answerText += preprocessScientificText(question.markPoints.join("; "));
     } else {
       answerText += "[Open-ended answer]";
     }
@@ -940,4 +928,288 @@ export function generateAnswerKey(questions: GeneratedQuestion[]): jsPDF {
   });
 
   return doc;
-}
\ No newline at end of file
+}
+
+/**
+ * One teacher key for every paper version: a row per question number with each version's
+ * answer letter in its own column. Versions only reorder within a topic, so topic headings
+ * line up across every column.
+ */
+export function generateVersionedAnswerKey(versions: PaperVersion[]): jsPDF {
+  const doc = new jsPDF();
+  const margin = 20;
+  const lineHeight = 7;
+  let yPosition = margin;
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const numberColumnWidth = 20;
+  const versionColumnWidth = (pageWidth - margin * 2 - numberColumnWidth) / Math.max(versions.length, 1);
+  const columnX = (versionIndex: number) => margin + numberColumnWidth + versionColumnWidth * versionIndex;
+
+  const drawHeaderRow = () => {
+    doc.setFontSize(11);
+    doc.setFont("helvetica", "bold");
+    doc.text("Q", margin, yPosition);
+    versions.forEach((version, i) => doc.text(`Version ${version.code}`, columnX(i), yPosition));
+    yPosition += lineHeight * 0.5;
+    doc.setLineWidth(0.3);
+    doc.line(margin, yPosition, pageWidth - margin, yPosition);
+    yPosition += lineHeight;
+    doc.setFont("helvetica", "normal");
+  };
+
+  doc.setFontSize(18);
+  doc.setFont("helvetica", "bold");
+  doc.text("Answer Key - All Versions", margin, yPosition);
+  yPosition += lineHeight * 1.5;
+
+  // Horizontal separator after title
+  doc.setLineWidth(0.5);
+  doc.line(margin, yPosition, pageWidth - margin, yPosition);
+  yPosition += lineHeight * 1.5;
+
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+  doc.text("T/F = True/False. A dash marks a written answer - see the answer key for its mark points.", margin, yPosition);
+  yPosition += lineHeight * 2;
+
+  drawHeaderRow();
+
+  const questionCount = versions[0]?.questions.length ?? 0;
+  const grouped = hasGroupedOrder(versions[0]?.questions ?? []);
+  let currentTopic = "";
+
+  for (let index = 0; index < questionCount; index++) {
+    if (yPosition > pageHeight - 30) {
+      doc.addPage();
+      yPosition = margin;
+      drawHeaderRow();
+    }
+
+    // Topic heading when the topic changes (the same in every version)
+    const topic = versions[0].questions[index].topic;
+    if (grouped && topic && topic !== currentTopic) {
+      currentTopic = topic;
+      if (index > 0) yPosition += lineHeight * 0.5;
+      doc.setFontSize(12);
+      doc.setFont("helvetica", "bold");
+      doc.text(topic, margin, yPosition);
+      yPosition += lineHeight;
+      doc.setFontSize(11);
+      doc.setFont("helvetica", "normal");
+    }
+
+    doc.text(`${index + 1}.`, margin, yPosition);
+    versions.forEach((version, i) => {
+      const question = version.questions[index];
+      doc.text(question ? formatVersionAnswer(question) : "", columnX(i), yPosition);
+    });
+    yPosition += lineHeight;
+  }
+
+  // Each version's multiple-choice letters checked against the same sequence rules
+  yPosition += lineHeight;
+  if (yPosition > pageHeight - 40) {
+    doc.addPage();
+    yPosition = margin;
+  }
+  doc.setFontSize(12);
+  doc.setFont("helvetica", "bold");
+  doc.text("Answer Sequence Check", margin, yPosition);
+  yPosition += lineHeight;
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+
+  versions.forEach(version => {
+    const lines = version.answerSequenceErrors.length === 0
+      ? [`Version ${version.code}: OK`]
+      : doc.splitTextToSize(`Version ${version.code}: ${version.answerSequenceErrors.join("; ")}`, pageWidth - margin * 2);
+    lines.forEach((line: string) => {
+      if (yPosition > pageHeight - 20) {
+        doc.addPage();
+        yPosition = margin;
+      }
+      doc.text(line, margin, yPosition);
+      yPosition += lineHeight * 0.8;
+    });
+  });
+
+  return doc;
+}
+
+/**
+ * Group practice quiz questions by section, keeping their order
+ */
+function groupBySection(questions: GeneratedQuestion[]): Array<{ section: string; questions: GeneratedQuestion[] }> {
+  const groups: Array<{ section: string; questions: GeneratedQuestion[] }> = [];
+  questions.forEach(question => {
+    const section = question.section || "Questions";
+    const last = groups[groups.length - 1];
+    if (last && last.section === section) {
+      last.questions.push(question);
+    } else {
+      groups.push({ section, questions: [question] });
+    }
+  });
+  return groups;
+}
+
+/**
+ * Question paper for Assignment, Application Practice, Marks Per Point and Specific Technique
+ */
+function generatePracticeQuizPDF(questions: GeneratedQuestion[], quizType: PracticeQuizType): jsPDF {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 20;
+  const lineHeight = 7;
+  let yPosition = margin;
+
+  const spec = PRACTICE_QUIZ_SPECS[quizType];
+  const topicName = questions[0]?.topic || spec.title;
+  const totalMarks = questions.reduce((sum, q) => sum + (q.maxMarks || 0), 0);
+
+  // Title
+  doc.setFontSize(16);
+  doc.setFont("helvetica", "bold");
+  doc.text(`${topicName} – ${spec.title}`, margin, yPosition);
+  yPosition += lineHeight * 1.5;
+
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+  const instructions = spec.onePointPerMark
+    ? `Answer all questions. Total: ${totalMarks} marks. Make one clear point for every mark available.`
+    : `Answer all questions in the spaces provided. Total: ${totalMarks} marks.`;
+  doc.text(instructions, margin, yPosition);
+  yPosition += lineHeight;
+
+  doc.setLineWidth(0.5);
+  doc.line(margin, yPosition, pageWidth - margin, yPosition);
+  yPosition += lineHeight * 1.5;
+
+  let questionIndex = 0;
+  groupBySection(questions).forEach((group, groupIndex) => {
+    if (yPosition > pageHeight - 60) {
+      doc.addPage();
+      yPosition = margin;
+    }
+
+    if (groupIndex > 0) {
+      yPosition += lineHeight;
+    }
+
+    // Section header
+    doc.setFontSize(12);
+    doc.setFont("helvetica", "bold");
+    doc.text(`${group.section} (${group.questions.length} questions)`, margin, yPosition);
+    yPosition += lineHeight * 1.5;
+
+    group.questions.forEach(question => {
+      questionIndex++;
+      // Room for the question plus its answer lines
+      const answerLines = Math.min(12, Math.max(2, Math.ceil((question.maxMarks || 1) * 1.5)));
+      if (yPosition > pageHeight - 30 - answerLines * lineHeight) {
+        doc.addPage();
+        yPosition = margin;
+      }
+
+      doc.setFontSize(11);
+      doc.setFont("helvetica", "bold");
+      doc.text(`${questionIndex}. `, margin, yPosition);
+      doc.setFont("helvetica", "normal");
+
+      const marksLabel = `[${question.maxMarks} ${question.maxMarks === 1 ? 'mark' : 'marks'}]`;
+      const questionResult = renderFormattedText(
+        doc,
+        `${preprocessScientificText(question.text)} ${marksLabel}`,
+        margin + 8,
+        yPosition,
+        pageWidth - margin * 2 - 10,
+        11
+      );
+      yPosition += questionResult.height + 6;
+
+      // Answer lines
+      doc.setLineWidth(0.2);
+      for (let i = 0; i < answerLines; i++) {
+        doc.line(margin + 8, yPosition, pageWidth - margin, yPosition);
+        yPosition += lineHeight;
+      }
+      yPosition += lineHeight * 0.5;
+    });
+  });
+
+  return doc;
+}
+
+/**
+ * Teacher mark scheme for practice quizzes, built from each question's markPoints
+ */
+export function generateMarkSchemePDF(questions: GeneratedQuestion[], title: string = "Mark Scheme"): jsPDF {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 20;
+  const lineHeight = 7;
+  let yPosition = margin;
+
+  doc.setFontSize(18);
+  doc.setFont("helvetica", "bold");
+  doc.text(title, margin, yPosition);
+  yPosition += lineHeight * 1.5;
+
+  doc.setLineWidth(0.5);
+  doc.line(margin, yPosition, pageWidth - margin, yPosition);
+  yPosition += lineHeight * 2;
+
+  let questionIndex = 0;
+  groupBySection(questions).forEach((group, groupIndex) => {
+    if (yPosition > pageHeight - 60) {
+      doc.addPage();
+      yPosition = margin;
+    }
+
+    if (groupIndex > 0) {
+      yPosition += lineHeight;
+    }
+
+    doc.setFontSize(12);
+    doc.setFont("helvetica", "bold");
+    doc.text(group.section, margin, yPosition);
+    yPosition += lineHeight * 1.5;
+
+    group.questions.forEach(question => {
+      questionIndex++;
+      if (yPosition > pageHeight - 40) {
+        doc.addPage();
+        yPosition = margin;
+      }
+
+      doc.setFontSize(11);
+      doc.setFont("helvetica", "bold");
+      doc.text(`Q${questionIndex} (${question.maxMarks} ${question.maxMarks === 1 ? 'mark' : 'marks'})`, margin, yPosition);
+      yPosition += 6;
+      doc.setFont("helvetica", "normal");
+
+      (question.markPoints || ["[No mark scheme provided]"]).forEach(point => {
+        if (yPosition > pageHeight - 25) {
+          doc.addPage();
+          yPosition = margin;
+        }
+        const textResult = renderTextWithItalics(
+          doc,
+          `• ${point}`,
+          margin + 10,
+          yPosition,
+          pageWidth - margin * 2 - 15,
+          11
+        );
+        yPosition += textResult.height + 2;
+      });
+      yPosition += 3;
+    });
+  });
+
+  return doc;
+}
@@ -0,0 +1,126 @@
+import { PracticeQuizType, QuizConfig } from './types';
+
+export interface PracticeQuizSection {
+  label: string; // Printed as the section header, e.g., "Tier 1 – Apply"
+  count: number;
+  minMarks: number;
+  maxMarks: number;
+  guidance: string; // What questions in this section must test (goes into the prompt)
+}
+
+export interface PracticeQuizSpec {
+  title: string;
+  questionType: "SHORT_ANSWER" | "LONG_ANSWER";
+  sections: PracticeQuizSection[];
+  totalMarks?: number; // Exact total the quiz must add up to
+  onePointPerMark?: boolean; // Mark scheme lists exactly one creditworthy point per mark
+  brief: string; // Overall description of the quiz for the prompt
+}
+
+/**
+ * Layout of the single-image quiz types other than Retrieval and Mini Quiz
+ */
+export const PRACTICE_QUIZ_SPECS: Record<PracticeQuizType, PracticeQuizSpec> = {
+  assignment: {
+    title: 'Assignment',
+    questionType: 'LONG_ANSWER',
+    totalMarks: 40,
+    brief: 'a homework assignment of 4 full exam-style questions worth exactly 40 marks in total',
+    sections: [
+      {
+        label: 'Exam Questions',
+        count: 4,
+        minMarks: 6,
+        maxMarks: 15,
+        guidance: 'Structured multi-part exam questions in the style of real past papers. Show the marks for each part in brackets in the question text, e.g. "(a) State ... (1)". Mix AO1 recall, AO2 application and at least one extended AO3 evaluation part across the assignment.',
+      },
+    ],
+  },
+  application: {
+    title: 'Application Practice',
+    questionType: 'SHORT_ANSWER',
+    brief: '12 application questions in 3 tiers of increasing difficulty',
+    sections: [
+      {
+        label: 'Tier 1 – Apply',
+        count: 4,
+        minMarks: 1,
+        maxMarks: 3,
+        guidance: 'Apply one idea from the image to a familiar, closely related context.',
+      },
+      {
+        label: 'Tier 2 – Analyse',
+        count: 4,
+        minMarks: 2,
+        maxMarks: 4,
+        guidance: 'Apply the content to an unfamiliar context or interpret given data, results or observations.',
+      },
+      {
+        label: 'Tier 3 – Extend',
+        count: 4,
+        minMarks: 3,
+        maxMarks: 6,
+        guidance: 'Multi-step problems linking two or more ideas from the image in a novel scenario.',
+      },
+    ],
+  },
+  'marks-per-point': {
+    title: 'Marks Per Point',
+    questionType: 'SHORT_ANSWER',
+    onePointPerMark: true,
+    brief: '12 explanation questions that train students to write one creditworthy point per mark',
+    sections: [
+      {
+        label: 'Explanation Questions',
+        count: 12,
+        minMarks: 2,
+        maxMarks: 6,
+        guidance: 'Explain/describe questions where each mark is earned by one distinct, linked point. Vary the marks so students practise matching the number of points to the marks available.',
+      },
+    ],
+  },
+  specific: {
+    title: 'Specific Technique',
+    questionType: 'SHORT_ANSWER',
+    brief: '12 focused practice questions, each drilling a specific exam technique',
+    sections: [
+      {
+        label: 'Describe & Explain',
+        count: 4,
+        minMarks: 1,
+        maxMarks: 6,
+        guidance: 'Command-word technique: "describe" (what happens) versus "explain" (why it happens, using "because"/"so").',
+      },
+      {
+        label: 'Data & Calculations',
+        count: 4,
+        minMarks: 1,
+        maxMarks: 6,
+        guidance: 'Reading values from data, calculations with units and significant figures, or describing trends with numbers quoted.',
+      },
+      {
+        label: 'Compare & Evaluate',
+        count: 4,
+        minMarks: 1,
+        maxMarks: 6,
+        guidance: 'Comparisons that state both sides using comparative words, and evaluations that end with a justified conclusion.',
+      },
+    ],
+  },
+};
+
+export function isPracticeQuizType(quizType: QuizConfig["quizType"]): quizType is PracticeQuizType {
+  return Object.hasOwn(PRACTICE_QUIZ_SPECS, quizType);
+}
+
+/**
+ * Display name of any quiz type, e.g. "Application Practice"
+ */
+export function getQuizTypeTitle(quizType: QuizConfig["quizType"]): string {
+  if (isPracticeQuizType(quizType)) return PRACTICE_QUIZ_SPECS[quizType].title;
+  return quizType === 'mini' ? 'Mini Quiz' : 'Retrieval Quiz';
+}
+
+export function getPracticeQuestionCount(spec: PracticeQuizSpec): number {
+  return spec.sections.reduce((sum, section) => sum + section.count, 0);
+}
@@ -0,0 +1,143 @@
+import { GeneratedQuestion, QuestionType } from './types';
+import { DEFAULT_OPTION_COUNT, hasOptions, QUESTION_TYPE_MARKS } from './question-types';
+import { auditByRules, describeAoMismatch, isAuditedAoLevel } from './ao-audit';
+
+/**
+ * Number questions 1..n within their topic (quizzes without topics count straight through)
+ */
+export function renumberQuestions(questions: GeneratedQuestion[]): GeneratedQuestion[] {
+  const counts = new Map<string, number>();
+  return questions.map(question => {
+    const key = question.topic ?? '';
+    const questionNumber = (counts.get(key) ?? 0) + 1;
+    counts.set(key, questionNumber);
+    return { ...question, questionNumber };
+  });
+}
+
+export function moveQuestion(questions: GeneratedQuestion[], from: number, to: number): GeneratedQuestion[] {
+  if (to < 0 || to >= questions.length) return questions;
+  const reordered = [...questions];
+  const [moved] = reordered.splice(from, 1);
+  reordered.splice(to, 0, moved);
+  return renumberQuestions(reordered);
+}
+
+export function deleteQuestion(questions: GeneratedQuestion[], index: number): GeneratedQuestion[] {
+  return renumberQuestions(questions.filter((_, i) => i !== index));
+}
+
+/**
+ * Options per question near `index`: the closest question with options sets it, so questions added
+ * to a 3- or 5-option quiz match the rest (the default when no question has options)
+ */
+export function optionCountNear(questions: GeneratedQuestion[], index: number): number {
+  for (let distance = 0; distance < questions.length; distance++) {
+    const nearby = [questions[index - distance], questions[index + distance]]
+      .find(q => q && hasOptions(q.type) && q.options && q.options.length > 0);
+    if (nearby?.options) return nearby.options.length;
+  }
+  return DEFAULT_OPTION_COUNT;
+}
+
+/**
+ * Empty question inserted after `index`, copying the topic, section, AO level and type around it
+ * (with `optionCount` options when it has any)
+ */
+export function insertBlankQuestion(
+  questions: GeneratedQuestion[],
+  index: number,
+  optionCount: number = optionCountNear(questions, index)
+): GeneratedQuestion[] {
+  const template = questions[index];
+  const type = template?.type ?? 'MULTIPLE_CHOICE';
+  const blank = changeQuestionType({
+    text: '',
+    type,
+    topic: template?.topic,
+    topicIndex: template?.topicIndex,
+    section: template?.section,
+    aoLevel: template?.aoLevel,
+    markScheme: template?.markScheme,
+    maxMarks: template?.maxMarks ?? QUESTION_TYPE_MARKS[type],
+  }, type, optionCount);
+
+  const updated = [...questions];
+  updated.splice(index + 1, 0, blank);
+  return renumberQuestions(updated);
+}
+
+/**
+ * Switch a question's type, keeping what still applies and filling in what the new type needs
+ * (options are padded to the quiz's `optionCount`)
+ */
+export function changeQuestionType(
+  question: GeneratedQuestion,
+  type: QuestionType,
+  optionCount: number = DEFAULT_OPTION_COUNT
+): GeneratedQuestion {
+  const updated: GeneratedQuestion = { ...question, type };
+  // The option an MCQ marks correct, or the first one a multi-select question ticks
+  const correctOption = question.type === 'MULTIPLE_CHOICE'
+    ? question.correctAnswer ?? 0
+    : question.type === 'MULTI_SELECT' ? question.correctAnswers?.[0] ?? 0 : 0;
+  delete updated.correctAnswers;
+
+  if (hasOptions(type)) {
+    const options = question.options ?? [];
+    updated.options = options.length >= optionCount
+      ? options
+      : [...options, ...Array(optionCount - options.length).fill('')];
+    if (type === 'MULTI_SELECT') {
+      delete updated.correctAnswer;
+      // Keep the correct option ticked and tick the one after it (or before, for the last)
+      updated.correctAnswers = question.type === 'MULTI_SELECT' && question.correctAnswers
+        ? question.correctAnswers
+        : [correctOption, correctOption + 1 < updated.options.length ? correctOption + 1 : correctOption - 1].sort((a, b) => a - b);
+    } else {
+      updated.correctAnswer = correctOption;
+    }
+  } else {
+    delete updated.options;
+    updated.correctAnswer = type === 'TRUE_FALSE' ? (question.type === 'TRUE_FALSE' ? question.correctAnswer ?? 1 : 1) : undefined;
+  }
+
+  if ((type === 'SHORT_ANSWER' || type === 'LONG_ANSWER') && !updated.markPoints) {
+    updated.markPoints = [''];
+  }
+
+  return updated;
+}
+
+/**
+ * Generation-time checks only describe the question they ran on. Editing the text, options, answer
+ * or mark points drops the grounding verdict and distractor warnings rather than showing verdicts
+ * the new wording never earned; the AO audit is redone with the rules (or, when only the AO level
+ * changed, the existing classification is compared with the new slot).
+ */
+export function dropStaleChecks(original: GeneratedQuestion, edited: GeneratedQuestion): GeneratedQuestion {
+  const contentChanged =
+    original.text !== edited.text ||
+    original.type !== edited.type ||
+    original.correctAnswer !== edited.correctAnswer ||
+    JSON.stringify(original.correctAnswers ?? []) !== JSON.stringify(edited.correctAnswers ?? []) ||
+    JSON.stringify(original.options ?? []) !== JSON.stringify(edited.options ?? []) ||
+    JSON.stringify(original.markPoints ?? []) !== JSON.stringify(edited.markPoints ?? []);
+  if (!contentChanged && original.aoLevel === edited.aoLevel) return edited;
+
+  const updated = { ...edited };
+  if (contentChanged) {
+    delete updated.grounding;
+    delete updated.distractorWarnings;
+  }
+
+  if (edited.aoAudit) {
+    const aoAudit = contentChanged || !isAuditedAoLevel(edited.aoLevel)
+      ? auditByRules(edited)
+      : { ...edited.aoAudit, mismatch: describeAoMismatch(edited.aoLevel, edited.aoAudit.classified) };
+    if (aoAudit) updated.aoAudit = aoAudit;
+    else delete updated.aoAudit;
+  }
+
+  return updated;
+}
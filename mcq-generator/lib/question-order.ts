@@ -0,0 +1,120 @@
+import { GeneratedQuestion, QuestionOrderMode } from './types';
+import { RandomSource } from './seeded-random';
+import { shuffleArray } from './shuffle-quiz';
+
+/**
+ * keep          topics in order, each as the model wrote it (AO1 before AO2)
+ * within-topic  topics stay in order; each topic's questions are shuffled
+ * interleave    each topic is shuffled, then topics take turns question by question (spaced practice)
+ */
+export const QUESTION_ORDER_MODES: QuestionOrderMode[] = ['keep', 'within-topic', 'interleave'];
+
+export const QUESTION_ORDER_LABELS: Record<QuestionOrderMode, string> = {
+  keep: 'As generated (AO1 then AO2)',
+  'within-topic': 'Shuffle within each topic',
+  interleave: 'Interleave topics',
+};
+
+export function isQuestionOrderMode(value: unknown): value is QuestionOrderMode {
+  return QUESTION_ORDER_MODES.includes(value as QuestionOrderMode);
+}
+
+/**
+ * Reorder any list of items that carry a topic. Topics are kept in the order they first appear;
+ * items without a topic count as one topic.
+ */
+export function orderByTopic<T>(
+  items: T[],
+  topicOf: (item: T) => string | undefined,
+  mode: QuestionOrderMode,
+  random: RandomSource = Math.random
+): T[] {
+  if (mode === 'keep') return items;
+
+  const topics = new Map<string, T[]>();
+  items.forEach(item => {
+    const topic = topicOf(item) ?? '';
+    topics.set(topic, [...(topics.get(topic) ?? []), item]);
+  });
+  const shuffled = [...topics.values()].map(topicItems => shuffleArray(topicItems, random));
+
+  if (mode === 'within-topic') return shuffled.flat();
+
+  // Round robin: first question of each topic, then the second of each, and so on
+  const longest = Math.max(0, ...shuffled.map(topicItems => topicItems.length));
+  return Array.from({ length: longest }, (_, round) =>
+    shuffled.flatMap(topicItems => (round < topicItems.length ? [topicItems[round]] : []))
+  ).flat();
+}
+
+/**
+ * Put generated questions in the requested order. Each keeps its topic label, correct answer and
+ * AO level; questionNumber is renumbered to its new position within its topic.
+ */
+export function orderQuestions(
+  questions: GeneratedQuestion[],
+  mode: QuestionOrderMode,
+  random: RandomSource = Math.random
+): GeneratedQuestion[] {
+  if (mode === 'keep') return questions;
+
+  const counts = new Map<string, number>();
+  return orderByTopic(questions, question => question.topic, mode, random).map(question => {
+    const questionNumber = (counts.get(question.topic ?? '') ?? 0) + 1;
+    counts.set(question.topic ?? '', questionNumber);
+    return { ...question, questionNumber };
+  });
+}
+
+/**
+ * Slot one topic's questions into a quiz already in the given order without moving any other
+ * question. `keep` and `within-topic` insert the topic as one block at `insertAt` (shuffled for
+ * within-topic); `interleave` gives it a turn in each round, after the topics whose topicIndex
+ * comes before its own (a block at `insertAt` when its topicIndex is unknown).
+ */
+export function insertTopicQuestions(
+  questions: GeneratedQuestion[],
+  topicQuestions: GeneratedQuestion[],
+  insertAt: number,
+  mode: QuestionOrderMode,
+  random: RandomSource = Math.random,
+  topicIndex?: number
+): GeneratedQuestion[] {
+  if (mode !== 'interleave' || topicIndex === undefined) {
+    const merged = [...questions];
+    merged.splice(insertAt, 0, ...orderQuestions(topicQuestions, mode, random));
+    return merged;
+  }
+
+  const shuffled = orderQuestions(topicQuestions, 'within-topic', random);
+  const rounds = new Map<string, number>();
+  const merged: GeneratedQuestion[] = [];
+  let next = 0;
+  questions.forEach(question => {
+    const round = rounds.get(question.topic ?? '') ?? 0;
+    rounds.set(question.topic ?? '', round + 1);
+    const comesAfter = (question.topicIndex ?? -1) > topicIndex;
+    while (next < shuffled.length && (next < round || (next === round && comesAfter))) {
+      merged.push(shuffled[next++]);
+    }
+    merged.push(question);
+  });
+  return [...merged, ...shuffled.slice(next)];
+}
+
+/**
+ * Whether each topic's questions sit together, with each AO level in one run inside the topic -
+ * the layout printed papers use for their topic and AO headings
+ */
+export function hasGroupedOrder(questions: GeneratedQuestion[]): boolean {
+  const topicRuns: string[] = [];
+  const sectionRuns: string[] = [];
+  questions.forEach((question, i) => {
+    const previous = questions[i - 1];
+    if (!previous || previous.topic !== question.topic) topicRuns.push(question.topic ?? '');
+    if (!previous || previous.topic !== question.topic || previous.aoLevel !== question.aoLevel) {
+      sectionRuns.push(`${question.topic ?? ''}|${question.aoLevel ?? ''}`);
+    }
+  });
+  return new Set(topicRuns).size === topicRuns.length && new Set(sectionRuns).size === sectionRuns.length;
+}
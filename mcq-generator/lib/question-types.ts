@@ -0,0 +1,247 @@
+import { GeneratedQuestion, QuestionType, QuestionTypeMix, QuizConfig } from './types';
+
+export const QUESTION_TYPES: QuestionType[] = ['MULTIPLE_CHOICE', 'MULTI_SELECT', 'TRUE_FALSE', 'SHORT_ANSWER', 'LONG_ANSWER'];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  MULTIPLE_CHOICE: 'Multiple choice',
+  MULTI_SELECT: 'Select two',
+  TRUE_FALSE: 'True/false',
+  SHORT_ANSWER: 'Short answer',
+  LONG_ANSWER: 'Long answer',
+};
+
+// Marks awarded per question when the model is not asked for its own mark allocation
+export const QUESTION_TYPE_MARKS: Record<QuestionType, number> = {
+  MULTIPLE_CHOICE: 1,
+  MULTI_SELECT: 2,
+  TRUE_FALSE: 1,
+  SHORT_ANSWER: 2,
+  LONG_ANSWER: 4,
+};
+
+export const DEFAULT_QUESTION_TYPE_MIX: QuestionTypeMix = {
+  MULTIPLE_CHOICE: 50,
+  MULTI_SELECT: 0,
+  TRUE_FALSE: 20,
+  SHORT_ANSWER: 20,
+  LONG_ANSWER: 10,
+};
+
+// Options per multiple-choice question a quiz can ask for: 3 for younger groups, 5 for A-level
+export const OPTION_COUNT_LIMITS = { min: 3, max: 5 } as const;
+
+export const DEFAULT_OPTION_COUNT = 4;
+
+// Correct options in a multi-select question, as in the exam board's "Tick (✓) two boxes"
+export const MULTI_SELECT_ANSWER_COUNT = 2;
+
+const COUNT_WORDS = ['zero', 'one', 'two', 'three', 'four', 'five'];
+
+/**
+ * Whether questions of this type are answered by picking from lettered options
+ */
+export function hasOptions(type: QuestionType): boolean {
+  return type === 'MULTIPLE_CHOICE' || type === 'MULTI_SELECT';
+}
+
+/**
+ * Whether the option at an index is marked correct (the MCQ's answer or one of the ticked boxes)
+ */
+export function isCorrectOption(question: GeneratedQuestion, index: number): boolean {
+  return question.type === 'MULTI_SELECT'
+    ? question.correctAnswers?.includes(index) ?? false
+    : question.correctAnswer === index;
+}
+
+/**
+ * The instruction printed under a multi-select question, e.g. "Tick (✓) two boxes."
+ */
+export function tickBoxesInstruction(count: number = MULTI_SELECT_ANSWER_COUNT): string {
+  return `Tick (✓) ${COUNT_WORDS[count] ?? count} boxes.`;
+}
+
+/**
+ * Answer-key letter of the option at an index (0 is "a")
+ */
+export function optionLetter(index: number): string {
+  return String.fromCharCode(97 + index);
+}
+
+/**
+ * Option index of an answer-key letter ("a" is 0), or -1 when it is not a single letter
+ */
+export function optionIndex(letter: string | undefined): number {
+  const normalized = letter?.trim().toLowerCase() ?? '';
+  return /^[a-z]$/.test(normalized) ? normalized.charCodeAt(0) - 97 : -1;
+}
+
+/**
+ * The answer letters a question with this many options uses, e.g. a, b, c for 3
+ */
+export function optionLetters(optionCount: number): string[] {
+  return Array.from({ length: optionCount }, (_, index) => optionLetter(index));
+}
+
+/**
+ * Answer-key entry for several correct options, e.g. "a,c" (always in letter order)
+ */
+export function formatOptionLetters(indices: number[]): string {
+  return [...indices].sort((a, b) => a - b).map(optionLetter).join(',');
+}
+
+/**
+ * Option indices of a multi-select answer such as "a,c", "A and C" or "ac" (-1 for anything that
+ * is not a letter)
+ */
+export function parseOptionLetters(answer: string | undefined): number[] {
+  const normalized = answer?.trim().toLowerCase() ?? '';
+  const parts = /^[a-z]+$/.test(normalized) ? normalized.split('') : normalized.split(/\s*(?:,|\band\b|&|\+|\s)\s*/);
+  return parts.filter(part => part !== '').map(optionIndex);
+}
+
+/**
+ * The letters for a prompt, e.g. "a, b, c or d"
+ */
+export function describeOptionLetters(optionCount: number): string {
+  const letters = optionLetters(optionCount);
+  return letters.length > 1 ? `${letters.slice(0, -1).join(', ')} or ${letters[letters.length - 1]}` : letters.join('');
+}
+
+/**
+ * Question type a quiz starts with - retrieval quizzes are MCQs, the mini quiz is written answers
+ */
+export function getDefaultQuestionType(quizType: QuizConfig["quizType"]): QuestionType {
+  return quizType === 'mini' ? 'SHORT_ANSWER' : 'MULTIPLE_CHOICE';
+}
+
+/**
+ * Check a mixed-mode blend: whole percentages that add up to 100
+ */
+export function validateQuestionTypeMix(mix: QuestionTypeMix): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  QUESTION_TYPES.forEach(type => {
+    const value = mix[type];
+    if (!Number.isInteger(value) || value < 0 || value > 100) {
+      errors.push(`${QUESTION_TYPE_LABELS[type]} share must be a whole percentage from 0 to 100, got ${value}`);
+    }
+  });
+
+  const total = QUESTION_TYPES.reduce((sum, type) => sum + (Number(mix[type]) || 0), 0);
+  if (total !== 100) {
+    errors.push(`Question type shares must add up to 100%, got ${total}%`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Decide the type of every question in a block of `count` questions.
+ * Mixed mode splits the count by the blend (largest remainder) and interleaves the types
+ * so each AO section gets a share rather than one type per section.
+ */
+export function planQuestionTypes(
+  count: number,
+  questionType: QuizConfig["questionType"],
+  mix: QuestionTypeMix = DEFAULT_QUESTION_TYPE_MIX
+): QuestionType[] {
+  if (questionType !== 'MIXED') {
+    return Array.from({ length: count }, () => questionType);
+  }
+
+  const total = QUESTION_TYPES.reduce((sum, type) => sum + mix[type], 0) || 100;
+  const exact = QUESTION_TYPES.map(type => (mix[type] / total) * count);
+  const counts = exact.map(Math.floor);
+  const byRemainder = QUESTION_TYPES
+    .map((_, index) => index)
+    .sort((a, b) => (exact[b] - counts[b]) - (exact[a] - counts[a]));
+  for (let i = 0; counts.reduce((sum, n) => sum + n, 0) < count; i++) {
+    counts[byRemainder[i % byRemainder.length]]++;
+  }
+
+  // Smooth round robin: always place the type furthest behind its target share
+  const placed = QUESTION_TYPES.map(() => 0);
+  return Array.from({ length: count }, (_, slot) => {
+    let best = -1;
+    QUESTION_TYPES.forEach((_, index) => {
+      if (placed[index] >= counts[index]) return;
+      const lag = (counts[index] * (slot + 1)) / count - placed[index];
+      const bestLag = best === -1 ? -Infinity : (counts[best] * (slot + 1)) / count - placed[best];
+      if (lag > bestLag) best = index;
+    });
+    placed[best]++;
+    return QUESTION_TYPES[best];
+  });
+}
+
+/**
+ * Describe a type plan for a prompt, e.g. "Questions 1–3: multiple choice"
+ */
+export function formatQuestionTypePlan(plan: QuestionType[], firstNumber: number = 1): string {
+  const lines: string[] = [];
+  let start = 0;
+
+  plan.forEach((type, index) => {
+    if (index + 1 < plan.length && plan[index + 1] === type) return;
+    const from = firstNumber + start;
+    const to = firstNumber + index;
+    const range = from === to ? `Question ${from}` : `Questions ${from}–${to}`;
+    lines.push(`● ${range}: ${QUESTION_TYPE_LABELS[type].toLowerCase()}`);
+    start = index + 1;
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Read the optionCount form field sent by the page (4 when it is missing)
+ */
+export function parseOptionCountField(field: FormDataEntryValue | null): { optionCount: number; errors: string[] } {
+  if (field === null || field === '') return { optionCount: DEFAULT_OPTION_COUNT, errors: [] };
+
+  const optionCount = Number(field);
+  if (!Number.isInteger(optionCount) || optionCount < OPTION_COUNT_LIMITS.min || optionCount > OPTION_COUNT_LIMITS.max) {
+    return {
+      optionCount: DEFAULT_OPTION_COUNT,
+      errors: [`Options per question must be between ${OPTION_COUNT_LIMITS.min} and ${OPTION_COUNT_LIMITS.max}, got ${field}`],
+    };
+  }
+
+  return { optionCount, errors: [] };
+}
+
+/**
+ * Read questionType/questionTypeMix form fields sent by the page
+ */
+export function parseQuestionTypeFields(
+  questionTypeField: FormDataEntryValue | null,
+  mixField: FormDataEntryValue | null,
+  fallback: QuestionType
+): { questionType: QuizConfig["questionType"]; mix?: QuestionTypeMix; errors: string[] } {
+  const questionType = (questionTypeField as string | null) || fallback;
+
+  if (questionType !== 'MIXED' && !QUESTION_TYPES.includes(questionType as QuestionType)) {
+    return { questionType: fallback, errors: [`Unknown question type '${questionType}'`] };
+  }
+
+  if (questionType !== 'MIXED') {
+    return { questionType: questionType as QuestionType, errors: [] };
+  }
+
+  let mix: QuestionTypeMix = DEFAULT_QUESTION_TYPE_MIX;
+  if (mixField) {
+    try {
+      mix = { ...DEFAULT_QUESTION_TYPE_MIX, ...JSON.parse(mixField as string) };
+    } catch {
+      return { questionType, errors: ['Invalid question type mix'] };
+    }
+  }
+
+  return { questionType, mix, errors: validateQuestionTypeMix(mix).errors };
+}
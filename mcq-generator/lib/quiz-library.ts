@@ -0,0 +1,193 @@
+import { createHash, randomUUID } from "crypto";
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from "fs/promises";
+import path from "path";
+import { GeneratedQuestion, QuizConfig, SavedQuiz, SavedQuizSummary } from "./types";
+import { getQuizTypeTitle } from "./practice-quiz";
+
+// Quiz ids are UUIDs - anything else could walk out of the library directory
+const QUIZ_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+/**
+ * Directory holding one <id>.json file per saved quiz (QUIZ_LIBRARY_DIR, defaults to .data/quiz-library)
+ */
+export function getLibraryDir(): string {
+  return process.env.QUIZ_LIBRARY_DIR || path.join(process.cwd(), ".data", "quiz-library");
+}
+
+function quizPath(id: string): string {
+  if (!QUIZ_ID_PATTERN.test(id)) {
+    throw new Error(`Invalid quiz id '${id}'`);
+  }
+  return path.join(getLibraryDir(), `${id}.json`);
+}
+
+async function writeQuiz(quiz: SavedQuiz): Promise<void> {
+  const filePath = quizPath(quiz.id);
+  await mkdir(path.dirname(filePath), { recursive: true });
+
+  // Write then rename so a crash never leaves a half-written quiz behind
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await writeFile(tempPath, JSON.stringify(quiz, null, 2), "utf8");
+  await rename(tempPath, filePath);
+}
+
+/**
+ * SHA-256 of an uploaded image - lets the library tell which quizzes came from the same pages
+ */
+export function hashImage(buffer: Buffer): string {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+/**
+ * Default library title, e.g. "Cell Biology – Mini Quiz"
+ */
+export function buildQuizTitle(config: QuizConfig, questions: GeneratedQuestion[]): string {
+  const topics = [...new Set(questions.map(q => q.topic).filter(Boolean))];
+  const typeTitle = getQuizTypeTitle(config.quizType);
+  return topics.length > 0
+    ? `${topics.join(", ")} – ${typeTitle}`
+    : `${config.educationLevel} ${typeTitle}`;
+}
+
+/**
+ * Load a saved quiz, or null if it does not exist (or the id is malformed)
+ */
+export async function getQuiz(id: string): Promise<SavedQuiz | null> {
+  if (!QUIZ_ID_PATTERN.test(id)) return null;
+
+  try {
+    return JSON.parse(await readFile(quizPath(id), "utf8")) as SavedQuiz;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+/**
+ * Save a freshly generated quiz. With libraryId the generation is added as a new version
+ * of that quiz instead (used when a reopened quiz is regenerated).
+ */
+export async function saveGeneratedQuiz(
+  entry: {
+    config: QuizConfig;
+    imageHashes: string[];
+    questions: GeneratedQuestion[];
+    originalAnswerKey?: string[];
+    shuffledAnswerKey?: string[];
+    seed?: string;
+  },
+  libraryId?: string | null
+): Promise<SavedQuiz> {
+  const now = new Date().toISOString();
+  // A reopened quiz deleted in the meantime is saved as a new entry rather than lost
+  const existing = libraryId ? await getQuiz(libraryId) : null;
+
+  const version = {
+    version: (existing?.versions.length ?? 0) + 1,
+    createdAt: now,
+    questions: entry.questions,
+    originalAnswerKey: entry.originalAnswerKey,
+    shuffledAnswerKey: entry.shuffledAnswerKey,
+    seed: entry.seed,
+  };
+
+  const quiz: SavedQuiz = existing
+    ? {
+        ...existing,
+        updatedAt: now,
+        config: entry.config,
+        imageHashes: entry.imageHashes,
+        versions: [...existing.versions, version],
+      }
+    : {
+        id: randomUUID(),
+        title: buildQuizTitle(entry.config, entry.questions),
+        createdAt: now,
+        updatedAt: now,
+        config: entry.config,
+        imageHashes: entry.imageHashes,
+        versions: [version],
+      };
+
+  await writeQuiz(quiz);
+  return quiz;
+}
+
+/**
+ * All saved quizzes, most recently updated first
+ */
+export async function listQuizzes(): Promise<SavedQuizSummary[]> {
+  let files: string[];
+  try {
+    files = await readdir(getLibraryDir());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const quizzes = await Promise.all(
+    files
+      .filter(file => file.endsWith(".json"))
+      .map(file => getQuiz(file.replace(/\.json$/, "")).catch(() => null))
+  );
+
+  return quizzes
+    .filter((quiz): quiz is SavedQuiz => quiz !== null)
+    .map(quiz => ({
+      id: quiz.id,
+      title: quiz.title,
+      createdAt: quiz.createdAt,
+      updatedAt: quiz.updatedAt,
+      quizType: quiz.config.quizType,
+      educationLevel: quiz.config.educationLevel,
+      questionCount: quiz.versions[quiz.versions.length - 1]?.questions.length ?? 0,
+      versionCount: quiz.versions.length,
+    }))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function renameQuiz(id: string, title: string): Promise<SavedQuiz | null> {
+  const quiz = await getQuiz(id);
+  if (!quiz) return null;
+
+  const renamed = { ...quiz, title, updatedAt: new Date().toISOString() };
+  await writeQuiz(renamed);
+  return renamed;
+}
+
+/**
+ * Copy a quiz's latest version into a new library entry
+ */
+export async function duplicateQuiz(id: string): Promise<SavedQuiz | null> {
+  const quiz = await getQuiz(id);
+  if (!quiz) return null;
+
+  const now = new Date().toISOString();
+  const latest = quiz.versions[quiz.versions.length - 1];
+  const copy: SavedQuiz = {
+    ...quiz,
+    id: randomUUID(),
+    title: `${quiz.title} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+    versions: latest ? [{ ...latest, version: 1, createdAt: now }] : [],
+  };
+
+  await writeQuiz(copy);
+  return copy;
+}
+
+/**
+ * Delete a quiz; returns false if it did not exist
+ */
+export async function deleteQuiz(id: string): Promise<boolean> {
+  if (!QUIZ_ID_PATTERN.test(id)) return false;
+
+  try {
+    await unlink(quizPath(id));
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return false;
+    throw error;
+  }
+}
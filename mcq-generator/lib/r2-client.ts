@@ -1,4 +1,4 @@
-import { S3Client, PutObjectCommand, DeleteObjectCommand, GetObjectCommand } from "@aws-sdk/client-s3";
+import { S3Client, PutObjectCommand, DeleteObjectCommand, GetObjectCommand, ListObjectsV2Command } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 
 // Initialize R2 client with proper configuration
@@ -48,16 +48,45 @@ export async function deleteFromR2(key: string): Promise<void> {
 }
 
 /**
- * Generate a signed URL for temporary public access (expires in 1 hour)
+ * List every object under a prefix (follows continuation tokens past 1000 keys)
  */
-export async function getSignedR2Url(key: string): Promise<string> {
+export async function listR2Objects(
+  prefix: string
+): Promise<Array<{ key: string; lastModified?: Date; size?: number }>> {
+  const objects: Array<{ key: string; lastModified?: Date; size?: number }> = [];
+  let continuationToken: string | undefined;
+
+  do {
+    const response = await r2Client.send(
+      new ListObjectsV2Command({
+        Bucket: R2_BUCKET_NAME,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      })
+    );
+
+    for (const object of response.Contents ?? []) {
+      if (object.Key) {
+        objects.push({ key: object.Key, lastModified: object.LastModified, size: object.Size });
+      }
+    }
+    continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+  } while (continuationToken);
+
+  return objects;
+}
+
+/**
+ * Generate a signed URL for temporary public access (expires in 1 hour unless told otherwise)
+ */
+export async function getSignedR2Url(key: string, expiresIn: number = 3600): Promise<string> {
   const command = new GetObjectCommand({
     Bucket: R2_BUCKET_NAME,
     Key: key,
   });
   
-  // Generate signed URL that expires in 1 hour
-  const signedUrl = await getSignedUrl(r2Client, command, { expiresIn: 3600 });
+  // Generate signed URL that expires after expiresIn seconds
+  const signedUrl = await getSignedUrl(r2Client, command, { expiresIn });
   return signedUrl;
 }
 
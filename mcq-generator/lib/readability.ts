@@ -0,0 +1,46 @@
+import { ImageTextExtraction } from "./types";
+
+// Below this much readable text, questions start drawing on guesses rather than the page
+export const MIN_EXTRACTION_PERCENTAGE = 75;
+
+// What the uploader shows for a checked page (the extracted text itself stays on the server)
+export type ReadabilityCheck = Omit<ImageTextExtraction, "extractedText"> & {
+  warning: string | null; // Why the page may give poor questions, or null when it reads well
+};
+
+/**
+ * Explain why a page is likely to give poor questions, or return null when it reads well.
+ * A fair or poor score, low confidence or too little readable text each count against it.
+ */
+export function getReadabilityWarning(extraction: Omit<ImageTextExtraction, "extractedText">): string | null {
+  const problems: string[] = [];
+
+  if (extraction.readabilityScore === "fair" || extraction.readabilityScore === "poor") {
+    problems.push(`readability is ${extraction.readabilityScore}`);
+  }
+  if (extraction.extractionPercentage < MIN_EXTRACTION_PERCENTAGE) {
+    problems.push(`only about ${Math.round(extraction.extractionPercentage)}% of the text could be read`);
+  }
+  if (extraction.confidence === "low") {
+    problems.push("the reading is low confidence");
+  }
+  if (problems.length === 0) return null;
+
+  const unclear = extraction.unclearAreas.length > 0 ? ` Unclear: ${extraction.unclearAreas.join("; ")}.` : "";
+  return `This page may be hard to read - ${problems.join(", ")}.${unclear}`;
+}
+
+/**
+ * Reduce a text extraction to what the uploader needs, with its warning
+ */
+export function toReadabilityCheck(extraction: ImageTextExtraction): ReadabilityCheck {
+  const { extractionPercentage, unclearAreas, confidence, totalWords, readabilityScore } = extraction;
+  return {
+    extractionPercentage,
+    unclearAreas,
+    confidence,
+    totalWords,
+    readabilityScore,
+    warning: getReadabilityWarning(extraction),
+  };
+}
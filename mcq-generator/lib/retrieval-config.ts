@@ -0,0 +1,106 @@
+import { RetrievalTopicConfig } from './types';
+
+/**
+ * Shape limits for retrieval quizzes
+ */
+export const RETRIEVAL_LIMITS = {
+  minTopics: 2,
+  maxTopics: 6,
+  minQuestionsPerTopic: 5,
+  maxQuestionsPerTopic: 15,
+} as const;
+
+export const DEFAULT_QUESTIONS_PER_TOPIC = 10;
+
+// Default spaced-repetition labels, oldest revision last
+export const DEFAULT_REVISION_LABELS = [
+  'revised last week',
+  'revised 2–3 weeks ago',
+  'revised 4+ weeks ago',
+  'revised 6+ weeks ago',
+  'revised 8+ weeks ago',
+  'revised last term',
+];
+
+export interface RetrievalQuizShape {
+  questionsPerTopic: number;
+  topics: RetrievalTopicConfig[];
+  optionCount?: number; // Options per multiple-choice question (4 when unset)
+}
+
+/**
+ * Default topic settings: Topic A, B, C... with an even AO1/AO2 split (AO1 takes the odd question)
+ */
+export function buildDefaultRetrievalTopics(
+  topicCount: number,
+  questionsPerTopic: number = DEFAULT_QUESTIONS_PER_TOPIC
+): RetrievalTopicConfig[] {
+  return Array.from({ length: topicCount }, (_, index) => ({
+    name: `Topic ${String.fromCharCode(65 + index)}`,
+    revisionLabel: DEFAULT_REVISION_LABELS[index] ?? DEFAULT_REVISION_LABELS[DEFAULT_REVISION_LABELS.length - 1],
+    ao1Count: Math.ceil(questionsPerTopic / 2),
+  }));
+}
+
+/**
+ * Resize the topic list and keep every AO1 count within the questions per topic
+ */
+export function resizeRetrievalTopics(
+  topics: RetrievalTopicConfig[],
+  topicCount: number,
+  questionsPerTopic: number
+): RetrievalTopicConfig[] {
+  const defaults = buildDefaultRetrievalTopics(topicCount, questionsPerTopic);
+  return defaults.map((fallback, index) => {
+    const existing = topics[index];
+    if (!existing) return fallback;
+    return { ...existing, ao1Count: Math.min(existing.ao1Count, questionsPerTopic) };
+  });
+}
+
+/**
+ * Validate a retrieval quiz shape against the limits
+ */
+export function validateRetrievalShape(shape: RetrievalQuizShape): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const { questionsPerTopic, topics } = shape;
+
+  if (
+    !Number.isInteger(questionsPerTopic) ||
+    questionsPerTopic < RETRIEVAL_LIMITS.minQuestionsPerTopic ||
+    questionsPerTopic > RETRIEVAL_LIMITS.maxQuestionsPerTopic
+  ) {
+    errors.push(
+      `Questions per topic must be between ${RETRIEVAL_LIMITS.minQuestionsPerTopic} and ${RETRIEVAL_LIMITS.maxQuestionsPerTopic}, got ${questionsPerTopic}`
+    );
+  }
+
+  if (topics.length < RETRIEVAL_LIMITS.minTopics || topics.length > RETRIEVAL_LIMITS.maxTopics) {
+    errors.push(
+      `Retrieval quiz needs ${RETRIEVAL_LIMITS.minTopics}–${RETRIEVAL_LIMITS.maxTopics} topics, got ${topics.length}`
+    );
+  }
+
+  topics.forEach((topic, index) => {
+    // The topics come straight from the posted JSON, so an entry may not be an object at all
+    if (typeof topic !== 'object' || topic === null) {
+      errors.push(`Topic ${index + 1} must be an object`);
+      return;
+    }
+    const label = topic.name || `Topic ${index + 1}`;
+    if (typeof topic.name !== 'string' || !topic.name.trim()) {
+      errors.push(`Topic ${index + 1} needs a name`);
+    }
+    if (!Number.isInteger(topic.ao1Count) || topic.ao1Count < 0 || topic.ao1Count > questionsPerTopic) {
+      errors.push(`${label}: AO1 count must be between 0 and ${questionsPerTopic}, got ${topic.ao1Count}`);
+    }
+  });
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
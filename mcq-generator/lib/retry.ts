@@ -0,0 +1,59 @@
+export interface RetryOptions {
+  attempts: number; // Total tries, including the first
+  baseDelayMs: number; // Wait before the first retry; doubles on each later one
+  label: string; // Used in log lines, e.g. "Topic A"
+  onRetry?: (attempt: number, error: unknown) => void; // Called before waiting to retry a failed attempt
+}
+
+// Defaults for one retrieval topic call (RETRIEVAL_TOPIC_ATTEMPTS overrides the attempt count)
+export const TOPIC_RETRY_OPTIONS: Omit<RetryOptions, 'label'> = {
+  attempts: Number(process.env.RETRIEVAL_TOPIC_ATTEMPTS) || 3,
+  baseDelayMs: 1000,
+};
+
+/**
+ * Thrown once every attempt has failed; `cause` is the last error
+ */
+export class RetryError extends Error {
+  constructor(
+    public readonly attempts: number,
+    public readonly cause: unknown
+  ) {
+    super(cause instanceof Error ? cause.message : String(cause));
+    this.name = 'RetryError';
+  }
+}
+
+/**
+ * Client errors such as a bad API key or a rejected request fail the same way every time
+ * (timeouts, conflicts and rate limits are worth retrying)
+ */
+function isRetryable(error: unknown): boolean {
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status !== 'number') return true;
+  return status >= 500 || status === 408 || status === 409 || status === 429;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Run `task` until it succeeds, waiting baseDelayMs, 2×baseDelayMs, ... (with jitter) between tries
+ */
+export async function withRetries<T>(task: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (attempt >= options.attempts || !isRetryable(error)) {
+        throw new RetryError(attempt, error);
+      }
+
+      options.onRetry?.(attempt, error);
+      const delay = options.baseDelayMs * 2 ** (attempt - 1) * (0.75 + Math.random() / 2);
+      console.warn(`🔁 ${options.label} failed (attempt ${attempt}/${options.attempts}), retrying in ${Math.round(delay)}ms:`, error instanceof Error ? error.message : error);
+      await sleep(delay);
+    }
+  }
+}
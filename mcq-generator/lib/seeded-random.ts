@@ -0,0 +1,45 @@
+/**
+ * Random numbers in [0, 1), like Math.random - pass a seeded one to make shuffles reproducible
+ */
+export type RandomSource = () => number;
+
+const MAX_SEED_LENGTH = 64;
+
+// FNV-1a: turns any seed string into a 32-bit starting state
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic generator (mulberry32): the same seed always yields the same sequence
+ */
+export function createSeededRandom(seed: string): RandomSource {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Fresh seed for a quiz that was not given one, e.g. "k3v9q0x2"
+ */
+export function generateSeed(): string {
+  return Math.floor(Math.random() * 2 ** 32).toString(36).padStart(7, '0');
+}
+
+/**
+ * The seed a request asked for (trimmed, at most 64 characters), or a fresh one
+ */
+export function resolveSeed(value: unknown): string {
+  const seed = typeof value === 'string' ? value.trim().slice(0, MAX_SEED_LENGTH) : '';
+  return seed || generateSeed();
+}
@@ -1,16 +1,17 @@
+import { QuestionType } from './types';
+import { RandomSource } from './seeded-random';
+import { formatOptionLetters, optionIndex, optionLetter, parseOptionLetters } from './question-types';
+
 /**
  * Utility to shuffle quiz options and update the answer key in place
  * Based on demo/shuffleQuiz.js - exact same logic converted to TypeScript
  */
 
-const LETTERS = ["a", "b", "c", "d"] as const;
-const letterToIndex = { a: 0, b: 1, c: 2, d: 3 } as const;
-
-// Fisher-Yates shuffle that works on a copy
-function shuffleArray<T>(items: T[]): T[] {
+// Fisher-Yates shuffle that works on a copy (pass a seeded random to reproduce the order)
+export function shuffleArray<T>(items: T[], random: RandomSource = Math.random): T[] {
   const arr = [...items];
   for (let i = arr.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [arr[i], arr[j]] = [arr[j], arr[i]];
   }
   return arr;
@@ -18,7 +19,9 @@ function shuffleArray<T>(items: T[]): T[] {
 
 interface QuizQuestion {
   question: string;
-  options: string[];
+  type?: QuestionType; // Omitted for multiple choice
+  options?: string[];
+  markPoints?: string[];
 }
 
 interface QuizTopic {
@@ -26,13 +29,77 @@ interface QuizTopic {
   questions: QuizQuestion[];
 }
 
-interface QuizData {
+export interface QuizData {
   title: string;
   topics: QuizTopic[];
   answer_key: string[];
 }
 
-export function shuffleQuiz(quiz: QuizData): QuizData {
+/**
+ * Shuffle one MCQ's options and report where the correct option ended up
+ */
+export function shuffleOptions(
+  options: string[],
+  correctIndex: number,
+  random: RandomSource = Math.random
+): { options: string[]; correctIndex: number } {
+  // Track original indices so duplicates are handled safely
+  const optionsWithIndex = options.map((text, idx) => ({
+    text,
+    originalIndex: idx
+  }));
+  const shuffled = shuffleArray(optionsWithIndex, random);
+
+  return {
+    options: shuffled.map((opt) => opt.text),
+    correctIndex: shuffled.findIndex((opt) => opt.originalIndex === correctIndex)
+  };
+}
+
+/**
+ * Shuffle one multi-select question's options and report where every correct option ended up
+ */
+export function shuffleMultiSelectOptions(
+  options: string[],
+  correctIndices: number[],
+  random: RandomSource = Math.random
+): { options: string[]; correctIndices: number[] } {
+  const optionsWithIndex = options.map((text, idx) => ({
+    text,
+    originalIndex: idx
+  }));
+  const shuffled = shuffleArray(optionsWithIndex, random);
+
+  return {
+    options: shuffled.map((opt) => opt.text),
+    correctIndices: shuffled
+      .map((opt, idx) => (correctIndices.includes(opt.originalIndex) ? idx : -1))
+      .filter((idx) => idx !== -1)
+  };
+}
+
+/**
+ * Swap the correct option into the target slot (the option there takes its old place)
+ */
+export function moveCorrectOption(
+  options: string[],
+  correctIndex: number,
+  targetIndex: number
+): { options: string[]; correctIndex: number } {
+  if (targetIndex < 0 || targetIndex >= options.length || correctIndex < 0 || correctIndex >= options.length) {
+    return { options, correctIndex };
+  }
+
+  const moved = [...options];
+  [moved[targetIndex], moved[correctIndex]] = [moved[correctIndex], moved[targetIndex]];
+  return { options: moved, correctIndex: targetIndex };
+}
+
+/**
+ * Shuffle every MCQ's and multi-select question's options in question order; the same seeded
+ * random gives the same paper
+ */
+export function shuffleQuiz(quiz: QuizData, random: RandomSource = Math.random): QuizData {
   if (!quiz || !Array.isArray(quiz.topics) || !Array.isArray(quiz.answer_key)) {
     throw new Error("Quiz object must include topics[] and answer_key[].");
   }
@@ -42,16 +109,50 @@ export function shuffleQuiz(quiz: QuizData): QuizData {
 
   const topics = quiz.topics.map((topic) => {
     const questions = topic.questions.map((question) => {
-      if (!Array.isArray(question.options) || question.options.length !== 4) {
+      // Multi-select keys list every correct letter ("a,c"); each one follows its option
+      if (question.type === "MULTI_SELECT") {
+        const answerEntry = quiz.answer_key[flatIndex];
+        const correctIndices = parseOptionLetters(answerEntry);
+        if (
+          !Array.isArray(question.options) ||
+          correctIndices.length === 0 ||
+          correctIndices.some((idx) => idx === -1 || idx >= (question.options?.length ?? 0))
+        ) {
+          throw new Error(
+            `Invalid answer key entry '${answerEntry}' at position ${
+              flatIndex + 1
+            }.`
+          );
+        }
+
+        const shuffled = shuffleMultiSelectOptions(question.options, correctIndices, random);
+        updatedAnswerKey.push(formatOptionLetters(shuffled.correctIndices));
+        flatIndex += 1;
+
+        return {
+          ...question,
+          options: shuffled.options
+        };
+      }
+
+      // True/false and written answers keep their key entry - there is nothing to shuffle
+      if (question.type && question.type !== "MULTIPLE_CHOICE") {
+        updatedAnswerKey.push(quiz.answer_key[flatIndex]);
+        flatIndex += 1;
+        return question;
+      }
+
+      // Any number of options works (3 for younger groups, 5 for A-level); the key letter must name one
+      if (!Array.isArray(question.options) || question.options.length < 2) {
         throw new Error(
-          `Question at index ${flatIndex} must have exactly 4 options.`
+          `Question at index ${flatIndex} must have at least 2 options.`
         );
       }
 
       const answerChar = quiz.answer_key[flatIndex];
-      const correctOriginalIndex = letterToIndex[answerChar as keyof typeof letterToIndex];
+      const correctOriginalIndex = optionIndex(answerChar);
 
-      if (correctOriginalIndex === undefined) {
+      if (correctOriginalIndex === -1 || correctOriginalIndex >= question.options.length) {
         throw new Error(
           `Invalid answer key entry '${answerChar}' at position ${
             flatIndex + 1
@@ -59,16 +160,8 @@ export function shuffleQuiz(quiz: QuizData): QuizData {
         );
       }
 
-      // Track original indices so duplicates are handled safely
-      const optionsWithIndex = question.options.map((text, idx) => ({
-        text,
-        originalIndex: idx
-      }));
-      const shuffled = shuffleArray(optionsWithIndex);
-
-      const newCorrectIndex = shuffled.findIndex(
-        (opt) => opt.originalIndex === correctOriginalIndex
-      );
+      const shuffled = shuffleOptions(question.options, correctOriginalIndex, random);
+      const newCorrectIndex = shuffled.correctIndex;
       if (newCorrectIndex === -1) {
         throw new Error(
           `Could not locate correct option after shuffling question ${
@@ -77,12 +170,12 @@ export function shuffleQuiz(quiz: QuizData): QuizData {
         );
       }
 
-      updatedAnswerKey.push(LETTERS[newCorrectIndex]);
+      updatedAnswerKey.push(optionLetter(newCorrectIndex));
       flatIndex += 1;
 
       return {
         ...question,
-        options: shuffled.map((opt) => opt.text)
+        options: shuffled.options
       };
     });
 
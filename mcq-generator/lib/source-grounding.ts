@@ -0,0 +1,28 @@
+import { QuestionGrounding } from './types';
+
+/**
+ * Whether generation runs the source-grounding check after building a quiz.
+ *
+ * GROUNDING_CHECK  on (default) | off
+ */
+export function isGroundingCheckEnabled(env: NodeJS.ProcessEnv = process.env): boolean {
+  const setting = (env.GROUNDING_CHECK || 'on').trim().toLowerCase();
+
+  if (setting !== 'on' && setting !== 'off') {
+    throw new Error(`Unknown GROUNDING_CHECK '${setting}'. Expected one of: on, off`);
+  }
+
+  return setting === 'on';
+}
+
+export const GROUNDING_LABELS: Record<QuestionGrounding['support'], string> = {
+  supported: 'Supported',
+  partial: 'Partly supported',
+  unsupported: 'Not in source',
+};
+
+export const GROUNDING_BADGE_CLASSES: Record<QuestionGrounding['support'], string> = {
+  supported: 'bg-emerald-50 border-emerald-200 text-emerald-700',
+  partial: 'bg-amber-50 border-amber-200 text-amber-800',
+  unsupported: 'bg-red-50 border-red-200 text-red-700',
+};
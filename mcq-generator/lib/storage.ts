@@ -0,0 +1,315 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { mkdir, readdir, readFile, stat, unlink, writeFile } from "fs/promises";
+import path from "path";
+import { deleteFromR2, getSignedR2Url, listR2Objects, uploadToR2 } from "./r2-client";
+
+export type StorageBackendName = "r2" | "local" | "memory";
+
+const BACKEND_NAMES: StorageBackendName[] = ["r2", "local", "memory"];
+const DEFAULT_URL_EXPIRY_SECONDS = 3600;
+
+// Every upload is temporary and lives under this prefix until its request deletes it
+export const TEMPORARY_UPLOAD_PREFIX = "temp/";
+
+export interface StorageConfig {
+  backend: StorageBackendName;
+  localDir: string; // Where the local backend keeps uploads
+  publicBaseUrl: string; // Origin the model fetches local and memory uploads from
+  signingSecret?: string; // Signs local and memory URLs; a random per-process secret when unset
+  urlExpirySeconds: number;
+}
+
+// A stored upload, as served back by the signed-URL endpoint
+export interface StoredObject {
+  body: Buffer;
+  contentType: string;
+}
+
+// One entry from a listing, for the temporary upload sweeper
+export interface StoredObjectInfo {
+  key: string;
+  uploadedAt: Date;
+  size?: number; // Bytes, when the backend reports it
+}
+
+export interface StorageBackend {
+  name: StorageBackendName;
+  upload(buffer: Buffer, filename: string, contentType: string): Promise<string>; // Returns the key
+  getSignedUrl(key: string): Promise<string>; // Expires after urlExpirySeconds
+  delete(key: string): Promise<void>;
+  read(key: string): Promise<StoredObject | null>; // Null when missing, or when the backend serves its own URLs (r2)
+  list(prefix: string): Promise<StoredObjectInfo[]>;
+}
+
+/**
+ * Read the storage configuration from environment variables
+ *
+ * STORAGE_BACKEND        r2 (default) | local | memory
+ * STORAGE_LOCAL_DIR      local only, defaults to .data/uploads
+ * STORAGE_PUBLIC_URL     origin of this app as the model sees it (defaults to http://localhost:$PORT)
+ * STORAGE_SIGNING_SECRET HMAC secret for local/memory URLs (random per process when unset)
+ * STORAGE_URL_EXPIRY_SECONDS  signed URL lifetime for every backend (defaults to 3600)
+ *
+ * The r2 backend reads R2_ENDPOINT, R2_BUCKET_NAME, R2_ACCESS_KEY_ID and R2_SECRET_ACCESS_KEY;
+ * any S3-compatible endpoint works.
+ */
+export function resolveStorageConfig(env: NodeJS.ProcessEnv = process.env): StorageConfig {
+  const backend = (env.STORAGE_BACKEND || "r2").trim().toLowerCase() as StorageBackendName;
+
+  if (!BACKEND_NAMES.includes(backend)) {
+    throw new Error(
+      `Unknown STORAGE_BACKEND '${backend}'. Expected one of: ${BACKEND_NAMES.join(", ")}`
+    );
+  }
+
+  return {
+    backend,
+    localDir: env.STORAGE_LOCAL_DIR || path.join(process.cwd(), ".data", "uploads"),
+    publicBaseUrl: (env.STORAGE_PUBLIC_URL || `http://localhost:${env.PORT || 3000}`).replace(/\/+$/, ""),
+    signingSecret: env.STORAGE_SIGNING_SECRET,
+    urlExpirySeconds: Number(env.STORAGE_URL_EXPIRY_SECONDS) || DEFAULT_URL_EXPIRY_SECONDS,
+  };
+}
+
+/**
+ * Return a human-readable reason why the configured backend cannot run, or null if it can
+ */
+export function getStorageConfigError(env: NodeJS.ProcessEnv = process.env): string | null {
+  let config: StorageConfig;
+  try {
+    config = resolveStorageConfig(env);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  if (config.backend === "r2") {
+    const missing = ["R2_ENDPOINT", "R2_BUCKET_NAME", "R2_ACCESS_KEY_ID", "R2_SECRET_ACCESS_KEY"].filter(name => !env[name]);
+    if (missing.length > 0) {
+      return `R2 storage is not configured (missing ${missing.join(", ")}); set STORAGE_BACKEND=local to keep uploads on this server`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Temporary upload key, e.g. temp/1700000000000-k3j2h1-page-1.png
+ */
+function createUploadKey(filename: string): string {
+  const safeName = filename.replace(/[^A-Za-z0-9._-]+/g, "-").slice(-100) || "upload";
+  return `${TEMPORARY_UPLOAD_PREFIX}${Date.now()}-${randomBytes(6).toString("hex")}-${safeName}`;
+}
+
+// Keys come back through the file URL - anything else could walk out of the storage directory
+const KEY_PATTERN = /^temp\/[A-Za-z0-9._-]+$/;
+
+function assertValidKey(key: string): void {
+  if (!KEY_PATTERN.test(key) || key.includes("..")) {
+    throw new Error(`Invalid storage key '${key}'`);
+  }
+}
+
+// ============================================================================
+// SIGNED URLS - served by /api/files for the local and memory backends
+// ============================================================================
+
+// Kept on globalThis so every route bundle (and dev-server reload) signs with the same secret
+const globalStorage = globalThis as typeof globalThis & {
+  storageSigningSecret?: string;
+  memoryStorage?: Map<string, StoredObject & { uploadedAt: Date }>;
+};
+
+function getSigningSecret(config: StorageConfig): string {
+  if (config.signingSecret) return config.signingSecret;
+  globalStorage.storageSigningSecret ??= randomBytes(32).toString("hex");
+  return globalStorage.storageSigningSecret;
+}
+
+function sign(config: StorageConfig, key: string, expires: number): string {
+  return createHmac("sha256", getSigningSecret(config)).update(`${key}:${expires}`).digest("hex");
+}
+
+/**
+ * URL the model can fetch `key` from until it expires
+ */
+export function createSignedFileUrl(config: StorageConfig, key: string, now: number = Date.now()): string {
+  const expires = Math.floor(now / 1000) + config.urlExpirySeconds;
+  const encodedKey = key.split("/").map(encodeURIComponent).join("/");
+  return `${config.publicBaseUrl}/api/files/${encodedKey}?expires=${expires}&signature=${sign(config, key, expires)}`;
+}
+
+/**
+ * Check a signed file URL's expiry and signature; returns why it is rejected, or null if valid
+ */
+export function verifySignedFileUrl(
+  config: StorageConfig,
+  key: string,
+  expires: string | null,
+  signature: string | null,
+  now: number = Date.now()
+): string | null {
+  const expiresAt = Number(expires);
+  if (!expires || !signature || !Number.isInteger(expiresAt)) {
+    return "Missing expires or signature";
+  }
+  if (expiresAt * 1000 < now) {
+    return "Link has expired";
+  }
+
+  const expected = Buffer.from(sign(config, key, expiresAt), "hex");
+  const given = Buffer.from(signature, "hex");
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return "Invalid signature";
+  }
+
+  return null;
+}
+
+// ============================================================================
+// BACKENDS
+// ============================================================================
+
+/**
+ * Cloudflare R2 (or any S3-compatible bucket) - the bucket serves its own presigned URLs
+ */
+function createR2Storage(config: StorageConfig): StorageBackend {
+  return {
+    name: "r2",
+    upload: uploadToR2,
+    getSignedUrl: (key) => getSignedR2Url(key, config.urlExpirySeconds),
+    delete: deleteFromR2,
+    async read() {
+      return null;
+    },
+    async list(prefix) {
+      const objects = await listR2Objects(prefix);
+      return objects.map(object => ({
+        key: object.key,
+        uploadedAt: object.lastModified ?? new Date(0),
+        size: object.size,
+      }));
+    },
+  };
+}
+
+/**
+ * Uploads kept on this server's disk, served back through /api/files
+ */
+function createLocalStorage(config: StorageConfig): StorageBackend {
+  const filePath = (key: string) => {
+    assertValidKey(key);
+    return path.join(config.localDir, key);
+  };
+
+  return {
+    name: "local",
+    async upload(buffer, filename, contentType) {
+      const key = createUploadKey(filename);
+      await mkdir(path.dirname(filePath(key)), { recursive: true });
+      await writeFile(filePath(key), buffer);
+      await writeFile(`${filePath(key)}.type`, contentType, "utf8");
+      return key;
+    },
+    async getSignedUrl(key) {
+      return createSignedFileUrl(config, key);
+    },
+    async delete(key) {
+      await unlink(filePath(key));
+      await unlink(`${filePath(key)}.type`).catch(() => undefined);
+    },
+    async read(key) {
+      try {
+        const [body, contentType] = await Promise.all([
+          readFile(filePath(key)),
+          readFile(`${filePath(key)}.type`, "utf8").catch(() => "application/octet-stream"),
+        ]);
+        return { body, contentType };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+    async list(prefix) {
+      // Keys are flat under temp/, so listing that one directory covers every upload
+      let names: string[];
+      try {
+        names = await readdir(path.join(config.localDir, TEMPORARY_UPLOAD_PREFIX));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw error;
+      }
+
+      const keys = names
+        .filter(name => !name.endsWith(".type"))
+        .map(name => `${TEMPORARY_UPLOAD_PREFIX}${name}`)
+        .filter(key => key.startsWith(prefix) && KEY_PATTERN.test(key));
+
+      // A request may delete its upload between readdir and stat
+      const listed = await Promise.all(keys.map(async (key): Promise<StoredObjectInfo | null> => {
+        const info = await stat(filePath(key)).catch(() => null);
+        return info ? { key, uploadedAt: info.mtime, size: info.size } : null;
+      }));
+      return listed.filter((object) => object !== null);
+    },
+  };
+}
+
+/**
+ * Uploads held in this process's memory - for tests and throwaway environments
+ */
+function createMemoryStorage(config: StorageConfig): StorageBackend {
+  globalStorage.memoryStorage ??= new Map();
+  const objects = globalStorage.memoryStorage;
+
+  return {
+    name: "memory",
+    async upload(buffer, filename, contentType) {
+      const key = createUploadKey(filename);
+      objects.set(key, { body: buffer, contentType, uploadedAt: new Date() });
+      return key;
+    },
+    async getSignedUrl(key) {
+      return createSignedFileUrl(config, key);
+    },
+    async delete(key) {
+      objects.delete(key);
+    },
+    async read(key) {
+      const object = objects.get(key);
+      return object ? { body: object.body, contentType: object.contentType } : null;
+    },
+    async list(prefix) {
+      return [...objects.entries()]
+        .filter(([key]) => key.startsWith(prefix))
+        .map(([key, object]) => ({ key, uploadedAt: object.uploadedAt, size: object.body.length }));
+    },
+  };
+}
+
+export function createStorageBackend(config: StorageConfig): StorageBackend {
+  switch (config.backend) {
+    case "r2":
+      return createR2Storage(config);
+    case "local":
+      return createLocalStorage(config);
+    case "memory":
+      return createMemoryStorage(config);
+  }
+}
+
+let cachedStorage: StorageBackend | null = null;
+
+/**
+ * Get the storage backend selected by the environment (created once per server process)
+ */
+export function getStorage(): StorageBackend {
+  if (!cachedStorage) {
+    const configError = getStorageConfigError();
+    if (configError) throw new Error(configError);
+
+    cachedStorage = createStorageBackend(resolveStorageConfig());
+    console.log(`🗄️ Storage backend: ${cachedStorage.name}`);
+  }
+
+  return cachedStorage;
+}
@@ -0,0 +1,87 @@
+import { extractText } from 'unpdf';
+import { hashImage } from './quiz-library';
+import { isPdfFile, MATERIAL_LIMITS, MaterialUpload, parsePageRange, validateMaterialFiles } from './material-files';
+import { TopicMaterial } from './types';
+
+/**
+ * Read one topic's files and page range from a form (`files` may repeat)
+ */
+export function readMaterialUpload(formData: FormData, filesField: string, pageRangeField: string): MaterialUpload {
+  return {
+    files: formData.getAll(filesField).filter((value): value is File => typeof value !== 'string'),
+    pageRange: (formData.get(pageRangeField) as string | null) ?? '',
+  };
+}
+
+/**
+ * Read every retrieval topic's material: `topic-0`, `topic-1`, ... with `pageRange-<i>`.
+ * Older clients send one image per topic as repeated `images` fields.
+ */
+export function readRetrievalUploads(formData: FormData): MaterialUpload[] {
+  if (formData.has('images')) {
+    return formData
+      .getAll('images')
+      .filter((value): value is File => typeof value !== 'string')
+      .map(file => ({ files: [file], pageRange: '' }));
+  }
+
+  const uploads: MaterialUpload[] = [];
+  while (formData.has(`topic-${uploads.length}`)) {
+    uploads.push(readMaterialUpload(formData, `topic-${uploads.length}`, `pageRange-${uploads.length}`));
+  }
+  return uploads;
+}
+
+// Text of the selected PDF pages, each under a "--- Page n ---" heading
+async function extractPdfPages(buffer: Buffer, pageRange: string, label: string): Promise<string> {
+  const { totalPages, text } = await extractText(new Uint8Array(buffer), { mergePages: false });
+  const { pages, error } = parsePageRange(pageRange, totalPages);
+  if (error) {
+    throw new Error(`${label}: ${error}`);
+  }
+  if (pages.length > MATERIAL_LIMITS.maxPdfPages) {
+    throw new Error(`${label}: choose at most ${MATERIAL_LIMITS.maxPdfPages} PDF pages (the file has ${totalPages})`);
+  }
+
+  const selected = pages
+    .map(page => ({ page, text: text[page - 1].trim() }))
+    .filter(page => page.text);
+  if (selected.length === 0) {
+    throw new Error(`${label}: the selected PDF pages have no text layer; upload scanned pages as images instead`);
+  }
+
+  return selected.map(page => `--- Page ${page.page} ---\n${page.text}`).join('\n\n');
+}
+
+/**
+ * Turn one topic's upload into what the model reads. Images go through `uploadImage` (which returns
+ * a URL the model can fetch) in page order; a PDF's selected pages are text-extracted on the server.
+ * `hash` fingerprints the source files and page selection for the quiz library.
+ */
+export async function prepareTopicMaterial(
+  upload: MaterialUpload,
+  label: string,
+  uploadImage: (buffer: Buffer, file: File) => Promise<string>
+): Promise<{ material: TopicMaterial; hash: string }> {
+  const errors = validateMaterialFiles(upload.files, label);
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+
+  const buffers = await Promise.all(upload.files.map(async file => Buffer.from(await file.arrayBuffer())));
+
+  if (isPdfFile(upload.files[0])) {
+    const text = await extractPdfPages(buffers[0], upload.pageRange, label);
+    console.log(`📄 ${label}: extracted ${text.length} characters from ${upload.files[0].name}`);
+    return {
+      material: { images: [], text },
+      hash: hashImage(Buffer.concat([buffers[0], Buffer.from(`pages:${upload.pageRange.trim()}`)])),
+    };
+  }
+
+  const images = await Promise.all(upload.files.map((file, index) => uploadImage(buffers[index], file)));
+  return {
+    material: { images },
+    hash: hashImage(Buffer.concat(buffers)),
+  };
+}
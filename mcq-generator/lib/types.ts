@@ -1,14 +1,54 @@
+export type QuestionType = "MULTIPLE_CHOICE" | "MULTI_SELECT" | "TRUE_FALSE" | "SHORT_ANSWER" | "LONG_ANSWER";
+
 export interface GeneratedQuestion {
   text: string;
-  type: "MULTIPLE_CHOICE" | "TRUE_FALSE" | "SHORT_ANSWER" | "LONG_ANSWER";
+  type: QuestionType;
   options?: string[];
-  correctAnswer?: number;
+  correctAnswer?: number; // Option index for MCQs; 1 = True, 0 = False for true/false
+  correctAnswers?: number[]; // Option indices for multi-select ("Tick two boxes") questions, ascending
   maxMarks?: number;
   image?: string;
   topic?: string; // Topic label (e.g., "Topic A: Cell Biology")
+  topicIndex?: number; // Retrieval quizzes: position of the topic upload it was written from
   questionNumber?: number; // Question number within the quiz
   aoLevel?: "AO1" | "AO2" | "AO3" | "REFLECTION"; // Assessment Objective level
   markScheme?: any; // Mark scheme data for Mini Quiz
+  section?: string; // Section/tier label for practice quizzes (e.g., "Tier 1 – Apply")
+  markPoints?: string[]; // Per-question mark scheme points for practice quizzes
+  grounding?: QuestionGrounding; // How well the uploaded material supports it, when the check ran
+  distractorWarnings?: DistractorWarning[]; // Retrieval MCQs: problems the distractor analysis found
+  aoAudit?: AoAudit; // Independent check of the cognitive demand against aoLevel
+}
+
+// What the AO audit made of a question, compared with the AO slot it was generated for
+export interface AoAudit {
+  classified: "AO1" | "AO2" | "AO3" | null; // null when the wording gives no clear cue
+  source: "rules" | "model";
+  reason: string;
+  mismatch: string | null; // e.g. "AO1 recall disguised as AO2"; null when it matches its slot
+}
+
+// How well the uploaded material backs up a question and its correct answer (source-grounding check)
+export interface QuestionGrounding {
+  support: "supported" | "partial" | "unsupported";
+  score: number; // 0-100
+  snippet: string; // Source text that supports the question and answer ("" when nothing does)
+  unsupportedClaims: string[]; // Facts in the question or answer that the material does not contain
+}
+
+// Ways an MCQ's options can give the answer away or make the question unfair
+export type DistractorIssue =
+  | "near-duplicate" // Two options say the same thing
+  | "also-correct" // A distractor is also a right answer
+  | "length-giveaway" // The correct option is conspicuously the longest
+  | "grammar-giveaway" // Only the correct option fits the stem's grammar (a/an)
+  | "catch-all" // "All of the above" and similar options
+  | "contradicts-stem"; // A distractor contradicts what the stem states
+
+export interface DistractorWarning {
+  issue: DistractorIssue;
+  message: string; // Quotes the options involved (letters change when the options are shuffled)
+  repaired: boolean; // The distractors were rewritten to fix it
 }
 
 export interface TopicQuestions {
@@ -18,15 +58,213 @@ export interface TopicQuestions {
   answerSequence: string; // 10-letter sequence for this topic (e.g., "abcdcbadcb")
 }
 
+export interface RetrievalTopicConfig {
+  name: string; // e.g., "Topic A"
+  revisionLabel: string; // Spaced-repetition label, e.g., "revised last week"
+  ao1Count: number; // AO1 questions in this topic; the remainder are AO2
+}
+
 export interface QuizConfig {
-  questionCount: number;
-  questionType: "MULTIPLE_CHOICE" | "TRUE_FALSE" | "SHORT_ANSWER" | "LONG_ANSWER" | "MIXED";
+  questionCount: number; // Questions per topic for retrieval quizzes
+  retrievalTopics?: RetrievalTopicConfig[]; // One entry per uploaded image
+  questionType: QuestionType | "MIXED";
+  questionTypeMix?: QuestionTypeMix; // Percentage of each type when questionType is MIXED
+  optionCount?: number; // Options per multiple-choice question, 3-5 (4 when unset)
   educationLevel: "GCSE" | "A-LEVEL";
-  quizType: "retrieval" | "mini" | "assignment" | "application" | "marks-per-point" | "specific";
+  quizType: "retrieval" | "mini" | PracticeQuizType;
+  questionOrder?: QuestionOrderMode; // Retrieval quizzes: how questions are ordered (keep when unset)
 }
 
+// Share of each question type in a mixed quiz, in percent (should add up to 100)
+export type QuestionTypeMix = Record<QuestionType, number>;
+
+// Single-image quiz types that share the practice-quiz generator and layout
+export type PracticeQuizType = "assignment" | "application" | "marks-per-point" | "specific";
+
+// Retrieval question order: as generated, shuffled within each topic, or topics interleaved
+export type QuestionOrderMode = "keep" | "within-topic" | "interleave";
+
 export interface GenerateQuestionsRequest {
   imageBase64: string | string[];
   config: QuizConfig;
   customPrompt?: string;
-}
\ No newline at end of file
+}
+
+// Raw JSON shape the model returns for one retrieval topic
+export interface RetrievalTopicResponse {
+  name: string;
+  questions: Array<{
+    question: string;
+    type?: QuestionType; // Omitted for multiple choice
+    options?: string[]; // Multiple choice only
+    markPoints?: string[]; // Short/long answer only
+    distractorWarnings?: DistractorWarning[]; // Added by the distractor analysis, never by the model
+  }>;
+  answer_key: string[]; // an option letter (a-e) for multiple choice, "true"/"false" for true/false, "-" for written answers
+}
+
+// What the model is given for one topic: page images (signed URLs) and/or text from PDF pages
+export interface TopicMaterial {
+  images: string[]; // In page order
+  text?: string; // Extracted PDF text, one "--- Page n ---" block per selected page
+}
+
+// What server-side preprocessing did to one page image before the model saw it
+export interface ImagePreprocessingReport {
+  autoRotated: boolean; // Turned upright from the photo's EXIF orientation
+  deskewAngle: number; // Degrees the page was straightened by (0 when it was already level)
+  cropped: boolean; // Background around the page was cut away
+  originalWidth: number;
+  originalHeight: number;
+  width: number;
+  height: number;
+  originalBytes: number;
+  bytes: number;
+}
+
+// Raw JSON shape the model returns when reading every piece of text on a page image (readability pre-check)
+export interface ImageTextExtraction {
+  extractedText: string;
+  extractionPercentage: number; // 0-100: how much of the visible text could be read
+  unclearAreas: string[]; // e.g. "bottom right corner text is blurry"
+  confidence: "high" | "medium" | "low";
+  totalWords: number;
+  readabilityScore: "excellent" | "good" | "fair" | "poor";
+}
+
+// A retrieval topic that failed every attempt; the other topics are still returned
+export interface RetrievalTopicFailure {
+  index: number; // Topic position, which is also its upload slot's position
+  name: string; // Configured topic name, e.g. "Topic B"
+  error: string;
+  validationErrors?: string[]; // Schema errors when the model kept returning malformed output
+  attempts: number;
+}
+
+// JSON the generation routes respond with (also the result of a streamed generation)
+export interface GenerationResult {
+  success: boolean;
+  questions: GeneratedQuestion[];
+  quizId?: string; // Library entry, when saving succeeded
+  quizVersion?: number;
+  originalAnswerKey?: string[]; // Retrieval only
+  shuffledAnswerKey?: string[]; // Retrieval only
+  answerSequenceErrors?: string[]; // Retrieval only: constraints the final key still breaks (normally none)
+  failedTopics?: RetrievalTopicFailure[]; // Retrieval only
+  seed?: string; // Seed the answer options were shuffled with (mini and retrieval quizzes)
+  message: string;
+}
+
+// Progress streamed by the generation routes while a quiz is being built
+export type GenerationProgressEvent =
+  | { type: "stage"; stage: "upload" | "generate" | "review" | "shuffle" | "audit" | "verify" | "cleanup" | "save"; message: string }
+  | { type: "image-uploaded"; index: number } // Image position, in upload order
+  | { type: "topic-retry"; index: number; name: string; attempt: number; error: string }
+  | { type: "topic-done"; index: number; name: string; questions: GeneratedQuestion[]; provisional?: boolean } // Shuffled questions; provisional ones change order and answer letters before the quiz completes
+  | { type: "topic-failed"; failure: RetrievalTopicFailure };
+
+// Raw JSON shape the model returns when regenerating a single retrieval question
+export interface RetrievalQuestionResponse {
+  question: string;
+  type?: QuestionType;
+  options?: string[];
+  markPoints?: string[];
+  answer: string; // an option letter, "true"/"false" or "-", as in the topic answer_key
+}
+
+export interface MarkSchemeEntry {
+  questionNumber: number;
+  markPoints: string[];
+}
+
+// Raw JSON shape the model returns for a mini quiz
+export interface MiniQuizResponse {
+  topicName: string;
+  questions: Array<{
+    text: string;
+    type?: QuestionType;
+    options?: string[]; // Multiple choice only
+    answer?: string; // an option letter for multiple choice, "true"/"false" for true/false
+    maxMarks?: number;
+    aoLevel?: "AO1" | "AO2" | "AO3";
+  }>;
+  markScheme: {
+    ao1: MarkSchemeEntry[];
+    ao2: MarkSchemeEntry[];
+    ao3: MarkSchemeEntry[];
+  };
+}
+
+// Raw JSON shape the model returns for a source-grounding check, one entry per question
+export interface GroundingCheckResponse {
+  questions: Array<QuestionGrounding & { questionNumber: number }>;
+}
+
+// Raw JSON shape the model returns when reviewing a topic's MCQ options, one entry per reviewed question
+export interface DistractorReviewResponse {
+  questions: Array<{
+    questionNumber: number; // Position in the topic, 1-based
+    alsoCorrect: string[]; // Letters of distractors that are also right
+    contradictsStem: string[]; // Letters of distractors that contradict the stem
+    replacementOptions?: string[]; // Repair mode: all options, correct one unchanged in its place
+  }>;
+}
+
+// Raw JSON shape the model returns when classifying questions by assessment objective
+export interface AoClassificationResponse {
+  questions: Array<{
+    questionNumber: number;
+    aoLevel: "AO1" | "AO2" | "AO3";
+    reason: string;
+  }>;
+}
+
+// One past-paper question matched with its mark scheme
+export interface ExtractedQuestion {
+  question_id: string;
+  text: string;
+  mark_scheme: string;
+}
+
+// Raw JSON shape the model returns for a practice quiz (assignment, application, ...)
+export interface PracticeQuizResponse {
+  topicName: string;
+  questions: Array<{
+    text: string;
+    section: string;
+    maxMarks: number;
+    markPoints: string[];
+  }>;
+}
+
+// One generation of a saved quiz; regenerating a reopened quiz appends a new version
+export interface QuizVersion {
+  version: number; // 1-based, in creation order
+  createdAt: string; // ISO timestamp
+  questions: GeneratedQuestion[]; // Mini quiz and practice mark schemes travel inside the questions
+  originalAnswerKey?: string[]; // Retrieval only: answer key as the model wrote it
+  shuffledAnswerKey?: string[]; // Retrieval only: answer key after option shuffling
+  seed?: string; // Shuffle seed: the same seed and model output give the same paper
+}
+
+export interface SavedQuiz {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  config: QuizConfig;
+  imageHashes: string[]; // SHA-256 of each source image, in upload order
+  versions: QuizVersion[]; // Oldest first
+}
+
+// Library listing entry (no questions)
+export interface SavedQuizSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  quizType: QuizConfig["quizType"];
+  educationLevel: QuizConfig["educationLevel"];
+  questionCount: number; // Questions in the latest version
+  versionCount: number;
+}
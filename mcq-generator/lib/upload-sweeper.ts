@@ -0,0 +1,69 @@
+import { StorageBackend, TEMPORARY_UPLOAD_PREFIX } from "./storage";
+
+// Old enough that no generation request can still be reading the upload
+const DEFAULT_TEMP_UPLOAD_TTL_SECONDS = 2 * 60 * 60;
+
+// Shorter TTLs could delete images a slow generation is still using
+export const MIN_TEMP_UPLOAD_TTL_SECONDS = 10 * 60;
+
+export interface SweepOptions {
+  ttlSeconds?: number; // Uploads older than this are removed (TEMP_UPLOAD_TTL_SECONDS, defaults to 2 hours)
+  dryRun?: boolean; // Report what would be removed without deleting anything
+  now?: number;
+}
+
+export interface SweepReport {
+  dryRun: boolean;
+  ttlSeconds: number;
+  cutoff: string; // ISO time; uploads from before it are orphaned
+  scanned: number;
+  removed: Array<{ key: string; uploadedAt: string; ageSeconds: number; size?: number }>; // Would be removed, in a dry run
+  failed: Array<{ key: string; error: string }>;
+  kept: number; // Recent uploads that may still be in use
+}
+
+export function getTempUploadTTLSeconds(env: NodeJS.ProcessEnv = process.env): number {
+  return Number(env.TEMP_UPLOAD_TTL_SECONDS) || DEFAULT_TEMP_UPLOAD_TTL_SECONDS;
+}
+
+/**
+ * Delete temp/ uploads that outlived their request - left behind when the server was stopped
+ * mid-generation, before the route's own cleanup could run
+ */
+export async function sweepTemporaryUploads(storage: StorageBackend, options: SweepOptions = {}): Promise<SweepReport> {
+  const ttlSeconds = options.ttlSeconds ?? getTempUploadTTLSeconds();
+  if (ttlSeconds < MIN_TEMP_UPLOAD_TTL_SECONDS) {
+    throw new Error(`ttlSeconds must be at least ${MIN_TEMP_UPLOAD_TTL_SECONDS} so uploads in use are never swept`);
+  }
+
+  const now = options.now ?? Date.now();
+  const cutoff = now - ttlSeconds * 1000;
+  const objects = await storage.list(TEMPORARY_UPLOAD_PREFIX);
+  const expired = objects.filter(object => object.uploadedAt.getTime() < cutoff);
+
+  const report: SweepReport = {
+    dryRun: options.dryRun ?? false,
+    ttlSeconds,
+    cutoff: new Date(cutoff).toISOString(),
+    scanned: objects.length,
+    removed: [],
+    failed: [],
+    kept: objects.length - expired.length,
+  };
+
+  for (const object of expired) {
+    try {
+      if (!report.dryRun) await storage.delete(object.key);
+      report.removed.push({
+        key: object.key,
+        uploadedAt: object.uploadedAt.toISOString(),
+        ageSeconds: Math.round((now - object.uploadedAt.getTime()) / 1000),
+        size: object.size,
+      });
+    } catch (error) {
+      report.failed.push({ key: object.key, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return report;
+}